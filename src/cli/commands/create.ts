@@ -4,9 +4,8 @@ import { isEmpty, isNil, trim } from 'lodash-es';
 import { getContext, isInteractive, GlobalOptions } from '../index.js';
 import { parseDerivationExpression, formatParseError } from '@core/lang/index.js';
 import { createDerivation } from '@core/derivationEngine/index.js';
-import { getOrComputeDerivedContent } from '@core/derivationEngine/index.js';
 import type { ExternalDerivationParams } from '@core/db/types.js';
-import { executeIfRequested, getExpression } from './utils.js';
+import { executeIfRequested, getExpression, readFormulaWithinBudget } from './utils.js';
 
 export const createCommand = new Command('create')
   .description('Create a new formula')
@@ -69,14 +68,9 @@ export const createCommand = new Command('create')
       console.log(formulaId);
 
       executeIfRequested(opts.execute, interactive, async () => {
-        const result = await getOrComputeDerivedContent(
-          ctx.appDal,
-          formulaId,
-          ctx.rateLimiter,
-          ctx.config
-        );
+        const result = await readFormulaWithinBudget(ctx, formulaId, interactive);
         if (!result.success) {
-          return { success: false, code: 1, message: result.error.message };
+          return { success: false, code: result.code, message: result.error };
         }
 
         return { success: true, output: result.output };
@@ -0,0 +1,67 @@
+import { Command } from 'commander';
+import { groupBy, isNil } from 'lodash-es';
+import { getContext, isInteractive, GlobalOptions } from '../index.js';
+import { formatHash } from '@core/logger.js';
+import { getFormula } from './utils.js';
+
+export const errorsCommand = new Command('errors')
+  .description('List recent step failures per formula')
+  .argument('[identifier]', 'Formula ID or label (all formulas if omitted)')
+  .option('-n, --limit <count>', 'Maximum number of failures to show', '20')
+  .option('-y, --no-interactive', 'Disable interactive prompts')
+  .action(async (identifierArg: string | undefined) => {
+    const ctx = await getContext();
+    const globalOpts = errorsCommand.optsWithGlobals<GlobalOptions>();
+    const localOpts = errorsCommand.opts<{ limit: string }>();
+
+    const limit = Number.parseInt(localOpts.limit, 10);
+    if (Number.isNaN(limit) || limit <= 0) {
+      console.error('Error: --limit must be a positive integer');
+      process.exit(2);
+    }
+
+    const formulas = ctx.appDal.derivations.getAllDerivations();
+
+    let derivationId: string | undefined;
+    if (!isNil(identifierArg)) {
+      const result = await getFormula(
+        identifierArg,
+        isInteractive(globalOpts),
+        formulas,
+        'Select formula:'
+      );
+      if (!result.success) {
+        console.error(result.error);
+        process.exit(result.code);
+      }
+      derivationId = result.formula.derivation_id;
+    }
+
+    const failures = ctx.appDal.derivations.getRecentStepFailures({ derivationId, limit });
+
+    if (failures.length === 0) {
+      console.log('No failures recorded.');
+      return;
+    }
+
+    const byFormula = groupBy(failures, (f) => f.derivation_id);
+    for (const [id, formulaFailures] of Object.entries(byFormula)) {
+      const formula = formulas.find((f) => f.derivation_id === id);
+      const label = formula?.label ? `${formula.label} (${id})` : id;
+      console.log(isNil(formula) ? `${label} [deleted]` : label);
+
+      for (const failure of formulaFailures) {
+        const status = isNil(failure.resolved_at) ? '' : ' [resolved]';
+        console.log(`  ${failure.failed_at} ${failure.error_message}${status}`);
+        const details = [`kind: ${failure.error_kind}`];
+        if (!isNil(failure.cache_key)) {
+          details.push(`cache key: ${formatHash(failure.cache_key)}`);
+        }
+        if (!isNil(failure.input_content_hashes)) {
+          details.push(`inputs: [${failure.input_content_hashes.map(formatHash).join(', ')}]`);
+        }
+        console.log(`    ${details.join(', ')}`);
+      }
+      console.log();
+    }
+  });
@@ -0,0 +1,35 @@
+import { Command } from 'commander';
+import { getContext } from '../index.js';
+import { exportWorkbook } from '@core/derivationEngine/index.js';
+import { getFormula } from './utils.js';
+
+export const exportCommand = new Command('export')
+  .description('Write formulas, and the formulas they reference, to stdout as a workbook')
+  .argument('[identifiers...]', 'Formula IDs or labels (all formulas if omitted)')
+  .option('-o, --outputs', 'Include cached outputs')
+  .action(async (identifierArgs: string[], opts: { outputs?: boolean }) => {
+    const ctx = await getContext();
+    const formulas = ctx.appDal.derivations.getAllDerivations();
+
+    const derivationIds: string[] = [];
+    for (const identifier of identifierArgs) {
+      // stdout holds the workbook, so ambiguous labels can't be prompted for
+      const formulaResult = await getFormula(identifier, false, formulas, '');
+      if (!formulaResult.success) {
+        console.error(formulaResult.error);
+        process.exit(formulaResult.code);
+      }
+      derivationIds.push(formulaResult.formula.derivation_id);
+    }
+
+    const result = exportWorkbook(ctx.appDal, {
+      derivationIds: identifierArgs.length > 0 ? derivationIds : undefined,
+      includeOutputs: opts.outputs
+    });
+    if (!result.success) {
+      console.error(result.error);
+      process.exit(1);
+    }
+
+    console.log(JSON.stringify(result.workbook, null, 2));
+  });
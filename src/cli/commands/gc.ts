@@ -0,0 +1,74 @@
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import { getContext, isInteractive, GlobalOptions } from '../index.js';
+import { gcTables, GcReport } from '@core/db/gc.js';
+
+const formatBytes = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
+
+const printReport = (report: GcReport) => {
+  console.log(report.dryRun ? 'Unreachable rows:' : 'Removed rows:');
+  for (const table of gcTables) {
+    console.log(`  ${table.padEnd(20)} ${report.unreachableRows[table]}`);
+  }
+  console.log(
+    `\nContent ${report.dryRun ? 'to remove' : 'removed'}: ${formatBytes(report.unreachableContentBytes)}`
+  );
+  if (report.dryRun) {
+    console.log(`Database size: ${formatBytes(report.databaseBytesBefore)}`);
+  } else {
+    console.log(
+      `Database size: ${formatBytes(report.databaseBytesBefore)} -> ${formatBytes(report.databaseBytesAfter)}`
+    );
+  }
+};
+
+export const gcCommand = new Command('gc')
+  .description('Remove cached steps, results and content no longer reachable from any formula')
+  .option('--dry-run', 'Report what would be removed without deleting anything')
+  .option('-f, --force', 'Skip confirmation')
+  .option('-y, --no-interactive', 'Disable interactive prompts')
+  .action(async (opts: { dryRun?: boolean; force?: boolean }) => {
+    const ctx = await getContext();
+    const globalOpts = gcCommand.optsWithGlobals<GlobalOptions>();
+
+    const preview = ctx.appDal.collectGarbage({ dryRun: true });
+    if (opts.dryRun) {
+      printReport(preview);
+      return;
+    }
+
+    const nothingToRemove = gcTables.every((table) => preview.unreachableRows[table] === 0);
+    if (nothingToRemove) {
+      console.log('Nothing to remove.');
+      return;
+    }
+
+    if (!opts.force && isInteractive(globalOpts)) {
+      printReport(preview);
+      const { confirm: confirmed } = await inquirer.prompt<{ confirm: boolean }>([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: 'Remove these rows?',
+          default: false
+        }
+      ]);
+
+      if (!confirmed) {
+        console.log('Cancelled.');
+        process.exit(0);
+      }
+      console.log();
+    }
+
+    printReport(ctx.appDal.collectGarbage({ dryRun: false }));
+  });
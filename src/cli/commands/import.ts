@@ -0,0 +1,34 @@
+import { readFile } from 'fs/promises';
+import { Command } from 'commander';
+import { getContext } from '../index.js';
+import { importWorkbook } from '@core/derivationEngine/index.js';
+
+export const importCommand = new Command('import')
+  .description('Add the formulas of a workbook made with export')
+  .argument('<file>', 'Workbook file')
+  .action(async (file: string) => {
+    const ctx = await getContext();
+
+    let workbookData: unknown;
+    try {
+      workbookData = JSON.parse(await readFile(file, 'utf-8'));
+    } catch (error) {
+      console.error(
+        `Error: could not read ${file}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(2);
+    }
+
+    const result = importWorkbook(ctx.appDal, workbookData);
+    if (!result.success) {
+      console.error(result.error);
+      process.exit(2);
+    }
+
+    console.log(`Imported ${result.imported.length} formula(s):\n`);
+    for (const { originalId, derivationId } of result.imported) {
+      console.log(
+        originalId === derivationId ? `  ${derivationId}` : `  ${derivationId} (was ${originalId})`
+      );
+    }
+  });
@@ -1,21 +1,53 @@
 import { Command } from 'commander';
 import { getContext } from '../index.js';
+import { getDerivationStatuses, type DerivationStatus } from '@core/derivationEngine/index.js';
 
-export const listCommand = new Command('list').description('List all formulas').action(async () => {
-  const ctx = await getContext();
-  const formulas = ctx.appDal.derivations.getAllDerivations();
-
-  if (formulas.length === 0) {
-    console.log('No formulas found.');
-    return;
+const formatStatus = (status: DerivationStatus): string => {
+  switch (status.status) {
+    case 'fresh':
+    case 'never-computed':
+      return status.status;
+    case 'stale': {
+      if (status.changed.length === 0) return 'stale';
+      const changed = status.changed.map((upstream) =>
+        upstream.type === 'formula' ? `$${upstream.derivationId}` : upstream.path
+      );
+      return `stale (changed: ${changed.join(', ')})`;
+    }
+    case 'error':
+      return `error: ${status.message}`;
   }
+};
 
-  console.log(`Found ${formulas.length} formula(s):\n`);
+export const listCommand = new Command('list')
+  .description('List all formulas')
+  .option('-s, --status', 'Show whether each formula is current, without reading it')
+  .action(async () => {
+    const ctx = await getContext();
+    const localOpts = listCommand.opts<{ status?: boolean }>();
+    const formulas = ctx.appDal.derivations.getAllDerivations();
 
-  for (const f of formulas) {
-    const label = f.label ? ` (${f.label})` : '';
-    console.log(`  ${f.derivation_id}${label}`);
-    console.log(`    ${f.dsl_expression}`);
-    console.log();
-  }
-});
+    if (formulas.length === 0) {
+      console.log('No formulas found.');
+      return;
+    }
+
+    console.log(`Found ${formulas.length} formula(s):\n`);
+
+    const statuses = localOpts.status
+      ? await getDerivationStatuses(ctx.appDal, undefined, {
+          watchedDirectory: ctx.config.watchedDirectory
+        })
+      : undefined;
+
+    for (const f of formulas) {
+      const label = f.label ? ` (${f.label})` : '';
+      console.log(`  ${f.derivation_id}${label}`);
+      console.log(`    ${f.dsl_expression}`);
+      const status = statuses?.[f.derivation_id];
+      if (status) {
+        console.log(`    status: ${formatStatus(status)}`);
+      }
+      console.log();
+    }
+  });
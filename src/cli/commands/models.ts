@@ -1,6 +1,6 @@
 import { Command } from 'commander';
 import { getContext } from '../index.js';
-import { llmModels, getAlias } from '@lang-data/models.js';
+import { getLlmModels } from '@lang-data/models.js';
 import { hasApiKey } from '@core/config.js';
 
 export const modelsCommand = new Command('models')
@@ -9,8 +9,8 @@ export const modelsCommand = new Command('models')
     const ctx = await getContext();
     const { config } = ctx;
 
-    for (const model of llmModels) {
+    for (const model of getLlmModels()) {
       const status = hasApiKey(model.provider, config) ? '✓ configured' : '✗ no key';
-      console.log(`${getAlias(model)} (${model.name}) ${status}`);
+      console.log(`${model.alias} (${model.name}) ${status}`);
     }
   });
@@ -0,0 +1,41 @@
+import { Command } from 'commander';
+import { getContext, isInteractive, GlobalOptions } from '../index.js';
+import { pinDerivationVariant } from '@core/derivationEngine/index.js';
+import { getFormula } from './utils.js';
+
+export const pinVariantCommand = new Command('pin-variant')
+  .description('Choose which variant of a formula is read and consumed downstream')
+  .argument('<identifier>', 'Formula ID or label')
+  .argument('<variant>', 'Variant number (see the variants command)')
+  .option('-y, --no-interactive', 'Disable interactive prompts')
+  .action(async (identifierArg: string, variantArg: string) => {
+    const ctx = await getContext();
+    const globalOpts = pinVariantCommand.optsWithGlobals<GlobalOptions>();
+
+    const variantNumber = Number.parseInt(variantArg, 10);
+    if (Number.isNaN(variantNumber) || variantNumber <= 0) {
+      console.error('Error: variant must be a positive integer');
+      process.exit(2);
+    }
+
+    const formulas = ctx.appDal.derivations.getAllDerivations();
+
+    const result = await getFormula(
+      identifierArg,
+      isInteractive(globalOpts),
+      formulas,
+      'Select formula:'
+    );
+    if (!result.success) {
+      console.error(result.error);
+      process.exit(result.code);
+    }
+
+    const pinned = pinDerivationVariant(ctx.appDal, result.formula.derivation_id, variantNumber);
+    if (!pinned.success) {
+      console.error(pinned.error.message);
+      process.exit(2);
+    }
+
+    console.log(`Pinned variant ${variantNumber} of ${result.formula.derivation_id}`);
+  });
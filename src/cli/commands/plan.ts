@@ -0,0 +1,122 @@
+import { Command } from 'commander';
+import { countBy } from 'lodash-es';
+import { getContext, isInteractive, GlobalOptions } from '../index.js';
+import {
+  getReadPlan,
+  PlannedStep,
+  PlannedStepStatus,
+  ReadPlan
+} from '@core/derivationEngine/index.js';
+import { UserDerivation } from '@core/db/derivationsService.js';
+import { isLlmStep } from '@core/db/types.js';
+import { formatHash } from '@core/logger.js';
+import { getFormula } from './utils.js';
+
+const statusLabels: Record<PlannedStepStatus, string> = {
+  cached: 'cached',
+  compute: 'needs compute',
+  seed: 'seed in cycle'
+};
+
+const formatStep = (step: PlannedStep): string => {
+  const status = statusLabels[step.status];
+  const model = isLlmStep(step.recipeParams) ? ` (${step.recipeParams.model})` : '';
+  return `[${status}] ${step.recipeParams.operation}${model} step ${formatHash(step.stepId)}`;
+};
+
+const printPlan = (plan: ReadPlan, formulas: UserDerivation[]) => {
+  const formulaName = (id: string) => {
+    const formula = formulas.find((f) => f.derivation_id === id);
+    return formula?.label ? `${formula.label} (${id})` : id;
+  };
+
+  plan.units.forEach((unit, index) => {
+    const nodeIds = unit.type === 'scc' ? unit.nodeIds : [unit.nodeId];
+    console.log(`${index + 1}. ${unit.type === 'scc' ? 'cycle' : 'formula'}`);
+    for (const nodeId of nodeIds) {
+      console.log(`   ${formulaName(nodeId)}`);
+      for (const step of plan.steps.filter((s) => s.derivationId === nodeId)) {
+        const seededFor = step.status === 'seed' ? `, reached from ${step.seededFor}` : '';
+        console.log(`     ${formatStep(step)}${seededFor}`);
+      }
+    }
+  });
+
+  if (plan.pinnedPaths.length > 0) {
+    console.log(`\nPinned paths read:`);
+    plan.pinnedPaths.forEach((p) => console.log(`  ${p}`));
+  }
+  if (plan.urls.length > 0 || plan.unresolvedUrlCount > 0) {
+    console.log(`\nURLs fetched:`);
+    plan.urls.forEach((url) => console.log(`  ${url}`));
+    if (plan.unresolvedUrlCount > 0) {
+      console.log(`  ${plan.unresolvedUrlCount} more, known only after computing`);
+    }
+  }
+
+  const counts = countBy(plan.steps, (step) => step.status);
+  console.log(
+    `\n${counts.cached ?? 0} cached, ${counts.compute ?? 0} need compute, ${counts.seed ?? 0} seeded`
+  );
+};
+
+export const planCommand = new Command('plan')
+  .description('Show what reading a formula would compute, without running anything')
+  .argument('[identifier]', 'Formula ID or label')
+  .option('--json', 'Print the plan as JSON')
+  .option('-r, --reroll', 'Plan a read that bypasses the cache')
+  .option('--check', 'Exit with code 1 if any step needs computing')
+  .option('-y, --no-interactive', 'Disable interactive prompts')
+  .action(async (identifierArg: string | undefined) => {
+    const ctx = await getContext();
+    const globalOpts = planCommand.optsWithGlobals<GlobalOptions>();
+    const localOpts = planCommand.opts<{ json?: boolean; reroll?: boolean; check?: boolean }>();
+
+    const formulas = ctx.appDal.derivations.getAllDerivations();
+
+    const formulaResult = await getFormula(
+      identifierArg,
+      isInteractive(globalOpts),
+      formulas,
+      'Select formula to plan:'
+    );
+    if (!formulaResult.success) {
+      console.error(formulaResult.error);
+      process.exit(formulaResult.code);
+    }
+
+    const result = await getReadPlan(ctx.appDal, formulaResult.formula.derivation_id, {
+      skipCache: localOpts.reroll,
+      watchedDirectory: ctx.config.watchedDirectory
+    });
+    if (!result.success) {
+      console.error(result.error.message);
+      process.exit(1);
+    }
+
+    const { plan } = result;
+    const needsCompute = plan.steps.some((step) => step.status === 'compute');
+
+    if (localOpts.json) {
+      console.log(
+        JSON.stringify(
+          {
+            ...plan,
+            steps: plan.steps.map(({ recipeParams, ...step }) => ({
+              ...step,
+              operation: recipeParams.operation
+            })),
+            needsCompute
+          },
+          null,
+          2
+        )
+      );
+    } else {
+      printPlan(plan, formulas);
+    }
+
+    if (localOpts.check && needsCompute) {
+      process.exit(1);
+    }
+  });
@@ -1,17 +1,17 @@
 import { Command } from 'commander';
 import { getContext, isInteractive, GlobalOptions } from '../index.js';
-import { getOrComputeDerivedContent } from '@core/derivationEngine/index.js';
-import { getFormula } from './utils.js';
+import { getFormula, readFormulaWithinBudget } from './utils.js';
 
 export const readCommand = new Command('read')
   .description('Read/execute a formula and output its result')
   .argument('[identifier]', 'Formula ID or label')
   .option('-y, --no-interactive', 'Disable interactive prompts')
   .option('-r, --reroll', 'Force recalculation and bypass cache')
+  .option('-s, --stream', 'Print output incrementally as it is generated')
   .action(async (identifierArg: string | undefined) => {
     const ctx = await getContext();
     const globalOpts = readCommand.optsWithGlobals<GlobalOptions>();
-    const localOpts = readCommand.opts<{ reroll?: boolean }>();
+    const localOpts = readCommand.opts<{ reroll?: boolean; stream?: boolean }>();
     const interactive = isInteractive(globalOpts);
 
     const formulas = ctx.appDal.derivations.getAllDerivations();
@@ -34,18 +34,19 @@ export const readCommand = new Command('read')
 
     const formula = formulaResult.formula;
 
-    const result = await getOrComputeDerivedContent(
-      ctx.appDal,
-      formula.derivation_id,
-      ctx.rateLimiter,
-      ctx.config,
-      { skipCache: localOpts.reroll }
-    );
+    const result = await readFormulaWithinBudget(ctx, formula.derivation_id, interactive, {
+      skipCache: localOpts.reroll,
+      onChunk: localOpts.stream ? (chunk) => process.stdout.write(chunk) : undefined
+    });
 
     if (!result.success) {
-      console.error(result.error.message);
-      process.exit(1);
+      console.error(result.error);
+      process.exit(result.code);
     }
 
-    console.log(result.output);
+    if (localOpts.stream) {
+      process.stdout.write('\n');
+    } else {
+      console.log(result.output);
+    }
   });
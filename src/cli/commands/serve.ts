@@ -0,0 +1,75 @@
+import path from 'path';
+import { existsSync } from 'fs';
+import { randomBytes } from 'crypto';
+import { fileURLToPath } from 'url';
+import { Command } from 'commander';
+import { isNil } from 'lodash-es';
+import { getContext } from '../index.js';
+import { createHttpServer } from '../../gui/shared/server/http.js';
+import { serverEvents } from '../../gui/shared/server/events.js';
+import { startFileWatcher } from '@core/watcher.js';
+
+// `pnpm build:web` outputs the web client next to the CLI bundle
+const webClientDirectory = path.join(path.dirname(fileURLToPath(import.meta.url)), 'web');
+
+export const serveCommand = new Command('serve')
+  .description('Serve formulas over HTTP, for scripts and the web client')
+  .option('-p, --port <port>', 'Port to listen on', '4400')
+  .option('--host <host>', 'Host to listen on', '127.0.0.1')
+  .option(
+    '-t, --token <token>',
+    'Bearer token required on every request (defaults to $SLANTWISE_TOKEN, else generated)'
+  )
+  .option(
+    '--allow-origin <origin...>',
+    'Other origins browsers may call from, e.g. a web client dev server'
+  )
+  .action(async () => {
+    const ctx = await getContext();
+    const localOpts = serveCommand.opts<{
+      port: string;
+      host: string;
+      token?: string;
+      allowOrigin?: string[];
+    }>();
+
+    const port = Number.parseInt(localOpts.port, 10);
+    if (Number.isNaN(port) || port < 0 || port > 65535) {
+      console.error('Error: --port must be between 0 and 65535');
+      process.exit(2);
+    }
+    const token =
+      localOpts.token ?? process.env.SLANTWISE_TOKEN ?? randomBytes(24).toString('base64url');
+
+    if (ctx.config.watchedDirectory) {
+      // lets subscribed clients refresh formulas when their files change
+      await startFileWatcher(
+        path.resolve(ctx.config.watchedDirectory),
+        ctx.appDal,
+        ctx.rateLimiter,
+        ctx.config,
+        (event) => serverEvents.emit('staleFormulas', event)
+      );
+    }
+
+    const staticDirectory = existsSync(webClientDirectory) ? webClientDirectory : undefined;
+    const server = createHttpServer({
+      context: ctx,
+      token,
+      allowedOrigins: localOpts.allowOrigin,
+      staticDirectory
+    });
+    server.listen(port, localOpts.host, () => {
+      const address = server.address();
+      const boundPort = typeof address === 'object' && address !== null ? address.port : port;
+      const baseUrl = `http://${localOpts.host}:${boundPort}`;
+      console.log(`Serving on ${baseUrl}`);
+      console.log(`  tRPC: /trpc, REST: /formulas`);
+      if (isNil(localOpts.token ?? process.env.SLANTWISE_TOKEN)) {
+        console.log(`  Token: ${token}`);
+      }
+      if (staticDirectory) {
+        console.log(`  Web UI: ${baseUrl}/?token=${encodeURIComponent(token)}`);
+      }
+    });
+  });
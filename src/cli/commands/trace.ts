@@ -1,19 +1,19 @@
 import { Command } from 'commander';
 import { getContext, isInteractive, GlobalOptions } from '../index.js';
-import { getOrComputeDerivedContent } from '@core/derivationEngine/index.js';
 import { formatExecutionTrace } from '../formatters/trace.js';
-import { getFormula } from './utils.js';
+import { getFormula, readFormulaWithinBudget } from './utils.js';
 
 export const traceCommand = new Command('trace')
   .description('Show execution trace for a formula')
   .argument('[identifier]', 'Formula ID or label')
   .option('--full', 'Show full values without truncation')
   .option('-r, --reroll', 'Force recalculation and bypass cache')
+  .option('-s, --stream', 'Print output incrementally before the trace')
   .option('-y, --no-interactive', 'Disable interactive prompts')
   .action(async (identifierArg: string | undefined) => {
     const ctx = await getContext();
     const globalOpts = traceCommand.optsWithGlobals<GlobalOptions>();
-    const localOpts = traceCommand.opts<{ full?: boolean; reroll?: boolean }>();
+    const localOpts = traceCommand.opts<{ full?: boolean; reroll?: boolean; stream?: boolean }>();
     const interactive = isInteractive(globalOpts);
 
     const formulas = ctx.appDal.derivations.getAllDerivations();
@@ -36,17 +36,25 @@ export const traceCommand = new Command('trace')
 
     const formula = formulaResult.formula;
 
-    const result = await getOrComputeDerivedContent(
-      ctx.appDal,
-      formula.derivation_id,
-      ctx.rateLimiter,
-      ctx.config,
-      { skipCache: localOpts.reroll }
-    );
+    let streamed = false;
+    const result = await readFormulaWithinBudget(ctx, formula.derivation_id, interactive, {
+      skipCache: localOpts.reroll,
+      onChunk: localOpts.stream
+        ? (chunk) => {
+            streamed = true;
+            process.stdout.write(chunk);
+          }
+        : undefined
+    });
 
     if (!result.success) {
-      console.error(result.error.message);
-      process.exit(1);
+      console.error(result.error);
+      process.exit(result.code);
+    }
+
+    // separates streamed output from the trace
+    if (streamed) {
+      process.stdout.write('\n\n');
     }
 
     const trace = formatExecutionTrace(
@@ -3,9 +3,9 @@ import inquirer from 'inquirer';
 import { isEmpty, trim } from 'lodash-es';
 import { getContext, isInteractive, GlobalOptions } from '../index.js';
 import { parseDerivationExpression, formatParseError } from '@core/lang/index.js';
-import { updateDerivation, getOrComputeDerivedContent } from '@core/derivationEngine/index.js';
+import { updateDerivation } from '@core/derivationEngine/index.js';
 import type { ExternalDerivationParams } from '@core/db/types.js';
-import { getFormula, getExpression, executeIfRequested } from './utils.js';
+import { executeIfRequested, getExpression, getFormula, readFormulaWithinBudget } from './utils.js';
 
 export const updateCommand = new Command('update')
   .description('Update an existing formula')
@@ -97,14 +97,9 @@ export const updateCommand = new Command('update')
       console.log(formulaId);
 
       executeIfRequested(opts.execute, interactive, async () => {
-        const result = await getOrComputeDerivedContent(
-          ctx.appDal,
-          formulaId,
-          ctx.rateLimiter,
-          ctx.config
-        );
+        const result = await readFormulaWithinBudget(ctx, formulaId, interactive);
         if (!result.success) {
-          return { success: false, code: 1, message: result.error.message };
+          return { success: false, code: result.code, message: result.error };
         }
 
         return { success: true, output: result.output };
@@ -0,0 +1,63 @@
+import { Command } from 'commander';
+import { getContext } from '../index.js';
+import { summarizeLlmUsage, UsageTotals } from '@core/derivationEngine/index.js';
+
+const formatCost = (totals: UsageTotals): string => {
+  const cost = `$${totals.cost.toFixed(4)}`;
+  return totals.unpricedCalls > 0 ? `${cost} + ${totals.unpricedCalls} unpriced calls` : cost;
+};
+
+const formatTotals = (totals: UsageTotals): string => {
+  const spent = `${totals.calls} calls, ${totals.promptTokens} in / ${totals.completionTokens} out tokens, ${formatCost(totals)}`;
+  if (totals.cacheHits === 0) {
+    return spent;
+  }
+  return `${spent} (saved ${totals.savedTokens} tokens, $${totals.savedCost.toFixed(4)} over ${totals.cacheHits} cache hits)`;
+};
+
+const printSection = (title: string, rows: [string, UsageTotals][]) => {
+  console.log(`${title}:`);
+  for (const [name, totals] of rows) {
+    console.log(`  ${name}: ${formatTotals(totals)}`);
+  }
+  console.log();
+};
+
+export const usageCommand = new Command('usage')
+  .description('Summarize LLM token usage and spend by formula, model and day')
+  .option('-d, --days <count>', 'Number of days to include', '30')
+  .action(async () => {
+    const ctx = await getContext();
+    const localOpts = usageCommand.opts<{ days: string }>();
+
+    const days = Number.parseInt(localOpts.days, 10);
+    if (Number.isNaN(days) || days <= 0) {
+      console.error('Error: --days must be a positive integer');
+      process.exit(2);
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const summary = summarizeLlmUsage(ctx.appDal, { since });
+
+    if (summary.total.calls === 0 && summary.total.cacheHits === 0) {
+      console.log(`No LLM usage recorded in the last ${days} days.`);
+      return;
+    }
+
+    const formulas = ctx.appDal.derivations.getAllDerivations();
+    const formulaName = (id: string) => {
+      const formula = formulas.find((f) => f.derivation_id === id);
+      if (formula === undefined) {
+        return `${id} [deleted]`;
+      }
+      return formula.label ? `${formula.label} (${id})` : id;
+    };
+
+    printSection(
+      'By formula',
+      Object.entries(summary.byFormula).map(([id, totals]) => [formulaName(id), totals])
+    );
+    printSection('By model', Object.entries(summary.byModel));
+    printSection('By day', Object.entries(summary.byDay));
+    console.log(`Total (last ${days} days): ${formatTotals(summary.total)}`);
+  });
@@ -1,6 +1,9 @@
 import inquirer from 'inquirer';
 import { isEmpty, isNil, isString, trim } from 'lodash-es';
 import { UserDerivation } from '@core/db/derivationsService.js';
+import type { ExecutionTree } from '@core/db/types.js';
+import { getOrComputeDerivedContent } from '@core/derivationEngine/index.js';
+import type { CliContext } from '../context.js';
 
 export const getFormula = async (
   identifierArg: string | undefined,
@@ -166,3 +169,54 @@ export const executeIfRequested = async (
     }
   }
 };
+
+/**
+ * Reads a formula. Reads over a configured spending cap ask for confirmation
+ * and run again once given; non-interactive reads over a cap fail.
+ */
+export const readFormulaWithinBudget = async (
+  ctx: CliContext,
+  derivationId: string,
+  shouldBeInteractive: boolean,
+  opts?: { skipCache?: boolean; onChunk?: (chunk: string) => void }
+): Promise<
+  | { success: true; output: string; executionTree: ExecutionTree }
+  | { success: false; code: 1; error: string }
+> => {
+  const read = (confirmOverBudget: boolean) =>
+    getOrComputeDerivedContent(ctx.appDal, derivationId, ctx.rateLimiter, ctx.config, {
+      ...opts,
+      confirmOverBudget
+    });
+
+  let result = await read(false);
+  if (!result.success && result.error.kind === 'over_budget') {
+    console.error(result.error.message);
+
+    if (!shouldBeInteractive) {
+      return {
+        success: false,
+        code: 1,
+        error: 'Error: spending cap exceeded. Run interactively to confirm, or raise the cap.'
+      };
+    }
+
+    const resp = await inquirer.prompt<{ confirm: boolean }>([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: 'Run it anyway?',
+        default: false
+      }
+    ]);
+    if (!resp.confirm) {
+      return { success: false, code: 1, error: 'Cancelled.' };
+    }
+    result = await read(true);
+  }
+
+  if (!result.success) {
+    return { success: false, code: 1, error: result.error.message };
+  }
+  return { success: true, output: result.output, executionTree: result.executionTree };
+};
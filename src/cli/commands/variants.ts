@@ -0,0 +1,57 @@
+import { Command } from 'commander';
+import { getContext, isInteractive, GlobalOptions } from '../index.js';
+import { getDerivationVariants } from '@core/derivationEngine/index.js';
+import { getFormula } from './utils.js';
+
+const PREVIEW_LENGTH = 60;
+
+const formatPreview = (output: string | undefined): string => {
+  if (output === undefined) {
+    return '[content missing]';
+  }
+  const singleLine = output.replace(/\s+/g, ' ').trim();
+  return singleLine.length > PREVIEW_LENGTH
+    ? `${singleLine.slice(0, PREVIEW_LENGTH)}...`
+    : singleLine;
+};
+
+export const variantsCommand = new Command('variants')
+  .description('List every computed result (variant) of a formula')
+  .argument('[identifier]', 'Formula ID or label')
+  .option('-y, --no-interactive', 'Disable interactive prompts')
+  .action(async (identifierArg: string | undefined) => {
+    const ctx = await getContext();
+    const globalOpts = variantsCommand.optsWithGlobals<GlobalOptions>();
+
+    const formulas = ctx.appDal.derivations.getAllDerivations();
+
+    const result = await getFormula(
+      identifierArg,
+      isInteractive(globalOpts),
+      formulas,
+      'Select formula:'
+    );
+    if (!result.success) {
+      console.error(result.error);
+      process.exit(result.code);
+    }
+
+    const variantsResult = getDerivationVariants(ctx.appDal, result.formula.derivation_id);
+    if (!variantsResult.success) {
+      console.error(variantsResult.error.message);
+      process.exit(1);
+    }
+
+    if (variantsResult.variants.length === 0) {
+      console.log('No variants yet. Read the formula to compute one.');
+      return;
+    }
+
+    for (const variant of variantsResult.variants) {
+      const marker = variant.isSelected ? '*' : ' ';
+      const source = variant.model ?? variant.operation;
+      console.log(
+        `${marker} ${String(variant.variantNumber).padStart(3)}  ${variant.computedAt}  ${source}  ${formatPreview(variant.output)}`
+      );
+    }
+  });
@@ -15,6 +15,9 @@ const truncate = (str: string, full: boolean): string => {
   return oneLine.slice(0, TRUNCATE_LENGTH) + '...';
 };
 
+const formatOperation = (operation: string, branch: string | undefined): string =>
+  branch === undefined ? operation : `${operation} (${branch})`;
+
 const formatCacheStatus = (status: CacheStatus): string => {
   if (status === 'computed') return '[computed]';
   if (status === 'cached') return '[cached]';
@@ -35,12 +38,16 @@ const dependencyToNode = (
   resolveContent: ContentResolver,
   opts: FormatTraceOptions
 ): TreeNode => {
-  if (dep.type === 'content' || dep.type === 'pinned_path' || dep.type === 'constant') {
+  if (
+    dep.type === 'content' ||
+    dep.type === 'pinned_path' ||
+    dep.type === 'constant' ||
+    dep.type === 'file' ||
+    dep.type === 'file_glob'
+  ) {
     const content = resolveContent(dep.contentHash);
-    const label =
-      dep.type === 'constant' ? 'constant' : dep.type === 'pinned_path' ? 'pinned_path' : 'content';
     return {
-      label,
+      label: dep.type,
       value: content
         ? truncate(content, opts.full ?? false)
         : `<hash: ${dep.contentHash.slice(0, 8)}>`,
@@ -52,7 +59,7 @@ const dependencyToNode = (
   if (dep.type === 'derivation' || dep.type === 'computed_step') {
     const content = resolveContent(dep.contentHash);
     return {
-      label: dep.operation,
+      label: formatOperation(dep.operation, dep.branch),
       cacheStatus: formatCacheStatus(dep.cacheStatus),
       value: content !== undefined ? truncate(content, opts.full ?? false) : undefined,
       children: dep.dependencies.map((child: DependencyTree[number]) =>
@@ -72,7 +79,7 @@ const executionTreeToNode = (
 ): TreeNode => {
   const content = resolveContent(tree.contentHash);
   return {
-    label: tree.operation,
+    label: formatOperation(tree.operation, tree.branch),
     cacheStatus: formatCacheStatus(tree.cacheStatus),
     value: content !== undefined ? truncate(content, opts.full ?? false) : undefined,
     children: tree.dependencies.map((dep) => dependencyToNode(dep, resolveContent, opts))
@@ -9,6 +9,15 @@ import { deleteCommand } from './commands/delete.js';
 import { initCommand } from './commands/init.js';
 import { modelsCommand } from './commands/models.js';
 import { operationsCommand } from './commands/operations.js';
+import { errorsCommand } from './commands/errors.js';
+import { gcCommand } from './commands/gc.js';
+import { usageCommand } from './commands/usage.js';
+import { planCommand } from './commands/plan.js';
+import { variantsCommand } from './commands/variants.js';
+import { pinVariantCommand } from './commands/pinVariant.js';
+import { serveCommand } from './commands/serve.js';
+import { exportCommand } from './commands/export.js';
+import { importCommand } from './commands/import.js';
 
 export type GlobalOptions = {
   interactive?: boolean;
@@ -38,10 +47,19 @@ program.addCommand(listCommand);
 program.addCommand(createCommand);
 program.addCommand(readCommand);
 program.addCommand(traceCommand);
+program.addCommand(planCommand);
 program.addCommand(updateCommand);
 program.addCommand(deleteCommand);
 program.addCommand(modelsCommand);
 program.addCommand(operationsCommand);
+program.addCommand(errorsCommand);
+program.addCommand(variantsCommand);
+program.addCommand(pinVariantCommand);
+program.addCommand(gcCommand);
+program.addCommand(usageCommand);
+program.addCommand(serveCommand);
+program.addCommand(exportCommand);
+program.addCommand(importCommand);
 
 program.action(() => {
   program.help();
@@ -15,6 +15,8 @@ export default defineConfig({
       fileName: () => 'cli.mjs'
     },
     outDir: resolve(rootDir, 'out'),
+    // keep the web client (out/web), which serve hosts
+    emptyOutDir: false,
     rollupOptions: {
       external: [
         'inquirer',
@@ -12,7 +12,54 @@ export const configSchema = z.object({
   embeddingRpmLimit: z.number().positive().int().default(80),
   skipEmbedding: z.boolean().default(true),
   debug: z.boolean().default(false),
-  theme: themeSchema.default('system')
+  theme: themeSchema.default('system'),
+  // Spending caps in USD; reads estimated to exceed them need confirmation
+  maxReadCostUsd: z.number().positive().optional(),
+  maxDailyCostUsd: z.number().positive().optional(),
+  // An OpenAI-compatible endpoint (e.g. Ollama, llama.cpp, vLLM); each model is
+  // declared as an alias name mapped to the served model ID, used as "local/<alias>"
+  localLlm: z
+    .object({
+      baseUrl: z.string().url(),
+      apiKey: z.string().optional(),
+      models: z.record(z.string(), z.string()).default({})
+    })
+    .optional(),
+  // Models to add to the built-in ones (or to override them by alias), e.g. new OpenRouter models
+  models: z
+    .array(
+      z.object({
+        // defaults to "<provider>/<modelId>"
+        alias: z
+          .string()
+          .regex(/^[^/]+\/.+$/, 'Model aliases look like "<provider>/<name>"')
+          .optional(),
+        provider: z.enum(['openai', 'openrouter']),
+        modelId: z.string().min(1),
+        name: z.string().optional(),
+        // in tokens
+        contextWindow: z.number().positive().int().optional(),
+        // USD per million tokens
+        pricing: z
+          .object({ inputPerMillion: z.number().min(0), outputPerMillion: z.number().min(0) })
+          .optional()
+      })
+    )
+    .optional(),
+  // Re-read the formulas that depend on a file in the background when it changes
+  autoRecompute: z.boolean().optional(),
+  // Max operations (e.g. llm calls) a read runs at once; independent inputs are evaluated together
+  maxParallelism: z.number().positive().int().optional(),
+  // Per-model request and token limits per minute, keyed by model alias (e.g. "openai/gpt-5")
+  llmRateLimits: z
+    .record(
+      z.string(),
+      z.object({
+        rpm: z.number().positive().int().optional(),
+        tpm: z.number().positive().int().optional()
+      })
+    )
+    .optional()
 });
 
 export type ConfigType = z.infer<typeof configSchema>;
@@ -25,5 +72,12 @@ export const getDefaultConfig = (defaultDbPath: string): ConfigType => ({
   embeddingRpmLimit: configSchema.shape.embeddingRpmLimit.parse(undefined),
   skipEmbedding: configSchema.shape.skipEmbedding.parse(undefined),
   debug: configSchema.shape.debug.parse(undefined),
-  theme: configSchema.shape.theme.parse(undefined)
+  theme: configSchema.shape.theme.parse(undefined),
+  maxReadCostUsd: undefined,
+  maxDailyCostUsd: undefined,
+  localLlm: undefined,
+  models: undefined,
+  autoRecompute: undefined,
+  maxParallelism: undefined,
+  llmRateLimits: undefined
 });
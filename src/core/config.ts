@@ -2,6 +2,7 @@ import path from 'path';
 import { createOpenAI } from '@ai-sdk/openai';
 import { createOpenRouter } from '@openrouter/ai-sdk-provider';
 import envPaths from 'env-paths';
+import { isNil } from 'lodash-es';
 import {
   logConfigLoadingAttempt,
   logConfigLoadSuccess,
@@ -14,7 +15,12 @@ import {
 } from './logger.js';
 import { readFileSafe, writeConfigFileAtomic } from './utils.js';
 import { configSchema, ConfigType, getDefaultConfig } from '@config/types.js';
-import type { ModelProvider } from '@lang-data/models.js';
+import {
+  setConfigModels,
+  setLocalModels,
+  type ConfigModelEntry,
+  type ModelProvider
+} from '@lang-data/models.js';
 
 const paths = envPaths('slantwise', { suffix: '' });
 export const configFilePath = path.join(paths.config, 'config.json');
@@ -23,6 +29,7 @@ export const defaultDbPath = path.join(paths.config, 'files.db');
 let loadedConfig: ConfigType | null = null;
 let openai: ReturnType<typeof createOpenAI> | null = null;
 let openrouter: ReturnType<typeof createOpenRouter> | null = null;
+let localLlm: ReturnType<typeof createOpenAI> | null = null;
 let embeddingModel: ReturnType<ReturnType<typeof createOpenAI>['embedding']> | null = null;
 let embeddingRpmLimit: number;
 
@@ -63,12 +70,20 @@ async function loadOrCreateConfig(): Promise<ConfigType> {
   }
 }
 
+/** Adds the models declared in config to the model registry */
+function registerConfiguredModels(config: ConfigType): void {
+  // the config schema checks aliases have the "<provider>/<name>" form
+  setConfigModels((config.models ?? []) as ConfigModelEntry[]);
+  setLocalModels(config.localLlm?.models ?? {});
+}
+
 export async function getConfig(): Promise<ConfigType> {
   if (loadedConfig) {
     return loadedConfig;
   }
 
   loadedConfig = await loadOrCreateConfig();
+  registerConfiguredModels(loadedConfig);
 
   embeddingRpmLimit = loadedConfig.embeddingRpmLimit * 0.8;
 
@@ -95,6 +110,7 @@ export async function updateConfig(updates: Partial<ConfigType>): Promise<Config
   await writeConfigFileAtomic(configFilePath, validationResult.data);
 
   loadedConfig = validationResult.data;
+  registerConfiguredModels(loadedConfig);
 
   return loadedConfig;
 }
@@ -103,6 +119,10 @@ export function hasApiKey(provider: ModelProvider, config: ConfigType): boolean
   if (provider === 'openai') {
     return config.openaiApiKey.trim() !== '';
   }
+  if (provider === 'local') {
+    // local servers usually need no key, only somewhere to send requests
+    return !isNil(config.localLlm);
+  }
   return config.openRouterApiKey.trim() !== '';
 }
 
@@ -132,6 +152,22 @@ export async function getOpenRouter(
   return openrouter;
 }
 
+export async function getLocalLlm(config: ConfigType): Promise<ReturnType<typeof createOpenAI>> {
+  if (!localLlm) {
+    if (isNil(config.localLlm)) {
+      throw new Error(
+        'Local LLM endpoint is not configured. Please set localLlm.baseUrl in your config.'
+      );
+    }
+    localLlm = createOpenAI({
+      baseURL: config.localLlm.baseUrl,
+      // the SDK requires a key even when the server ignores it
+      apiKey: config.localLlm.apiKey ?? 'local'
+    });
+  }
+  return localLlm;
+}
+
 export async function getEmbeddingModel(
   config: ConfigType
 ): Promise<NonNullable<typeof embeddingModel>> {
@@ -3,6 +3,7 @@ import path from 'path';
 import Database from 'libsql';
 import { ContentService } from './contentService.js';
 import { DerivationsService } from './derivationsService.js';
+import { collectGarbage, GcReport } from './gc.js';
 // Import loggers for initialization
 import {
   logDalInitDbDirSuccess,
@@ -203,6 +204,14 @@ export class AppDal {
     });
   }
 
+  /**
+   * Removes rows across both schemas that are unreachable from derivations,
+   * tracked documents and embeddings.
+   */
+  collectGarbage(opts: { dryRun: boolean }): GcReport {
+    return collectGarbage(this.db, opts);
+  }
+
   // Add other cross-domain convenience methods if needed
 }
 
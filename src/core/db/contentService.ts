@@ -8,6 +8,23 @@ import {
   formatHash
 } from '../logger.js';
 
+export interface LlmUsageEntry {
+  modelName: string;
+  promptTokens: number;
+  completionTokens: number;
+  cacheHit: boolean;
+}
+
+export interface LlmUsageLogRow {
+  timestamp: string;
+  derivation_id: string;
+  cache_key: string;
+  model_name: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cache_hit: boolean;
+}
+
 // Interface for Core Prepared Statements
 export interface CorePreparedStatements {
   // Content Cache Operations
@@ -32,6 +49,11 @@ export interface CorePreparedStatements {
   getAllDocumentsWithEmbeddingsStmt: Database.Statement;
   getAllDerivedStepWithEmbeddingsStmt: Database.Statement;
   getAllTokenCountsStmt: Database.Statement;
+
+  // LLM Usage Operations
+  insertLlmUsageLogStmt: Database.Statement;
+  findLatestLlmCallByCacheKeyStmt: Database.Statement;
+  getLlmUsageSinceStmt: Database.Statement;
 }
 
 // --- Core Statement Preparation ---
@@ -97,7 +119,26 @@ function prepareCoreStatements(db: Database.Database): CorePreparedStatements {
       JOIN
         hash_embeddings he ON he.content_hash = sr.output_content_hash
     `),
-    getAllTokenCountsStmt: db.prepare('SELECT prompt_tokens FROM embedding_usage_log')
+    getAllTokenCountsStmt: db.prepare('SELECT prompt_tokens FROM embedding_usage_log'),
+
+    // LLM Usage Operations
+    insertLlmUsageLogStmt: db.prepare(
+      `INSERT INTO llm_usage_log (derivation_id, cache_key, model_name, prompt_tokens, completion_tokens, cache_hit)
+             VALUES (?, ?, ?, ?, ?, ?)`
+    ),
+    findLatestLlmCallByCacheKeyStmt: db.prepare(`
+      SELECT model_name, prompt_tokens, completion_tokens
+      FROM llm_usage_log
+      WHERE cache_key = ? AND cache_hit = 0
+      ORDER BY log_id DESC
+      LIMIT 1
+    `),
+    getLlmUsageSinceStmt: db.prepare(`
+      SELECT timestamp, derivation_id, cache_key, model_name, prompt_tokens, completion_tokens, cache_hit
+      FROM llm_usage_log
+      WHERE timestamp >= ?
+      ORDER BY log_id
+    `)
 
     // Derivation statements removed - belong in DerivationsDal
   };
@@ -107,7 +148,8 @@ function prepareCoreStatements(db: Database.Database): CorePreparedStatements {
 
 /**
  * Encapsulates direct database interactions for core content tables.
- * (content_cache, documents, document_paths, hash_embeddings, embedding_usage_log)
+ * (content_cache, documents, document_paths, hash_embeddings, embedding_usage_log,
+ * llm_usage_log)
  */
 export class ContentService {
   // Keep db private - transactions managed by AppDal
@@ -336,6 +378,60 @@ export class ContentService {
     }
   }
 
+  /** Inserts a record into the LLM usage log. */
+  insertLlmUsageLog(entry: LlmUsageEntry & { derivationId: string; cacheKey: string }): void {
+    try {
+      this.statements.insertLlmUsageLogStmt.run(
+        entry.derivationId,
+        entry.cacheKey,
+        entry.modelName,
+        entry.promptTokens,
+        entry.completionTokens,
+        entry.cacheHit ? 1 : 0
+      );
+    } catch (error) {
+      logDalError(
+        'insertLlmUsageLog',
+        `key: ${formatHash(entry.cacheKey)}, model: ${entry.modelName}`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /** Finds the usage of the most recent real (uncached) LLM call for a cache key. */
+  findLatestLlmCallByCacheKey(cacheKey: string): Omit<LlmUsageEntry, 'cacheHit'> | undefined {
+    try {
+      const row = this.statements.findLatestLlmCallByCacheKeyStmt.get(cacheKey) as
+        | { model_name: string; prompt_tokens: number; completion_tokens: number }
+        | undefined;
+      return row
+        ? {
+            modelName: row.model_name,
+            promptTokens: row.prompt_tokens,
+            completionTokens: row.completion_tokens
+          }
+        : undefined;
+    } catch (error) {
+      logDalError('findLatestLlmCallByCacheKey', `key: ${formatHash(cacheKey)}`, error);
+      throw error;
+    }
+  }
+
+  /** Gets all LLM usage entries logged at or after the given timestamp. */
+  getLlmUsageSince(timestamp: string): LlmUsageLogRow[] {
+    try {
+      const rows = this.statements.getLlmUsageSinceStmt.all(timestamp) as (Omit<
+        LlmUsageLogRow,
+        'cache_hit'
+      > & { cache_hit: number })[];
+      return rows.map((row) => ({ ...row, cache_hit: row.cache_hit === 1 }));
+    } catch (error) {
+      logDalError('getLlmUsageSince', `since: ${timestamp}`, error);
+      throw error;
+    }
+  }
+
   /** Finds a content hash by its document ID. */
   findHashByDocId(docId: string): string | undefined {
     try {
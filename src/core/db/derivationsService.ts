@@ -1,5 +1,6 @@
 import Database from 'libsql';
 import { v4 as uuidv4 } from 'uuid';
+import { isNil } from 'lodash-es';
 import { humanId } from 'human-id';
 import {
   logDalError,
@@ -23,6 +24,29 @@ export interface UserDerivation extends Omit<InternalUserDerivation, 'recipe_par
   recipe_params: StepParams;
 }
 
+interface InternalStepFailure {
+  failure_id: number;
+  cache_key: string | null;
+  step_id: string;
+  derivation_id: string;
+  error_kind: string;
+  error_message: string;
+  input_content_hashes: string | null;
+  failed_at: string;
+  resolved_at: string | null;
+}
+export interface StepResultVariant {
+  cache_key: string;
+  variant_number: number;
+  output_content_hash: string;
+  warnings: OperationWarning[];
+  computed_at: string;
+}
+
+export interface StepFailure extends Omit<InternalStepFailure, 'input_content_hashes'> {
+  input_content_hashes: string[] | null;
+}
+
 interface DerivationsPreparedStatements {
   // Derivations Table
   insertDerivation: Database.Statement;
@@ -37,10 +61,31 @@ interface DerivationsPreparedStatements {
 
   // Global Step Results (cache)
   insertStepResult: Database.Statement;
+  insertStepResultIfNew: Database.Statement;
   insertStepResultLink: Database.Statement;
   findStepResultOutputHash: Database.Statement;
   findStepResultContext: Database.Statement;
   findStepResultByCacheKey: Database.Statement;
+  findStepCacheKey: Database.Statement;
+
+  // Step Result Variants
+  backfillFirstVariant: Database.Statement;
+  insertVariant: Database.Statement;
+  findVariantsByCacheKey: Database.Statement;
+  upsertStepVariantPin: Database.Statement;
+  clearStepVariantPin: Database.Statement;
+  findStepVariantPin: Database.Statement;
+
+  // Step Failures
+  insertStepFailure: Database.Statement;
+  findRecentStepFailures: Database.Statement;
+  findRecentStepFailuresForDerivation: Database.Statement;
+  resolveStepFailures: Database.Statement;
+  findDerivationIdsWithUnresolvedFailures: Database.Statement;
+
+  // Reverse index
+  findDerivationStepParams: Database.Statement;
+  findDerivationInputContentHashes: Database.Statement;
 
   // Step Input Link Tables
   clearStepInputContentLinks: Database.Statement;
@@ -49,6 +94,21 @@ interface DerivationsPreparedStatements {
   insertStepInputStepLink: Database.Statement;
 }
 
+// the variant pinned for the linked step, while it still links the pinned key
+const pinnedVariantJoin = `
+  LEFT JOIN step_variant_pins p ON p.step_id = srl.step_id AND p.cache_key = srl.cache_key
+  LEFT JOIN step_result_variants v
+    ON v.cache_key = p.cache_key AND v.variant_number = p.variant_number`;
+
+const derivationStepsCte = `
+  WITH RECURSIVE derivation_steps(derivation_id, step_id) AS (
+    SELECT derivation_id, final_step_id FROM derivations
+    UNION
+    SELECT ds.derivation_id, sis.providing_step_id
+    FROM derivation_steps ds
+    JOIN step_input_step sis ON sis.consuming_step_id = ds.step_id
+  )`;
+
 function prepareDerivationsStatements(db: Database.Database): DerivationsPreparedStatements {
   logDalPrepareStatementsStart();
   const preparedStatements: DerivationsPreparedStatements = {
@@ -76,7 +136,27 @@ function prepareDerivationsStatements(db: Database.Database): DerivationsPrepare
     getStepStoredParams: db.prepare('SELECT operation_params FROM steps WHERE step_id = ?'),
 
     // Global Step Results (cache)
+    // a recomputation (e.g., reroll) replaces the served result; earlier ones
+    // remain in step_result_variants
     insertStepResult: db.prepare(
+      `INSERT INTO step_results (
+         cache_key,
+         output_content_hash,
+         resolved_pinned_input_hashes,
+         input_content_hashes,
+         warnings,
+         computed_at
+       )
+       VALUES (?, ?, ?, ?, ?, strftime('%Y-%m-%d %H:%M:%f','now'))
+       ON CONFLICT(cache_key) DO UPDATE SET
+         output_content_hash = excluded.output_content_hash,
+         resolved_pinned_input_hashes = excluded.resolved_pinned_input_hashes,
+         input_content_hashes = excluded.input_content_hashes,
+         warnings = excluded.warnings,
+         computed_at = excluded.computed_at`
+    ),
+    // results from elsewhere (e.g. an imported workbook) never replace local ones
+    insertStepResultIfNew: db.prepare(
       `INSERT OR IGNORE INTO step_results (
          cache_key,
          output_content_hash,
@@ -91,19 +171,21 @@ function prepareDerivationsStatements(db: Database.Database): DerivationsPrepare
       'INSERT OR REPLACE INTO step_result_links (step_id, cache_key, dependency_tree) VALUES (?, ?, ?)'
     ),
     findStepResultOutputHash: db.prepare(
-      `SELECT sr.output_content_hash
+      `SELECT COALESCE(v.output_content_hash, sr.output_content_hash) AS output_content_hash
        FROM step_result_links srl
        JOIN step_results sr ON sr.cache_key = srl.cache_key
+       ${pinnedVariantJoin}
        WHERE srl.step_id = ?`
     ),
     findStepResultContext: db.prepare(
-      `SELECT sr.output_content_hash,
+      `SELECT COALESCE(v.output_content_hash, sr.output_content_hash) AS output_content_hash,
               sr.resolved_pinned_input_hashes,
               sr.input_content_hashes,
               srl.dependency_tree,
-              sr.warnings
+              CASE WHEN v.cache_key IS NULL THEN sr.warnings ELSE v.warnings END AS warnings
        FROM step_result_links srl
        JOIN step_results sr ON sr.cache_key = srl.cache_key
+       ${pinnedVariantJoin}
        WHERE srl.step_id = ?`
     ),
     findStepResultByCacheKey: db.prepare(
@@ -114,6 +196,90 @@ function prepareDerivationsStatements(db: Database.Database): DerivationsPrepare
        FROM step_results sr
        WHERE sr.cache_key = ?`
     ),
+    findStepCacheKey: db.prepare('SELECT cache_key FROM step_result_links WHERE step_id = ?'),
+
+    // Step Result Variants
+    // results cached before variants were tracked become variant 1
+    backfillFirstVariant: db.prepare(
+      `INSERT INTO step_result_variants (cache_key, variant_number, output_content_hash, warnings, computed_at)
+       SELECT cache_key, 1, output_content_hash, warnings, computed_at
+       FROM step_results
+       WHERE cache_key = ?
+         AND NOT EXISTS (SELECT 1 FROM step_result_variants WHERE cache_key = ?)`
+    ),
+    insertVariant: db.prepare(
+      `INSERT INTO step_result_variants (cache_key, variant_number, output_content_hash, warnings, computed_at)
+       VALUES (
+         ?,
+         (SELECT COALESCE(MAX(variant_number), 0) + 1 FROM step_result_variants WHERE cache_key = ?),
+         ?,
+         ?,
+         strftime('%Y-%m-%d %H:%M:%f','now')
+       )`
+    ),
+    findVariantsByCacheKey: db.prepare(
+      `SELECT cache_key, variant_number, output_content_hash, warnings, computed_at
+       FROM step_result_variants
+       WHERE cache_key = ?
+       ORDER BY variant_number`
+    ),
+    upsertStepVariantPin: db.prepare(
+      `INSERT INTO step_variant_pins (step_id, cache_key, variant_number)
+       SELECT ?, cache_key, variant_number
+       FROM step_result_variants
+       WHERE cache_key = ? AND variant_number = ?
+       ON CONFLICT(step_id) DO UPDATE SET
+         cache_key = excluded.cache_key,
+         variant_number = excluded.variant_number`
+    ),
+    clearStepVariantPin: db.prepare('DELETE FROM step_variant_pins WHERE step_id = ?'),
+    findStepVariantPin: db.prepare(
+      `SELECT v.variant_number, v.output_content_hash, v.warnings
+       FROM step_variant_pins p
+       JOIN step_result_variants v
+         ON v.cache_key = p.cache_key AND v.variant_number = p.variant_number
+       WHERE p.step_id = ? AND p.cache_key = ?`
+    ),
+
+    // Step Failures
+    insertStepFailure: db.prepare(
+      `INSERT INTO step_failures (
+         cache_key,
+         step_id,
+         derivation_id,
+         error_kind,
+         error_message,
+         input_content_hashes,
+         failed_at
+       )
+       VALUES (?, ?, ?, ?, ?, ?, strftime('%Y-%m-%d %H:%M:%f','now'))`
+    ),
+    findRecentStepFailures: db.prepare(
+      'SELECT * FROM step_failures ORDER BY failed_at DESC, failure_id DESC LIMIT ?'
+    ),
+    findRecentStepFailuresForDerivation: db.prepare(
+      'SELECT * FROM step_failures WHERE derivation_id = ? ORDER BY failed_at DESC, failure_id DESC LIMIT ?'
+    ),
+    resolveStepFailures: db.prepare(
+      `UPDATE step_failures SET resolved_at = strftime('%Y-%m-%d %H:%M:%f','now')
+       WHERE derivation_id = ? AND resolved_at IS NULL`
+    ),
+    findDerivationIdsWithUnresolvedFailures: db.prepare(
+      'SELECT DISTINCT derivation_id FROM step_failures WHERE resolved_at IS NULL'
+    ),
+
+    // Reverse index: every step each derivation runs, found by following
+    // step_input_step from its final step
+    findDerivationStepParams: db.prepare(
+      `${derivationStepsCte}
+       SELECT ds.derivation_id, s.operation_params
+       FROM derivation_steps ds JOIN steps s ON s.step_id = ds.step_id`
+    ),
+    findDerivationInputContentHashes: db.prepare(
+      `${derivationStepsCte}
+       SELECT DISTINCT ds.derivation_id, sic.input_content_hash
+       FROM derivation_steps ds JOIN step_input_content sic ON sic.step_id = ds.step_id`
+    ),
 
     // Step Input Link Tables
     clearStepInputContentLinks: db.prepare('DELETE FROM step_input_content WHERE step_id = ?'),
@@ -129,6 +295,8 @@ function prepareDerivationsStatements(db: Database.Database): DerivationsPrepare
   return preparedStatements;
 }
 
+export const generateDerivationId = (): string => humanId({ separator: '-', capitalize: false });
+
 // --- Derivations Data Access Layer ---
 // This class now manages "Steps" internally, though named DerivationsDal as per user request.
 /**
@@ -145,15 +313,15 @@ export class DerivationsService {
 
   /**
    * Creates a new user-defined derivation record.
-   * The final_step_id is required.
+   * The final_step_id is required. A new ID is generated unless one is given.
    */
   createDerivation(
     recipeParams: StepParams,
     label: string | null,
     finalStepId: string,
-    dslExpression: string
+    dslExpression: string,
+    derivationId: string = generateDerivationId()
   ): string {
-    const derivationId = humanId({ separator: '-', capitalize: false });
     try {
       const recipeParamsString = stableStringify(recipeParams);
       this.statements.insertDerivation.run(
@@ -244,7 +412,7 @@ export class DerivationsService {
 
   /**
    * Defines a new step, including parsing inputs FROM stepParams and managing GC links.
-   * Uses an internal transaction.
+   * Uses an internal transaction, or joins the caller's if one is open.
    * Returns the generated step_id.
    * @param stepParams The StepParams object (not stringified yet).
    */
@@ -255,7 +423,7 @@ export class DerivationsService {
     // Stringify the complete recipe (including inputs) for storage
     const stepParamsString = stableStringify(stepParams);
 
-    const transaction = this.db.transaction(() => {
+    const define = () => {
       try {
         // 1. Insert the main derivation definition (only recipe_params)
         this.statements.insertStep.run(stepId, stepParamsString);
@@ -275,12 +443,20 @@ export class DerivationsService {
             // For derivation, no link is created at definition time.
             // The derivation will be resolved at computation time.
             continue;
-          } else if (item.type === 'pinned_path') {
-            // For pinned_path, no link is created at definition time.
+          } else if (
+            item.type === 'pinned_path' ||
+            item.type === 'file' ||
+            item.type === 'file_glob'
+          ) {
+            // For paths, no link is created at definition time.
             // The path will be resolved at computation time.
             continue;
           } else if (item.type === 'internal_step_link') {
             this.statements.insertStepInputStepLink.run(stepId, item.targetStepId);
+          } else if (item.type === 'param' || item.type === 'map_item') {
+            // For param and map_item, no link is created at definition time.
+            // The value is bound at computation time.
+            continue;
           }
         }
       } catch (error) {
@@ -291,9 +467,14 @@ export class DerivationsService {
         );
         throw error; // Rollback transaction
       }
-    });
+    };
 
-    transaction();
+    // libsql can't nest transactions
+    if (this.db.inTransaction) {
+      define();
+    } else {
+      this.db.transaction(define)();
+    }
     return stepId;
   }
 
@@ -313,6 +494,40 @@ export class DerivationsService {
     }
   }
 
+  /** The params of every step of every derivation, nested steps included */
+  getDerivationStepParams(): { derivationId: string; stepParams: StepParams }[] {
+    try {
+      const rows = this.statements.findDerivationStepParams.all() as {
+        derivation_id: string;
+        operation_params: string;
+      }[];
+      return rows.map((row) => ({
+        derivationId: row.derivation_id,
+        stepParams: StepParamsSchema.parse(JSON.parse(row.operation_params))
+      }));
+    } catch (error) {
+      logDalError('getDerivationStepParams', '', error);
+      throw error;
+    }
+  }
+
+  /** The content hashes each derivation's steps take directly (see step_input_content) */
+  getDerivationInputContentHashes(): { derivationId: string; contentHash: string }[] {
+    try {
+      const rows = this.statements.findDerivationInputContentHashes.all() as {
+        derivation_id: string;
+        input_content_hash: string;
+      }[];
+      return rows.map((row) => ({
+        derivationId: row.derivation_id,
+        contentHash: row.input_content_hash
+      }));
+    } catch (error) {
+      logDalError('getDerivationInputContentHashes', '', error);
+      throw error;
+    }
+  }
+
   findStepResultOutputHash(stepId: string): string | undefined {
     try {
       const row = this.statements.findStepResultOutputHash.get(stepId) as
@@ -406,6 +621,151 @@ export class DerivationsService {
     }
   }
 
+  findStepCacheKey(stepId: string): string | undefined {
+    try {
+      const row = this.statements.findStepCacheKey.get(stepId) as { cache_key: string } | undefined;
+      return row?.cache_key;
+    } catch (error) {
+      logDalError('findStepCacheKey', `stepId: ${stepId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists every result computed for a cache key, oldest first.
+   */
+  getVariantsByCacheKey(cacheKey: string): StepResultVariant[] {
+    try {
+      const rows = this.statements.findVariantsByCacheKey.all(cacheKey) as (Omit<
+        StepResultVariant,
+        'warnings'
+      > & { warnings: string | null })[];
+      return rows.map((row) => ({
+        ...row,
+        // TODO schema validation
+        warnings: row.warnings ? JSON.parse(row.warnings) : []
+      }));
+    } catch (error) {
+      logDalError('getVariantsByCacheKey', `key: ${cacheKey}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Serves the given variant of a cache key for one step from now on, until the
+   * step is recomputed or links another key. Returns false if the variant does
+   * not exist.
+   */
+  pinStepVariant(stepId: string, cacheKey: string, variantNumber: number): boolean {
+    try {
+      this.statements.backfillFirstVariant.run(cacheKey, cacheKey);
+      const info = this.statements.upsertStepVariantPin.run(stepId, cacheKey, variantNumber);
+      return info.changes > 0;
+    } catch (error) {
+      logDalError('pinStepVariant', `stepId: ${stepId}, variant: ${variantNumber}`, error);
+      throw error;
+    }
+  }
+
+  /** The variant pinned for a step, if it was pinned for this cache key */
+  findPinnedVariant(
+    stepId: string,
+    cacheKey: string
+  ):
+    | { variant_number: number; output_content_hash: string; warnings: OperationWarning[] }
+    | undefined {
+    try {
+      const row = this.statements.findStepVariantPin.get(stepId, cacheKey) as
+        | { variant_number: number; output_content_hash: string; warnings: string | null }
+        | undefined;
+      return row
+        ? {
+            ...row,
+            // TODO schema validation
+            warnings: row.warnings ? JSON.parse(row.warnings) : []
+          }
+        : undefined;
+    } catch (error) {
+      logDalError('findPinnedVariant', `stepId: ${stepId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records a failed step execution. Failures are kept apart from step_results
+   * so they are never served as cache hits.
+   */
+  recordStepFailure(failure: {
+    cacheKey: string | null;
+    stepId: string;
+    derivationId: string;
+    errorKind: string;
+    errorMessage: string;
+    inputContentHashes: string[] | null;
+  }): void {
+    try {
+      this.statements.insertStepFailure.run(
+        failure.cacheKey,
+        failure.stepId,
+        failure.derivationId,
+        failure.errorKind,
+        failure.errorMessage,
+        failure.inputContentHashes ? stableStringify(failure.inputContentHashes) : null
+      );
+    } catch (error) {
+      logDalError('recordStepFailure', `stepId: ${failure.stepId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the most recent failures, newest first, optionally restricted to a
+   * single derivation.
+   */
+  getRecentStepFailures(opts: { derivationId?: string; limit: number }): StepFailure[] {
+    try {
+      const rows = (
+        isNil(opts.derivationId)
+          ? this.statements.findRecentStepFailures.all(opts.limit)
+          : this.statements.findRecentStepFailuresForDerivation.all(opts.derivationId, opts.limit)
+      ) as InternalStepFailure[];
+      return rows.map((row) => ({
+        ...row,
+        // TODO schema validation
+        input_content_hashes: row.input_content_hashes
+          ? JSON.parse(row.input_content_hashes)
+          : null
+      }));
+    } catch (error) {
+      logDalError('getRecentStepFailures', `derivationId: ${opts.derivationId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marks all outstanding failures for a derivation as resolved.
+   */
+  resolveStepFailures(derivationId: string): void {
+    try {
+      this.statements.resolveStepFailures.run(derivationId);
+    } catch (error) {
+      logDalError('resolveStepFailures', `derivationId: ${derivationId}`, error);
+      throw error;
+    }
+  }
+
+  getDerivationIdsWithUnresolvedFailures(): string[] {
+    try {
+      const rows = this.statements.findDerivationIdsWithUnresolvedFailures.all() as {
+        derivation_id: string;
+      }[];
+      return rows.map((row) => row.derivation_id);
+    } catch (error) {
+      logDalError('getDerivationIdsWithUnresolvedFailures', '', error);
+      throw error;
+    }
+  }
+
   linkStepToCache(stepId: string, cacheKey: string, dependencyTree: DependencyTree): void {
     const stringifiedDependencyTree = dependencyTree ? stableStringify(dependencyTree) : null;
     try {
@@ -416,6 +776,32 @@ export class DerivationsService {
     }
   }
 
+  /**
+   * Stores a result computed elsewhere under its cache key, unless one is
+   * already cached for the key. It becomes the key's first variant.
+   */
+  insertStepResultIfNew(result: {
+    cacheKey: string;
+    outputContentHash: string;
+    resolvedPinnedInputHashes: Record<string, { type: 'content'; hash: string }> | null;
+    inputContentHashes: string[];
+    warnings: OperationWarning[];
+  }): void {
+    try {
+      this.statements.insertStepResultIfNew.run(
+        result.cacheKey,
+        result.outputContentHash,
+        result.resolvedPinnedInputHashes ? stableStringify(result.resolvedPinnedInputHashes) : null,
+        stableStringify(result.inputContentHashes),
+        stableStringify(result.warnings)
+      );
+      this.statements.backfillFirstVariant.run(result.cacheKey, result.cacheKey);
+    } catch (error) {
+      logDalError('insertStepResultIfNew', `key: ${result.cacheKey}`, error);
+      throw error;
+    }
+  }
+
   /**
    * Saves the result of a computed derivation step.
    * Designed to be called within a transaction managed by AppDal.
@@ -441,6 +827,8 @@ export class DerivationsService {
 
     try {
       // FIXME transaction
+      this.statements.backfillFirstVariant.run(cacheKey, cacheKey);
+      this.statements.insertVariant.run(cacheKey, cacheKey, outputContentHash, stringifiedWarnings);
       this.statements.insertStepResult.run(
         cacheKey,
         outputContentHash,
@@ -450,6 +838,8 @@ export class DerivationsService {
       );
 
       this.statements.insertStepResultLink.run(stepId, cacheKey, stringifiedDependencyTree);
+      // a recomputed step serves its new result
+      this.statements.clearStepVariantPin.run(stepId);
     } catch (error) {
       logDalError('saveStepResult', `stepId: ${stepId}`, error);
       throw error;
@@ -31,6 +31,18 @@ CREATE TABLE IF NOT EXISTS step_results (
 -- Index useful for GC or introspection: find results that produced a given output hash
 CREATE INDEX IF NOT EXISTS idx_step_results_output ON step_results(output_content_hash);
 
+-- Every result ever computed for a cache key, numbered in computation order.
+-- step_results holds the variant currently served for the key, unless a step
+-- pins another (see step_variant_pins).
+CREATE TABLE IF NOT EXISTS step_result_variants (
+    cache_key TEXT NOT NULL,             -- Cache key the variant was computed for
+    variant_number INTEGER NOT NULL,     -- 1-based, increasing with each computation (e.g., rerolls)
+    output_content_hash TEXT NOT NULL,   -- Hash of the output content (present in content_cache)
+    warnings TEXT,                       -- JSON string of OperationWarning[] produced during computation (nullable)
+    computed_at DATETIME DEFAULT (strftime('%Y-%m-%d %H:%M:%f','now')),
+    PRIMARY KEY (cache_key, variant_number)
+);
+
 -- Bridge table linking a step_id (from the user recipe graph) to the shared cache row.
 CREATE TABLE IF NOT EXISTS step_result_links (
     step_id TEXT PRIMARY KEY,
@@ -41,6 +53,31 @@ CREATE TABLE IF NOT EXISTS step_result_links (
 );
 CREATE INDEX IF NOT EXISTS idx_srl_cache_key ON step_result_links(cache_key);
 
+-- The variant a step serves in place of its cache key's current result. Pins
+-- belong to a step, as other steps may share the cache key, and only apply
+-- while the step still links the cache key they were made for.
+CREATE TABLE IF NOT EXISTS step_variant_pins (
+    step_id TEXT PRIMARY KEY,
+    cache_key TEXT NOT NULL,             -- Cache key the pinned variant was computed for
+    variant_number INTEGER NOT NULL,     -- Variant served for the step (see step_result_variants)
+    FOREIGN KEY (step_id) REFERENCES steps(step_id) ON DELETE CASCADE
+);
+
+-- Failed step executions, kept for inspection only. Never consulted as cache entries.
+CREATE TABLE IF NOT EXISTS step_failures (
+    failure_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    cache_key TEXT,                      -- Cache key the result would have been stored under. NULL if the step failed before its inputs resolved.
+    step_id TEXT NOT NULL,               -- The step that failed
+    derivation_id TEXT NOT NULL,         -- The derivation being computed when the step failed
+    error_kind TEXT NOT NULL,            -- ReadErrorInfo kind (e.g., 'operation_result_error')
+    error_message TEXT NOT NULL,         -- ReadErrorInfo message (e.g., '#OP_FAIL! ...')
+    input_content_hashes TEXT,           -- JSON string of input content hashes at failure time. NULL if unresolved.
+    failed_at DATETIME DEFAULT (strftime('%Y-%m-%d %H:%M:%f','now')),
+    resolved_at DATETIME                 -- Set once the derivation next computes successfully
+);
+CREATE INDEX IF NOT EXISTS idx_step_failures_cache_key ON step_failures(cache_key);
+CREATE INDEX IF NOT EXISTS idx_step_failures_derivation ON step_failures(derivation_id, failed_at);
+
 
 -- Schema for linking Steps to the raw content hashes they depend on directly
 -- (Formerly derivation_input_content)
@@ -0,0 +1,162 @@
+import { describe, it, beforeEach, expect, assert } from 'vitest';
+import { AppDal, createMockAppDal } from './app_dal.js';
+import { createMockQueue } from '../limiting/rateLimitQueue.js';
+import { createMockRateLimitManager } from '../limiting/modelRateLimitManager.js';
+import { RateLimiter } from '../limiting';
+import { EmbeddingInputData, EmbeddingOutput } from '../types.js';
+import { getOrComputeDerivedContent as _getOrComputeDerivedContent } from '../derivationEngine/read.js';
+import { createDerivation, deleteDerivation } from '../derivationEngine/write.js';
+import { hash } from '../utils.js';
+import { ExternalStepParams } from './types.js';
+
+describe('Garbage collection', () => {
+  let appDal: AppDal;
+  let limiter: RateLimiter;
+
+  const getOrComputeDerivedContent = (derivationId: string) =>
+    _getOrComputeDerivedContent(
+      appDal,
+      derivationId,
+      limiter,
+      {
+        openaiApiKey: 'test',
+        openRouterApiKey: 'test',
+        databasePath: 'test',
+        watchedDirectory: 'test',
+        embeddingRpmLimit: 1000,
+        skipEmbedding: false,
+        debug: false,
+        theme: 'system' as const
+      },
+      { operationOptions: { environment: 'test' } }
+    );
+
+  const concatOf = (...values: string[]): ExternalStepParams => ({
+    operation: 'concat',
+    inputs: values.map((value) => ({ type: 'constant', value }))
+  });
+
+  beforeEach(async () => {
+    appDal = await createMockAppDal();
+    limiter = createMockRateLimitManager(
+      createMockQueue<EmbeddingInputData, EmbeddingOutput>(async () => ({
+        embedding: 'test',
+        usage: { promptTokens: 1 },
+        modelName: 'test'
+      }))
+    );
+  });
+
+  it('should find nothing to collect when everything is reachable', async () => {
+    const derivationId = createDerivation(
+      appDal,
+      { label: null, recipeParams: concatOf('a', 'b') },
+      'concat("a", "b")'
+    );
+    await getOrComputeDerivedContent(derivationId);
+
+    const report = appDal.collectGarbage({ dryRun: true });
+    expect(Object.values(report.unreachableRows).every((count) => count === 0)).toBe(true);
+    expect(report.unreachableContentBytes).toBe(0);
+  });
+
+  it('should remove rows of deleted derivations and keep the rest cached', async () => {
+    const keptId = createDerivation(
+      appDal,
+      {
+        label: null,
+        recipeParams: {
+          operation: 'identity',
+          inputs: [{ type: 'computed_step', step: concatOf('kept ', 'value') }]
+        }
+      },
+      'identity(concat("kept ", "value"))'
+    );
+    const deletedId = createDerivation(
+      appDal,
+      { label: null, recipeParams: concatOf('deleted ', 'forever') },
+      'concat("deleted ", "forever")'
+    );
+    const keptResult = await getOrComputeDerivedContent(keptId);
+    assert(keptResult.success);
+    const deletedResult = await getOrComputeDerivedContent(deletedId);
+    assert(deletedResult.success);
+    deleteDerivation(appDal, deletedId);
+
+    const deletedOutputHash = deletedResult.executionTree.contentHash;
+
+    const preview = appDal.collectGarbage({ dryRun: true });
+    expect(preview.unreachableRows).toMatchObject({
+      steps: 1,
+      step_result_links: 1,
+      step_results: 1,
+      step_result_variants: 1
+    });
+    // both constants; the output is embedded, so it is kept
+    expect(preview.unreachableRows.content_cache).toBe(2);
+    expect(appDal.core.findContentByHash(hash('deleted '))).toBe('deleted ');
+
+    const report = appDal.collectGarbage({ dryRun: false });
+    expect(report.unreachableRows).toEqual(preview.unreachableRows);
+    expect(appDal.core.findContentByHash(hash('deleted '))).toBeUndefined();
+    expect(appDal.core.findEmbedding(deletedOutputHash)).toBeDefined();
+    expect(appDal.core.findContentByHash(deletedOutputHash)).toBe(deletedResult.output);
+    expect(appDal.collectGarbage({ dryRun: true }).unreachableRows.content_cache).toBe(0);
+
+    const reread = await getOrComputeDerivedContent(keptId);
+    assert(reread.success);
+    expect(reread.output).toBe(keptResult.output);
+    expect(reread.executionTree.cacheStatus).toBe('cached');
+  });
+
+  it('should keep the result of every map element', async () => {
+    const derivationId = createDerivation(
+      appDal,
+      {
+        label: null,
+        recipeParams: {
+          operation: 'map',
+          inputs: [
+            {
+              type: 'computed_step',
+              step: {
+                operation: 'split',
+                inputs: [
+                  { type: 'constant', value: 'a,b,c' },
+                  { type: 'constant', value: ',' }
+                ]
+              }
+            },
+            {
+              type: 'computed_step',
+              step: {
+                operation: 'concat',
+                inputs: [{ type: 'map_item' }, { type: 'constant', value: '!' }]
+              }
+            }
+          ]
+        }
+      },
+      'split("a,b,c", ",") |> map(concat("!"))'
+    );
+    await getOrComputeDerivedContent(derivationId);
+
+    const report = appDal.collectGarbage({ dryRun: false });
+    expect(report.unreachableRows.step_results).toBe(0);
+
+    const reread = await getOrComputeDerivedContent(derivationId);
+    assert(reread.success);
+    expect(
+      reread.executionTree.dependencies.map((dep) => 'cacheStatus' in dep && dep.cacheStatus)
+    ).toEqual(['cached', 'cached', 'cached', 'cached']);
+  });
+
+  it('should keep content of tracked documents', async () => {
+    const content = 'document content';
+    appDal.upsertDocumentAndPath('/test/path', hash(content), content);
+
+    appDal.collectGarbage({ dryRun: false });
+
+    expect(appDal.core.findContentByHash(hash(content))).toBe(content);
+  });
+});
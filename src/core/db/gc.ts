@@ -0,0 +1,184 @@
+import Database from 'libsql';
+import { logDalError } from '../logger.js';
+
+export const gcTables = [
+  'steps',
+  'step_input_content',
+  'step_input_step',
+  'step_result_links',
+  'step_variant_pins',
+  'step_results',
+  'step_result_variants',
+  'step_failures',
+  'content_cache'
+] as const;
+export type GcTable = (typeof gcTables)[number];
+
+export interface GcReport {
+  dryRun: boolean;
+  // Unreachable rows per table (removed unless dryRun)
+  unreachableRows: Record<GcTable, number>;
+  // Total length of unreachable content_cache entries
+  unreachableContentBytes: number;
+  databaseBytesBefore: number;
+  databaseBytesAfter: number;
+}
+
+// Reachability is materialized into temp tables so that counting and deleting
+// see the same snapshot.
+const markReachableSql = `
+DROP TABLE IF EXISTS temp.gc_steps;
+DROP TABLE IF EXISTS temp.gc_cache_keys;
+DROP TABLE IF EXISTS temp.gc_content;
+CREATE TEMP TABLE gc_steps (step_id TEXT PRIMARY KEY);
+CREATE TEMP TABLE gc_cache_keys (cache_key TEXT PRIMARY KEY);
+CREATE TEMP TABLE gc_content (content_hash TEXT PRIMARY KEY);
+
+-- Steps: everything reachable from a derivation's final step, following
+-- step_input_step through idx_sis_consuming_id. Derivation references are
+-- resolved at compute time and every derivation is a root.
+INSERT OR IGNORE INTO gc_steps
+WITH RECURSIVE reachable(step_id) AS (
+  SELECT final_step_id FROM derivations WHERE final_step_id IS NOT NULL
+  UNION
+  SELECT sis.providing_step_id
+  FROM reachable r
+  JOIN step_input_step sis INDEXED BY idx_sis_consuming_id ON sis.consuming_step_id = r.step_id
+)
+SELECT step_id FROM reachable;
+
+-- Cached results linked to a reachable step
+INSERT OR IGNORE INTO gc_cache_keys
+SELECT srl.cache_key FROM gc_steps g JOIN step_result_links srl ON srl.step_id = g.step_id;
+
+-- A step only links its latest result, so results of map elements and bound
+-- formula instances are kept through the dependency trees that refer to them
+INSERT OR IGNORE INTO gc_cache_keys
+SELECT sr.cache_key
+FROM gc_steps g
+JOIN step_result_links srl ON srl.step_id = g.step_id
+JOIN json_tree(srl.dependency_tree) j ON j.key = 'contentHash'
+JOIN step_results sr INDEXED BY idx_step_results_output ON sr.output_content_hash = j.value
+WHERE srl.dependency_tree IS NOT NULL;
+
+-- Content: tracked documents, embedded content, reachable step outputs
+-- (including every variant) and inputs, and every hash a reachable dependency
+-- tree refers to (so traces stay readable). Content taken directly by a step is
+-- found through idx_sic_content_hash when sweeping.
+INSERT OR IGNORE INTO gc_content SELECT content_hash FROM documents;
+INSERT OR IGNORE INTO gc_content SELECT content_hash FROM hash_embeddings;
+INSERT OR IGNORE INTO gc_content
+SELECT sr.output_content_hash FROM gc_cache_keys k JOIN step_results sr ON sr.cache_key = k.cache_key;
+INSERT OR IGNORE INTO gc_content
+SELECT v.output_content_hash
+FROM gc_cache_keys k JOIN step_result_variants v ON v.cache_key = k.cache_key;
+INSERT OR IGNORE INTO gc_content
+SELECT j.value
+FROM gc_cache_keys k
+JOIN step_results sr ON sr.cache_key = k.cache_key
+JOIN json_each(sr.input_content_hashes) j;
+INSERT OR IGNORE INTO gc_content
+SELECT j.value
+FROM gc_steps g
+JOIN step_result_links srl ON srl.step_id = g.step_id
+JOIN json_tree(srl.dependency_tree) j ON j.key = 'contentHash'
+WHERE srl.dependency_tree IS NOT NULL;
+`;
+
+const dropReachableSql = `
+DROP TABLE IF EXISTS temp.gc_steps;
+DROP TABLE IF EXISTS temp.gc_cache_keys;
+DROP TABLE IF EXISTS temp.gc_content;
+`;
+
+const _isReachableStep = (column: string) =>
+  `EXISTS (SELECT 1 FROM gc_steps g WHERE g.step_id = ${column})`;
+
+// hash_embeddings is never swept: embedded content is a root
+const unreachableWhere: Record<GcTable, string> = {
+  steps: `NOT ${_isReachableStep('steps.step_id')}`,
+  step_input_content: `NOT ${_isReachableStep('step_input_content.step_id')}`,
+  step_input_step: `NOT ${_isReachableStep('step_input_step.consuming_step_id')}`,
+  step_result_links: `NOT ${_isReachableStep('step_result_links.step_id')}`,
+  step_variant_pins: `NOT ${_isReachableStep('step_variant_pins.step_id')}`,
+  step_results:
+    'NOT EXISTS (SELECT 1 FROM gc_cache_keys k WHERE k.cache_key = step_results.cache_key)',
+  step_result_variants:
+    'NOT EXISTS (SELECT 1 FROM gc_cache_keys k WHERE k.cache_key = step_result_variants.cache_key)',
+  step_failures:
+    'NOT EXISTS (SELECT 1 FROM derivations d WHERE d.derivation_id = step_failures.derivation_id)',
+  content_cache: `NOT EXISTS (SELECT 1 FROM gc_content c WHERE c.content_hash = content_cache.content_hash)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM step_input_content sic INDEXED BY idx_sic_content_hash
+      JOIN gc_steps g ON g.step_id = sic.step_id
+      WHERE sic.input_content_hash = content_cache.content_hash
+    )`
+};
+
+const getDatabaseBytes = (db: Database.Database): number => {
+  const { page_count } = db.prepare('PRAGMA page_count').get() as { page_count: number };
+  const { page_size } = db.prepare('PRAGMA page_size').get() as { page_size: number };
+  return page_count * page_size;
+};
+
+/**
+ * Removes steps, cached results and content that are no longer reachable from
+ * any derivation, tracked document or embedding. With dryRun, only reports what would be
+ * removed.
+ */
+export function collectGarbage(db: Database.Database, opts: { dryRun: boolean }): GcReport {
+  const databaseBytesBefore = getDatabaseBytes(db);
+
+  try {
+    // one write transaction, so rows written by other connections (the server,
+    // the watcher) between marking and sweeping are never counted unreachable
+    const { unreachableRows, unreachableContentBytes } = db
+      .transaction(() => {
+        db.exec(markReachableSql);
+
+        const unreachableRows = Object.fromEntries(
+          gcTables.map((table) => [
+            table,
+            (
+              db
+                .prepare(`SELECT COUNT(*) AS count FROM ${table} WHERE ${unreachableWhere[table]}`)
+                .get() as { count: number }
+            ).count
+          ])
+        ) as Record<GcTable, number>;
+        const { bytes: unreachableContentBytes } = db
+          .prepare(
+            `SELECT COALESCE(SUM(length(CAST(content AS BLOB))), 0) AS bytes FROM content_cache WHERE ${unreachableWhere.content_cache}`
+          )
+          .get() as { bytes: number };
+
+        if (!opts.dryRun) {
+          for (const table of gcTables) {
+            db.prepare(`DELETE FROM ${table} WHERE ${unreachableWhere[table]}`).run();
+          }
+        }
+
+        return { unreachableRows, unreachableContentBytes };
+      })
+      .immediate();
+
+    db.exec(dropReachableSql);
+
+    if (!opts.dryRun) {
+      // return freed pages to the filesystem
+      db.exec('VACUUM');
+    }
+
+    return {
+      dryRun: opts.dryRun,
+      unreachableRows,
+      unreachableContentBytes,
+      databaseBytesBefore,
+      databaseBytesAfter: opts.dryRun ? databaseBytesBefore : getDatabaseBytes(db)
+    };
+  } catch (error) {
+    logDalError('collectGarbage', `dryRun: ${opts.dryRun}`, error);
+    throw error;
+  }
+}
@@ -44,3 +44,18 @@ CREATE TABLE IF NOT EXISTS embedding_usage_log (
 
 -- Optional: Index on usage log hash
 -- CREATE INDEX IF NOT EXISTS idx_embedding_usage_log_hash ON embedding_usage_log (content_hash);
+
+-- Schema for logging LLM usage per step computation. Cache hits are logged with
+-- the tokens of the call that produced the cached result, i.e. tokens saved.
+CREATE TABLE IF NOT EXISTS llm_usage_log (
+    log_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp DATETIME DEFAULT (strftime('%Y-%m-%d %H:%M:%f','now')),
+    derivation_id TEXT NOT NULL,       -- Derivation being computed
+    cache_key TEXT NOT NULL,           -- Cache key of the step that called the model
+    model_name TEXT NOT NULL,          -- Model alias (e.g., 'openai/gpt-5')
+    prompt_tokens INTEGER NOT NULL,
+    completion_tokens INTEGER NOT NULL,
+    cache_hit INTEGER NOT NULL DEFAULT 0 -- 1 if served from cache (no call was made)
+);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_log_cache_key ON llm_usage_log (cache_key);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_log_timestamp ON llm_usage_log (timestamp);
@@ -1,23 +1,53 @@
 import { z } from 'zod/v4';
-import { llmModels, getAlias } from '@lang-data/models.js';
 
 export const assertNever = (value: never): never => value;
 
+// `params` binds the referenced formula's parameters; each binding is its own
+// instance of the formula and caches separately
+const DerivationInputSchema = z.object({
+  type: z.literal('derivation'),
+  id: z.string(),
+  params: z.record(z.string(), z.string()).optional()
+});
+
+// A named parameter of the formula, filled in by whatever references it
+const ParamInputSchema = z.object({
+  type: z.literal('param'),
+  name: z.string().min(1),
+  default: z.string().optional()
+});
+
+// The element a map() body is applied to
+const MapItemInputSchema = z.object({ type: z.literal('map_item') });
+
+// A file in the watched directory, hashed from disk whenever it's read
+const FileInputSchema = z.object({ type: z.literal('file'), path: z.string().min(1) });
+// The files in the watched directory matching a glob pattern, read like `file`
+const FileGlobInputSchema = z.object({ type: z.literal('file_glob'), pattern: z.string().min(1) });
+
 export const InputDescriptorItemSchema = z.discriminatedUnion('type', [
   z.object({ type: z.literal('content'), hash: z.string() }),
-  z.object({ type: z.literal('derivation'), id: z.string() }),
+  DerivationInputSchema,
   z.object({ type: z.literal('pinned_path'), path: z.string() }),
   z.object({ type: z.literal('internal_step_link'), targetStepId: z.string() }),
-  z.object({ type: z.literal('constant'), value: z.string() })
+  z.object({ type: z.literal('constant'), value: z.string() }),
+  ParamInputSchema,
+  MapItemInputSchema,
+  FileInputSchema,
+  FileGlobInputSchema
 ]);
 
 export type InputDescriptorItem = z.infer<typeof InputDescriptorItemSchema>;
 
 const ExternalInputPrimitivesSchema = z.discriminatedUnion('type', [
   z.object({ type: z.literal('content'), hash: z.string() }),
-  z.object({ type: z.literal('derivation'), id: z.string() }),
+  DerivationInputSchema,
   z.object({ type: z.literal('pinned_path'), path: z.string() }),
-  z.object({ type: z.literal('constant'), value: z.string() })
+  z.object({ type: z.literal('constant'), value: z.string() }),
+  ParamInputSchema,
+  MapItemInputSchema,
+  FileInputSchema,
+  FileGlobInputSchema
 ]);
 type ExternalInputPrimitives = z.infer<typeof ExternalInputPrimitivesSchema>;
 
@@ -40,17 +70,40 @@ const BaseDerivationParamsSchema = z.object({
   }
 });
 
-const modelAliases = llmModels.map((m) => getAlias(m));
-const LlmModelSchema = z.enum(modelAliases);
+// the model registry depends on config, so any "<provider>/<name>" alias is
+// accepted here; the parser checks the model is known
+const LlmModelSchema = z.templateLiteral([z.string().min(1), '/', z.string().min(1)]);
 export type LlmModel = z.infer<typeof LlmModelSchema>;
 
+// sampling settings for model calls; unset ones are left to the provider
+const LlmSamplingParamsShape = {
+  temperature: z.number().min(0).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  topP: z.number().gt(0).max(1).optional(),
+  seed: z.number().int().optional(),
+  stop: z.array(z.string().min(1)).min(1).optional()
+};
+const LlmSamplingParamsSchema = z.object(LlmSamplingParamsShape);
+export type LlmSamplingParams = z.infer<typeof LlmSamplingParamsSchema>;
+export const llmSamplingParamKeys = LlmSamplingParamsSchema.keyof().options;
+
+// what an llm step does with input beyond the model's context window:
+// truncate-head drops its start, truncate-tail its end, error fails the step and
+// map-reduce summarizes it chunk by chunk. Unset behaves like truncate-head
+const OverflowStrategySchema = z.enum(['truncate-head', 'truncate-tail', 'error', 'map-reduce']);
+export type OverflowStrategy = z.infer<typeof OverflowStrategySchema>;
+// a conversation isn't summarized in chunks
+const ChatOverflowStrategySchema = OverflowStrategySchema.exclude(['map-reduce']);
+
 const LlmDerivationParamsSchema = BaseDerivationParamsSchema.extend({
   operation: z.literal('llm'),
   get inputs() {
     return InputDescriptorItemSchema.array().length(1);
   },
   prompt: z.string(),
-  model: LlmModelSchema
+  model: LlmModelSchema,
+  overflow: OverflowStrategySchema.optional(),
+  ...LlmSamplingParamsShape
 });
 
 export type LlmDerivationParams = z.infer<typeof LlmDerivationParamsSchema>;
@@ -91,12 +144,244 @@ const GetUrlContentDerivationParamsSchema = BaseDerivationParamsSchema.extend({
 
 export type GetUrlContentDerivationParams = z.infer<typeof GetUrlContentDerivationParamsSchema>;
 
+const SplitDerivationParamsSchema = BaseDerivationParamsSchema.extend({
+  operation: z.literal('split'),
+  // text, separator
+  get inputs() {
+    return InputDescriptorItemSchema.array().length(2);
+  }
+});
+
+export type SplitDerivationParams = z.infer<typeof SplitDerivationParamsSchema>;
+
+const MapDerivationParamsSchema = BaseDerivationParamsSchema.extend({
+  operation: z.literal('map'),
+  // list, link to the step applied to each element
+  get inputs() {
+    return InputDescriptorItemSchema.array().length(2);
+  }
+});
+
+export type MapDerivationParams = z.infer<typeof MapDerivationParamsSchema>;
+
+const JoinDerivationParamsSchema = BaseDerivationParamsSchema.extend({
+  operation: z.literal('join'),
+  // list, optional separator
+  get inputs() {
+    return InputDescriptorItemSchema.array().min(1).max(2);
+  }
+});
+
+export type JoinDerivationParams = z.infer<typeof JoinDerivationParamsSchema>;
+
+const ReplaceDerivationParamsSchema = BaseDerivationParamsSchema.extend({
+  operation: z.literal('replace'),
+  get inputs() {
+    return InputDescriptorItemSchema.array().length(1);
+  },
+  // a regular expression; every match is replaced
+  pattern: z.string(),
+  // may refer to groups as $1, $2, ...; matches are removed when omitted
+  with: z.string().optional()
+});
+
+export type ReplaceDerivationParams = z.infer<typeof ReplaceDerivationParamsSchema>;
+
+const ExtractDerivationParamsSchema = BaseDerivationParamsSchema.extend({
+  operation: z.literal('extract'),
+  get inputs() {
+    return InputDescriptorItemSchema.array().length(1);
+  },
+  regex: z.string(),
+  // 0 (the default) is the whole match
+  group: z.number().int().min(0).optional()
+});
+
+export type ExtractDerivationParams = z.infer<typeof ExtractDerivationParamsSchema>;
+
+// 1-based and inclusive, negative numbers count back from the last line
+const LineNumberSchema = z
+  .number()
+  .int()
+  .refine((line) => line !== 0, { message: 'Line numbers start at 1 (or -1 for the last line)' });
+
+const LinesDerivationParamsSchema = BaseDerivationParamsSchema.extend({
+  operation: z.literal('lines'),
+  get inputs() {
+    return InputDescriptorItemSchema.array().length(1);
+  },
+  from: LineNumberSchema.optional(),
+  to: LineNumberSchema.optional()
+});
+
+export type LinesDerivationParams = z.infer<typeof LinesDerivationParamsSchema>;
+
+const TrimDerivationParamsSchema = BaseDerivationParamsSchema.extend({
+  operation: z.literal('trim'),
+  get inputs() {
+    return InputDescriptorItemSchema.array().length(1);
+  }
+});
+
+export type TrimDerivationParams = z.infer<typeof TrimDerivationParamsSchema>;
+
+const UpperDerivationParamsSchema = BaseDerivationParamsSchema.extend({
+  operation: z.literal('upper'),
+  get inputs() {
+    return InputDescriptorItemSchema.array().length(1);
+  }
+});
+
+export type UpperDerivationParams = z.infer<typeof UpperDerivationParamsSchema>;
+
+const LowerDerivationParamsSchema = BaseDerivationParamsSchema.extend({
+  operation: z.literal('lower'),
+  get inputs() {
+    return InputDescriptorItemSchema.array().length(1);
+  }
+});
+
+export type LowerDerivationParams = z.infer<typeof LowerDerivationParamsSchema>;
+
+const TemplateDerivationParamsSchema = BaseDerivationParamsSchema.extend({
+  operation: z.literal('template'),
+  // template, then the values for {0}, {1}, ...
+  get inputs() {
+    return InputDescriptorItemSchema.array().min(1);
+  }
+});
+
+export type TemplateDerivationParams = z.infer<typeof TemplateDerivationParamsSchema>;
+
+const JsonDerivationParamsSchema = BaseDerivationParamsSchema.extend({
+  operation: z.literal('json'),
+  get inputs() {
+    return InputDescriptorItemSchema.array().length(1);
+  },
+  // a JSONPath of keys and indexes, e.g. $.items[0].title; the whole document when omitted
+  path: z.string().optional()
+});
+
+export type JsonDerivationParams = z.infer<typeof JsonDerivationParamsSchema>;
+
+const LlmJsonDerivationParamsSchema = BaseDerivationParamsSchema.extend({
+  operation: z.literal('llmJson'),
+  // input, JSON Schema the output must match
+  get inputs() {
+    return InputDescriptorItemSchema.array().length(2);
+  },
+  prompt: z.string(),
+  model: LlmModelSchema,
+  overflow: OverflowStrategySchema.optional(),
+  ...LlmSamplingParamsShape
+});
+
+export type LlmJsonDerivationParams = z.infer<typeof LlmJsonDerivationParamsSchema>;
+
+const IfDerivationParamsSchema = BaseDerivationParamsSchema.extend({
+  operation: z.literal('if'),
+  // condition, then, optional else. Only the branch taken is read
+  get inputs() {
+    return InputDescriptorItemSchema.array().min(2).max(3);
+  }
+});
+
+export type IfDerivationParams = z.infer<typeof IfDerivationParamsSchema>;
+
+// every case has a branch input, optionally followed by the default
+const hasBranchPerCase = (params: { inputs: unknown[]; cases: string[] }) =>
+  [1, 2].includes(params.inputs.length - params.cases.length);
+const branchPerCaseIssue = {
+  message: 'switch() takes the value, a branch for each case and an optional default',
+  path: ['inputs']
+};
+
+const SwitchDerivationParamsSchema = BaseDerivationParamsSchema.extend({
+  operation: z.literal('switch'),
+  // value, a branch per case, optional default. Only the branch taken is read
+  get inputs() {
+    return InputDescriptorItemSchema.array().min(2);
+  },
+  cases: z.array(z.string().min(1)).min(1)
+}).refine(hasBranchPerCase, branchPerCaseIssue);
+
+export type SwitchDerivationParams = z.infer<typeof SwitchDerivationParamsSchema>;
+
+const ChatRoleSchema = z.enum(['user', 'assistant']);
+export type ChatRole = z.infer<typeof ChatRoleSchema>;
+
+// every message input has the role of whoever sent it
+const hasRolePerMessage = (params: { inputs: unknown[]; roles: ChatRole[] }) =>
+  params.inputs.length === params.roles.length;
+const rolePerMessageIssue = {
+  message: 'chat() takes a role for each message',
+  path: ['roles']
+};
+
+const ChatDerivationParamsSchema = BaseDerivationParamsSchema.extend({
+  operation: z.literal('chat'),
+  // the messages, in conversation order
+  get inputs() {
+    return InputDescriptorItemSchema.array().min(1);
+  },
+  roles: z.array(ChatRoleSchema),
+  system: z.string().optional(),
+  model: LlmModelSchema,
+  overflow: ChatOverflowStrategySchema.optional(),
+  ...LlmSamplingParamsShape
+}).refine(hasRolePerMessage, rolePerMessageIssue);
+
+export type ChatDerivationParams = z.infer<typeof ChatDerivationParamsSchema>;
+
+// readFile and glob read straight from disk, so their input must be a literal path
+const takesInputOfType = (type: 'file' | 'file_glob') => (params: { inputs: { type: string }[] }) =>
+  params.inputs[0]?.type === type;
+const fileInputIssue = (operation: string) => ({
+  message: `${operation}() takes a \`path\` literal`,
+  path: ['inputs']
+});
+
+const ReadFileDerivationParamsSchema = BaseDerivationParamsSchema.extend({
+  operation: z.literal('readFile'),
+  get inputs() {
+    return InputDescriptorItemSchema.array().length(1);
+  }
+}).refine(takesInputOfType('file'), fileInputIssue('readFile'));
+
+export type ReadFileDerivationParams = z.infer<typeof ReadFileDerivationParamsSchema>;
+
+const GlobDerivationParamsSchema = BaseDerivationParamsSchema.extend({
+  operation: z.literal('glob'),
+  get inputs() {
+    return InputDescriptorItemSchema.array().length(1);
+  }
+}).refine(takesInputOfType('file_glob'), fileInputIssue('glob'));
+
+export type GlobDerivationParams = z.infer<typeof GlobDerivationParamsSchema>;
+
 export const StepParamsSchema = z.discriminatedUnion('operation', [
   LlmDerivationParamsSchema,
   IdentityDerivationParamsSchema,
   TestConstantDerivationParamsSchema,
   ConcatDerivationParamsSchema,
-  GetUrlContentDerivationParamsSchema
+  GetUrlContentDerivationParamsSchema,
+  SplitDerivationParamsSchema,
+  MapDerivationParamsSchema,
+  JoinDerivationParamsSchema,
+  ReplaceDerivationParamsSchema,
+  ExtractDerivationParamsSchema,
+  LinesDerivationParamsSchema,
+  TrimDerivationParamsSchema,
+  UpperDerivationParamsSchema,
+  LowerDerivationParamsSchema,
+  TemplateDerivationParamsSchema,
+  JsonDerivationParamsSchema,
+  LlmJsonDerivationParamsSchema,
+  IfDerivationParamsSchema,
+  SwitchDerivationParamsSchema,
+  ChatDerivationParamsSchema,
+  ReadFileDerivationParamsSchema,
+  GlobDerivationParamsSchema
 ]);
 export type StepParams = z.infer<typeof StepParamsSchema>;
 
@@ -117,7 +402,9 @@ const ExternalLlmDerivationParamsSchema = ExternalBaseDerivationParamsSchema.ext
     return ExternalInputDescriptorItemSchema.array().length(1);
   },
   prompt: z.string(),
-  model: LlmModelSchema
+  model: LlmModelSchema,
+  overflow: OverflowStrategySchema.optional(),
+  ...LlmSamplingParamsShape
 });
 
 const ExternalIdentityDerivationParamsSchema = ExternalBaseDerivationParamsSchema.extend({
@@ -148,16 +435,180 @@ const ExternalGetUrlContentDerivationParamsSchema = ExternalBaseDerivationParams
   }
 });
 
+const ExternalSplitDerivationParamsSchema = ExternalBaseDerivationParamsSchema.extend({
+  operation: z.literal('split'),
+  get inputs(): z.ZodArray<z.ZodType<ExternalInputDescriptorItem>> {
+    return ExternalInputDescriptorItemSchema.array().length(2);
+  }
+});
+
+const ExternalMapDerivationParamsSchema = ExternalBaseDerivationParamsSchema.extend({
+  operation: z.literal('map'),
+  get inputs(): z.ZodArray<z.ZodType<ExternalInputDescriptorItem>> {
+    return ExternalInputDescriptorItemSchema.array().length(2);
+  }
+});
+
+const ExternalJoinDerivationParamsSchema = ExternalBaseDerivationParamsSchema.extend({
+  operation: z.literal('join'),
+  get inputs(): z.ZodArray<z.ZodType<ExternalInputDescriptorItem>> {
+    return ExternalInputDescriptorItemSchema.array().min(1).max(2);
+  }
+});
+
+const ExternalReplaceDerivationParamsSchema = ExternalBaseDerivationParamsSchema.extend({
+  operation: z.literal('replace'),
+  get inputs(): z.ZodArray<z.ZodType<ExternalInputDescriptorItem>> {
+    return ExternalInputDescriptorItemSchema.array().length(1);
+  },
+  pattern: z.string(),
+  with: z.string().optional()
+});
+
+const ExternalExtractDerivationParamsSchema = ExternalBaseDerivationParamsSchema.extend({
+  operation: z.literal('extract'),
+  get inputs(): z.ZodArray<z.ZodType<ExternalInputDescriptorItem>> {
+    return ExternalInputDescriptorItemSchema.array().length(1);
+  },
+  regex: z.string(),
+  group: z.number().int().min(0).optional()
+});
+
+const ExternalLinesDerivationParamsSchema = ExternalBaseDerivationParamsSchema.extend({
+  operation: z.literal('lines'),
+  get inputs(): z.ZodArray<z.ZodType<ExternalInputDescriptorItem>> {
+    return ExternalInputDescriptorItemSchema.array().length(1);
+  },
+  from: LineNumberSchema.optional(),
+  to: LineNumberSchema.optional()
+});
+
+const ExternalTrimDerivationParamsSchema = ExternalBaseDerivationParamsSchema.extend({
+  operation: z.literal('trim'),
+  get inputs(): z.ZodArray<z.ZodType<ExternalInputDescriptorItem>> {
+    return ExternalInputDescriptorItemSchema.array().length(1);
+  }
+});
+
+const ExternalUpperDerivationParamsSchema = ExternalBaseDerivationParamsSchema.extend({
+  operation: z.literal('upper'),
+  get inputs(): z.ZodArray<z.ZodType<ExternalInputDescriptorItem>> {
+    return ExternalInputDescriptorItemSchema.array().length(1);
+  }
+});
+
+const ExternalLowerDerivationParamsSchema = ExternalBaseDerivationParamsSchema.extend({
+  operation: z.literal('lower'),
+  get inputs(): z.ZodArray<z.ZodType<ExternalInputDescriptorItem>> {
+    return ExternalInputDescriptorItemSchema.array().length(1);
+  }
+});
+
+const ExternalTemplateDerivationParamsSchema = ExternalBaseDerivationParamsSchema.extend({
+  operation: z.literal('template'),
+  get inputs(): z.ZodArray<z.ZodType<ExternalInputDescriptorItem>> {
+    return ExternalInputDescriptorItemSchema.array().min(1);
+  }
+});
+
+const ExternalJsonDerivationParamsSchema = ExternalBaseDerivationParamsSchema.extend({
+  operation: z.literal('json'),
+  get inputs(): z.ZodArray<z.ZodType<ExternalInputDescriptorItem>> {
+    return ExternalInputDescriptorItemSchema.array().length(1);
+  },
+  path: z.string().optional()
+});
+
+const ExternalLlmJsonDerivationParamsSchema = ExternalBaseDerivationParamsSchema.extend({
+  operation: z.literal('llmJson'),
+  get inputs(): z.ZodArray<z.ZodType<ExternalInputDescriptorItem>> {
+    return ExternalInputDescriptorItemSchema.array().length(2);
+  },
+  prompt: z.string(),
+  model: LlmModelSchema,
+  overflow: OverflowStrategySchema.optional(),
+  ...LlmSamplingParamsShape
+});
+
+const ExternalIfDerivationParamsSchema = ExternalBaseDerivationParamsSchema.extend({
+  operation: z.literal('if'),
+  get inputs(): z.ZodArray<z.ZodType<ExternalInputDescriptorItem>> {
+    return ExternalInputDescriptorItemSchema.array().min(2).max(3);
+  }
+});
+
+const ExternalSwitchDerivationParamsSchema = ExternalBaseDerivationParamsSchema.extend({
+  operation: z.literal('switch'),
+  get inputs(): z.ZodArray<z.ZodType<ExternalInputDescriptorItem>> {
+    return ExternalInputDescriptorItemSchema.array().min(2);
+  },
+  cases: z.array(z.string().min(1)).min(1)
+}).refine(hasBranchPerCase, branchPerCaseIssue);
+
+const ExternalChatDerivationParamsSchema = ExternalBaseDerivationParamsSchema.extend({
+  operation: z.literal('chat'),
+  get inputs(): z.ZodArray<z.ZodType<ExternalInputDescriptorItem>> {
+    return ExternalInputDescriptorItemSchema.array().min(1);
+  },
+  roles: z.array(ChatRoleSchema),
+  system: z.string().optional(),
+  model: LlmModelSchema,
+  overflow: ChatOverflowStrategySchema.optional(),
+  ...LlmSamplingParamsShape
+}).refine(hasRolePerMessage, rolePerMessageIssue);
+
+const ExternalReadFileDerivationParamsSchema = ExternalBaseDerivationParamsSchema.extend({
+  operation: z.literal('readFile'),
+  get inputs(): z.ZodArray<z.ZodType<ExternalInputDescriptorItem>> {
+    return ExternalInputDescriptorItemSchema.array().length(1);
+  }
+}).refine(takesInputOfType('file'), fileInputIssue('readFile'));
+
+const ExternalGlobDerivationParamsSchema = ExternalBaseDerivationParamsSchema.extend({
+  operation: z.literal('glob'),
+  get inputs(): z.ZodArray<z.ZodType<ExternalInputDescriptorItem>> {
+    return ExternalInputDescriptorItemSchema.array().length(1);
+  }
+}).refine(takesInputOfType('file_glob'), fileInputIssue('glob'));
+
 // TODO define internal and external in a way to standardize the union
 export const ExternalStepParamsSchema = z.discriminatedUnion('operation', [
   ExternalLlmDerivationParamsSchema,
   ExternalIdentityDerivationParamsSchema,
   ExternalTestConstantDerivationParamsSchema,
   ExternalConcatDerivationParamsSchema,
-  ExternalGetUrlContentDerivationParamsSchema
+  ExternalGetUrlContentDerivationParamsSchema,
+  ExternalSplitDerivationParamsSchema,
+  ExternalMapDerivationParamsSchema,
+  ExternalJoinDerivationParamsSchema,
+  ExternalReplaceDerivationParamsSchema,
+  ExternalExtractDerivationParamsSchema,
+  ExternalLinesDerivationParamsSchema,
+  ExternalTrimDerivationParamsSchema,
+  ExternalUpperDerivationParamsSchema,
+  ExternalLowerDerivationParamsSchema,
+  ExternalTemplateDerivationParamsSchema,
+  ExternalJsonDerivationParamsSchema,
+  ExternalLlmJsonDerivationParamsSchema,
+  ExternalIfDerivationParamsSchema,
+  ExternalSwitchDerivationParamsSchema,
+  ExternalChatDerivationParamsSchema,
+  ExternalReadFileDerivationParamsSchema,
+  ExternalGlobDerivationParamsSchema
 ]);
 export type ExternalStepParams = z.infer<typeof ExternalStepParamsSchema>;
 
+/** Steps that call a model: llm, llmJson and chat */
+export const isLlmStep = <P extends StepParams | ExternalStepParams>(
+  params: P
+): params is Extract<P, { operation: 'llm' | 'llmJson' | 'chat' }> =>
+  params.operation === 'llm' || params.operation === 'llmJson' || params.operation === 'chat';
+
+/** llm and llmJson take the system prompt as `prompt`, chat as an optional `system` */
+export const getSystemPrompt = (
+  params: Extract<StepParams | ExternalStepParams, { operation: 'llm' | 'llmJson' | 'chat' }>
+): string => (params.operation === 'chat' ? (params.system ?? '') : params.prompt);
+
 export type ExternalDerivationParams = {
   recipeParams: ExternalStepParams;
   label: string | null;
@@ -165,8 +616,10 @@ export type ExternalDerivationParams = {
 
 export type OperationWarning = {
   type: 'inputTooLarge';
-  inputContentLength: number;
-  contextWindowLimit: number;
+  inputTokens: number;
+  inputTokenLimit: number;
+  // how the input was made to fit
+  strategy: Exclude<OverflowStrategy, 'error'>;
 };
 
 export type CacheStatus = 'computed' | 'cached' | 'seed';
@@ -174,7 +627,7 @@ export type CacheStatus = 'computed' | 'cached' | 'seed';
 // TODO consider an extended shape mirroring StepParams
 export type DependencyTree = (
   | {
-      type: 'content' | 'pinned_path' | 'constant';
+      type: 'content' | 'pinned_path' | 'constant' | 'file' | 'file_glob';
       contentHash: string;
     }
   | {
@@ -184,15 +637,50 @@ export type DependencyTree = (
       contentHash: string;
       warnings: OperationWarning[];
       operation: StepParams['operation'];
+      branch?: string;
     }
 )[];
 
+// For trees and warnings read back from outside the database, e.g. workbooks
+export const OperationWarningSchema: z.ZodType<OperationWarning> = z.object({
+  type: z.literal('inputTooLarge'),
+  inputTokens: z.number(),
+  inputTokenLimit: z.number(),
+  strategy: OverflowStrategySchema.exclude(['error'])
+});
+
+const StepOperationSchema = z.enum(
+  StepParamsSchema.options.map((option) => option.shape.operation.value)
+);
+
+export const DependencyTreeSchema: z.ZodType<DependencyTree> = z.array(
+  z.union([
+    z.object({
+      type: z.enum(['content', 'pinned_path', 'constant', 'file', 'file_glob']),
+      contentHash: z.string()
+    }),
+    z.object({
+      type: z.enum(['derivation', 'computed_step']),
+      cacheStatus: z.enum(['computed', 'cached', 'seed']),
+      get dependencies() {
+        return DependencyTreeSchema;
+      },
+      contentHash: z.string(),
+      warnings: z.array(OperationWarningSchema),
+      operation: StepOperationSchema,
+      branch: z.string().optional()
+    })
+  ])
+);
+
 export type ExecutionTree = {
   operation: StepParams['operation'];
   cacheStatus: CacheStatus;
   dependencies: DependencyTree;
   warnings: OperationWarning[];
   contentHash: string;
+  // for if and switch, the branch that was read: then, else, a case or default
+  branch?: string;
   // SCC metadata (present when this derivation was evaluated as part of an SCC)
   sccMetadata?: {
     sccId: string;
@@ -217,6 +705,14 @@ export const normalizeStepParamsForSort = (recipeParams: StepParams): StepParams
           return { type: 'content', hash: '<hash>' };
         case 'constant':
           return { type: 'constant', value: '<const>' };
+        case 'param':
+          return { type: 'param', name: '<param>' };
+        case 'file':
+          return { type: 'file', path: '<path>' };
+        case 'file_glob':
+          return { type: 'file_glob', pattern: '<pattern>' };
+        case 'map_item':
+          return item;
         default:
           return assertNever(item);
       }
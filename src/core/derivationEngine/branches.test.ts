@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { isTruthy, selectBranch } from './branches.js';
+
+describe('isTruthy', () => {
+  it('treats empty text, false, no and 0 as false', () => {
+    expect(['', ' ', 'False\n', 'NO', '0'].map(isTruthy)).toEqual([
+      false,
+      false,
+      false,
+      false,
+      false
+    ]);
+    expect(['yes', 'true', '1', 'no way'].map(isTruthy)).toEqual([true, true, true, true]);
+  });
+});
+
+describe('selectBranch', () => {
+  const branch = { type: 'constant' as const, value: 'branch' };
+
+  it('picks then or else, without an input for a missing else', () => {
+    const ifParams = { operation: 'if' as const, inputs: [branch, branch] };
+    expect(selectBranch(ifParams, 'yes')).toEqual({ success: true, branch: 'then', inputIndex: 1 });
+    expect(selectBranch(ifParams, 'no')).toEqual({
+      success: true,
+      branch: 'else',
+      inputIndex: undefined
+    });
+  });
+
+  it('matches switch cases ignoring case and whitespace, then falls back to default', () => {
+    const switchParams = {
+      operation: 'switch' as const,
+      inputs: [branch, branch, branch, branch],
+      cases: ['bug', 'Question']
+    };
+    expect(selectBranch(switchParams, ' question\n')).toEqual({
+      success: true,
+      branch: 'Question',
+      inputIndex: 2
+    });
+    expect(selectBranch(switchParams, 'praise')).toEqual({
+      success: true,
+      branch: 'default',
+      inputIndex: 3
+    });
+    expect(selectBranch({ ...switchParams, inputs: [branch, branch, branch] }, 'praise')).toEqual({
+      success: false,
+      value: 'praise'
+    });
+  });
+});
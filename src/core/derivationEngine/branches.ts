@@ -0,0 +1,38 @@
+import { IfDerivationParams, SwitchDerivationParams } from '../db/types.js';
+
+// conditions are usually model answers, so only these (ignoring case and
+// surrounding whitespace) count as false
+const falseValues = ['', 'false', 'no', '0'];
+
+export const isTruthy = (condition: string): boolean =>
+  !falseValues.includes(condition.trim().toLowerCase());
+
+const _matchesCase = (value: string, name: string) =>
+  value.trim().toLowerCase() === name.toLowerCase();
+
+/**
+ * Picks the branch to read from the condition or switch value. `inputIndex` is
+ * undefined when the branch taken has no input (an if without an else).
+ */
+export const selectBranch = (
+  recipeParams: IfDerivationParams | SwitchDerivationParams,
+  value: string
+):
+  | { success: true; branch: string; inputIndex: number | undefined }
+  | { success: false; value: string } => {
+  if (recipeParams.operation === 'if') {
+    return isTruthy(value)
+      ? { success: true, branch: 'then', inputIndex: 1 }
+      : { success: true, branch: 'else', inputIndex: recipeParams.inputs[2] ? 2 : undefined };
+  }
+
+  const { cases, inputs } = recipeParams;
+  const caseIndex = cases.findIndex((name) => _matchesCase(value, name));
+  if (caseIndex !== -1) {
+    return { success: true, branch: cases[caseIndex]!, inputIndex: caseIndex + 1 };
+  }
+  const defaultIndex = cases.length + 1;
+  return defaultIndex < inputs.length
+    ? { success: true, branch: 'default', inputIndex: defaultIndex }
+    : { success: false, value };
+};
@@ -0,0 +1,281 @@
+import { describe, it, beforeEach, expect, assert } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { AppDal, createMockAppDal } from '../db/app_dal.js';
+import { createMockQueue } from '../limiting/rateLimitQueue.js';
+import { createMockRateLimitManager } from '../limiting/modelRateLimitManager.js';
+import { RateLimiter } from '../limiting';
+import { EmbeddingInputData, EmbeddingOutput } from '../types.js';
+import { getOrComputeDerivedContent as _getOrComputeDerivedContent } from './read.js';
+import { createDerivation } from './write.js';
+import { checkReadBudget, estimateReadCost, ReadEstimate } from './budget.js';
+import { ESTIMATED_COMPLETION_TOKENS } from './constants.js';
+import { hash } from '../utils.js';
+import { setConfigModels } from '@lang-data/models.js';
+
+describe('Read budget', () => {
+  let appDal: AppDal;
+  let limiter: RateLimiter;
+
+  const config = {
+    openaiApiKey: 'test',
+    openRouterApiKey: 'test',
+    databasePath: 'test',
+    watchedDirectory: 'test',
+    embeddingRpmLimit: 1000,
+    skipEmbedding: false,
+    debug: false,
+    theme: 'system' as const
+  };
+
+  const getOrComputeDerivedContent = (derivationId: string) =>
+    _getOrComputeDerivedContent(appDal, derivationId, limiter, config, {
+      operationOptions: { environment: 'test' }
+    });
+
+  const estimate = async (derivationId: string, opts?: { skipCache?: boolean }) => {
+    const result = await estimateReadCost(appDal, derivationId, opts);
+    assert(result.success);
+    return result.estimate;
+  };
+
+  beforeEach(async () => {
+    appDal = await createMockAppDal();
+    limiter = createMockRateLimitManager(
+      createMockQueue<EmbeddingInputData, EmbeddingOutput>(async () => ({
+        embedding: 'test',
+        usage: { promptTokens: 1 },
+        modelName: 'test'
+      }))
+    );
+  });
+
+  // a summary of a pinned document, and a summary of that summary
+  const createChain = (documentContent: string) => {
+    appDal.upsertDocumentAndPath('/notes.md', hash(documentContent), documentContent);
+    const summaryId = createDerivation(
+      appDal,
+      {
+        label: null,
+        recipeParams: {
+          operation: 'llm',
+          model: 'openai/gpt-5',
+          prompt: 'summarize',
+          inputs: [{ type: 'pinned_path', path: '/notes.md' }]
+        }
+      },
+      'llm(`/notes.md`, prompt="summarize", model="openai/gpt-5")'
+    );
+    const shorterId = createDerivation(
+      appDal,
+      {
+        label: null,
+        recipeParams: {
+          operation: 'llm',
+          model: 'openai/gpt-5',
+          prompt: 'shorten',
+          inputs: [{ type: 'derivation', id: summaryId }]
+        }
+      },
+      `llm($${summaryId}, prompt="shorten", model="openai/gpt-5")`
+    );
+    return { summaryId, shorterId };
+  };
+
+  it('should count every uncached llm step in the chain', async () => {
+    const { summaryId, shorterId } = createChain('a'.repeat(400));
+
+    const result = await estimate(shorterId);
+
+    expect(result.llmCalls).toEqual([
+      expect.objectContaining({ derivationId: summaryId, promptTokens: 100 + 3 }),
+      // the summary is not computed yet, so its length is assumed
+      expect.objectContaining({
+        derivationId: shorterId,
+        promptTokens: ESTIMATED_COMPLETION_TOKENS + 2
+      })
+    ]);
+    expect(result.completionTokens).toBe(2 * ESTIMATED_COMPLETION_TOKENS);
+    expect(result.cost).toBeGreaterThan(0);
+    expect(result.unpricedCalls).toBe(0);
+  });
+
+  it('should not count cached steps unless the cache is skipped', async () => {
+    const { summaryId, shorterId } = createChain('notes');
+    await getOrComputeDerivedContent(summaryId);
+
+    expect((await estimate(summaryId)).llmCalls).toEqual([]);
+    expect((await estimate(shorterId)).llmCalls).toEqual([
+      expect.objectContaining({ derivationId: shorterId })
+    ]);
+    expect((await estimate(shorterId, { skipCache: true })).llmCalls).toHaveLength(2);
+  });
+
+  it('should count steps whose pinned input changed since the last read', async () => {
+    const { summaryId } = createChain('notes');
+    await getOrComputeDerivedContent(summaryId);
+
+    const edited = 'edited notes';
+    appDal.upsertDocumentAndPath('/notes.md', hash(edited), edited);
+
+    expect((await estimate(summaryId)).llmCalls).toHaveLength(1);
+  });
+
+  it('should count a call per chunk for map-reduce steps', async () => {
+    setConfigModels([{ provider: 'openrouter', modelId: 'test/small', contextWindow: 2000 }]);
+    try {
+      const input = 'a'.repeat(12_000);
+      appDal.core.insertContentIfNew(hash(input), input);
+      const derivationId = createDerivation(
+        appDal,
+        {
+          label: null,
+          recipeParams: {
+            operation: 'llm',
+            model: 'openrouter/test/small',
+            prompt: 'summarize',
+            overflow: 'map-reduce',
+            inputs: [{ type: 'content', hash: hash(input) }]
+          }
+        },
+        `llm(#${hash(input)}, prompt="summarize", model="openrouter/test/small", overflow="map-reduce")`
+      );
+
+      const result = await estimate(derivationId);
+
+      // four chunk summaries, then the call over the summaries
+      expect(result.llmCalls).toHaveLength(5);
+      expect(result.llmCalls.every((call) => call.derivationId === derivationId)).toBe(true);
+      expect(result.promptTokens).toBeGreaterThan(3000);
+      expect(result.llmCalls.at(-1)?.completionTokens).toBe(ESTIMATED_COMPLETION_TOKENS);
+    } finally {
+      setConfigModels([]);
+    }
+  });
+
+  it('should fail for unknown formulas', async () => {
+    await expect(estimateReadCost(appDal, 'not the id')).resolves.toMatchObject({
+      success: false,
+      error: { kind: 'formula_not_found' }
+    });
+  });
+
+  it('should refuse reads over a cap unless they are confirmed', async () => {
+    const { summaryId, shorterId } = createChain('notes');
+    const capped = { ...config, maxReadCostUsd: 0 };
+    const read = (confirmOverBudget?: boolean) =>
+      _getOrComputeDerivedContent(appDal, shorterId, limiter, capped, {
+        operationOptions: { environment: 'test' },
+        confirmOverBudget
+      });
+
+    await expect(read()).resolves.toMatchObject({
+      success: false,
+      error: { kind: 'over_budget' }
+    });
+    expect((await estimate(summaryId)).llmCalls).toHaveLength(1);
+
+    await expect(read(true)).resolves.toMatchObject({ success: true });
+    // cached reads spend nothing
+    await expect(read()).resolves.toMatchObject({ success: true });
+  });
+
+  it('should not refuse cached reads over files', async () => {
+    const watchedDirectory = await mkdtemp(path.join(tmpdir(), 'slantwise-budget-'));
+    try {
+      await writeFile(path.join(watchedDirectory, 'notes.md'), 'notes');
+      const summaryId = createDerivation(
+        appDal,
+        {
+          label: null,
+          recipeParams: {
+            operation: 'llm',
+            model: 'openai/gpt-5',
+            prompt: 'summarize',
+            inputs: [
+              {
+                type: 'computed_step',
+                step: { operation: 'readFile', inputs: [{ type: 'file', path: 'notes.md' }] }
+              }
+            ]
+          }
+        },
+        'readFile(`notes.md`) |> llm(prompt="summarize", model="openai/gpt-5")'
+      );
+      const capped = { ...config, watchedDirectory, maxReadCostUsd: 0 };
+      const read = (confirmOverBudget?: boolean) =>
+        _getOrComputeDerivedContent(appDal, summaryId, limiter, capped, {
+          operationOptions: { environment: 'test' },
+          confirmOverBudget
+        });
+
+      await expect(read()).resolves.toMatchObject({ error: { kind: 'over_budget' } });
+      await expect(read(true)).resolves.toMatchObject({ success: true });
+      await expect(read()).resolves.toMatchObject({ success: true });
+
+      // the edited file is counted, so the read is refused again
+      await writeFile(path.join(watchedDirectory, 'notes.md'), 'a'.repeat(400));
+      const result = await estimateReadCost(appDal, summaryId, { watchedDirectory });
+      assert(result.success);
+      expect(result.estimate.llmCalls).toEqual([
+        expect.objectContaining({ derivationId: summaryId, promptTokens: 100 + 3 })
+      ]);
+      await expect(read()).resolves.toMatchObject({ error: { kind: 'over_budget' } });
+    } finally {
+      await rm(watchedDirectory, { recursive: true, force: true });
+    }
+  });
+
+  describe('checkReadBudget', () => {
+    const readEstimate: ReadEstimate = {
+      llmCalls: [
+        {
+          derivationId: 'some formula',
+          model: 'openai/gpt-5',
+          promptTokens: 1000,
+          completionTokens: 1000,
+          cost: 0.5
+        }
+      ],
+      promptTokens: 1000,
+      completionTokens: 1000,
+      cost: 0.5,
+      unpricedCalls: 0
+    };
+
+    it('should pass without caps', () => {
+      expect(checkReadBudget(appDal, config, readEstimate)).toEqual({ withinBudget: true });
+    });
+
+    it('should flag reads over the per-read cap', () => {
+      expect(checkReadBudget(appDal, { ...config, maxReadCostUsd: 0.1 }, readEstimate)).toEqual({
+        withinBudget: false,
+        exceeded: [expect.objectContaining({ cap: 'perRead', limit: 0.1, projected: 0.5 })]
+      });
+      expect(checkReadBudget(appDal, { ...config, maxReadCostUsd: 1 }, readEstimate)).toEqual({
+        withinBudget: true
+      });
+    });
+
+    it("should include today's spend in the daily cap", () => {
+      const dailyCapped = { ...config, maxDailyCostUsd: 1 };
+      expect(checkReadBudget(appDal, dailyCapped, readEstimate).withinBudget).toBe(true);
+
+      // $1.25 for a million input tokens
+      appDal.core.insertLlmUsageLog({
+        derivationId: 'some formula',
+        cacheKey: 'some key',
+        modelName: 'openai/gpt-5',
+        promptTokens: 1_000_000,
+        completionTokens: 0,
+        cacheHit: false
+      });
+
+      const result = checkReadBudget(appDal, dailyCapped, readEstimate);
+      assert(!result.withinBudget);
+      expect(result.exceeded).toEqual([expect.objectContaining({ cap: 'perDay', limit: 1 })]);
+      expect(result.exceeded[0]!.projected).toBeCloseTo(1.75);
+    });
+  });
+});
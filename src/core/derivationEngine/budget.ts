@@ -0,0 +1,205 @@
+import { isNil, range, sumBy } from 'lodash-es';
+import { AppDal } from '../db/app_dal.js';
+import { getSystemPrompt, isLlmStep, LlmModel } from '../db/types.js';
+import type { ConfigType } from '@config/types.js';
+import { getLlmCost } from '@lang-data/pricing.js';
+import { getInputTokenLimit } from './llms/models.js';
+import { getReadErrorInfo, ReadErrorInfo } from './errors.js';
+import { estimateTokens, getReadPlan } from './readPlan.js';
+import { summarizeLlmUsage } from './usage.js';
+import { ESTIMATED_COMPLETION_TOKENS, MIN_CHUNK_SUMMARY_TOKENS } from './constants.js';
+import { chunkSummaryPrompt } from './operations.js';
+
+export type EstimatedLlmCall = {
+  derivationId: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // undefined for models without a known price
+  cost: number | undefined;
+};
+
+export type ReadEstimate = {
+  llmCalls: EstimatedLlmCall[];
+  promptTokens: number;
+  completionTokens: number;
+  // cost of calls to priced models only
+  cost: number;
+  unpricedCalls: number;
+};
+
+export type BudgetCheck =
+  | { withinBudget: true }
+  | {
+      withinBudget: false;
+      exceeded: { cap: 'perRead' | 'perDay'; limit: number; projected: number; message: string }[];
+    };
+
+type EstimatedTokens = Pick<EstimatedLlmCall, 'promptTokens' | 'completionTokens'>;
+
+/**
+ * The calls a map-reduce step makes: a summary of each chunk of input over the
+ * limit, in rounds until the summaries fit, then the step's own call. Follows
+ * the operation's chunking with estimated token counts.
+ */
+const _estimateMapReduceCalls = (
+  model: LlmModel,
+  systemPrompt: string,
+  inputTokens: number
+): EstimatedTokens[] => {
+  const systemTokens = estimateTokens(systemPrompt);
+  const limit = Math.max(getInputTokenLimit(model) - systemTokens, 1);
+  const summaryPromptTokens = estimateTokens(chunkSummaryPrompt(systemPrompt));
+  const chunkLimit = Math.max(getInputTokenLimit(model) - summaryPromptTokens, 1);
+
+  const calls: EstimatedTokens[] = [];
+  let tokens = inputTokens;
+  while (tokens > limit) {
+    const chunkCount = Math.ceil(tokens / chunkLimit);
+    const share = Math.max(Math.floor(limit / chunkCount), MIN_CHUNK_SUMMARY_TOKENS);
+    const maxTokens = Math.max(Math.min(share, Math.floor(chunkLimit / 2)), 1);
+    for (const chunk of range(chunkCount)) {
+      calls.push({
+        promptTokens: summaryPromptTokens + Math.min(chunkLimit, tokens - chunk * chunkLimit),
+        completionTokens: maxTokens
+      });
+    }
+    const summarizedTokens = chunkCount * maxTokens;
+    if (summarizedTokens >= tokens) break;
+    tokens = summarizedTokens;
+  }
+  calls.push({
+    promptTokens: systemTokens + Math.min(tokens, limit),
+    completionTokens: ESTIMATED_COMPLETION_TOKENS
+  });
+  return calls;
+};
+
+/**
+ * Estimates the llm calls a read would make, before anything runs. Input sizes
+ * are approximated from content length and every uncached llm output is
+ * assumed to be ESTIMATED_COMPLETION_TOKENS long. Map-reduce steps count a call
+ * per chunk summary as well. Files are only read, and steps over them found in
+ * the cache, when `opts.watchedDirectory` is given. Formulas in a cycle are
+ * counted once, although evaluating the cycle may call them repeatedly.
+ */
+export async function estimateReadCost(
+  appDal: AppDal,
+  derivationId: string,
+  opts?: { skipCache?: boolean; watchedDirectory?: string }
+): Promise<{ success: true; estimate: ReadEstimate } | { success: false; error: ReadErrorInfo }> {
+  const planResult = await getReadPlan(appDal, derivationId, opts);
+  if (!planResult.success) {
+    return planResult;
+  }
+
+  const llmCalls = planResult.plan.steps.flatMap((step): EstimatedLlmCall[] => {
+    if (step.status !== 'compute' || !isLlmStep(step.recipeParams)) {
+      return [];
+    }
+    const { model, overflow } = step.recipeParams;
+    const systemPrompt = getSystemPrompt(step.recipeParams);
+    // llm input beyond the context window is truncated, unless map-reduce reads all of it
+    const calls =
+      overflow === 'map-reduce'
+        ? _estimateMapReduceCalls(model, systemPrompt, step.inputTokens)
+        : [
+            {
+              promptTokens:
+                estimateTokens(systemPrompt) +
+                Math.min(step.inputTokens, getInputTokenLimit(model)),
+              completionTokens: ESTIMATED_COMPLETION_TOKENS
+            }
+          ];
+    return calls.map(({ promptTokens, completionTokens }) => ({
+      derivationId: step.derivationId,
+      model,
+      promptTokens,
+      completionTokens,
+      cost: getLlmCost(model, promptTokens, completionTokens)
+    }));
+  });
+
+  return {
+    success: true,
+    estimate: {
+      llmCalls,
+      promptTokens: sumBy(llmCalls, (call) => call.promptTokens),
+      completionTokens: sumBy(llmCalls, (call) => call.completionTokens),
+      cost: sumBy(llmCalls, (call) => call.cost ?? 0),
+      unpricedCalls: llmCalls.filter((call) => isNil(call.cost)).length
+    }
+  };
+}
+
+const _startOfUtcDay = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+/**
+ * Compares an estimate with the configured spending caps. The daily cap
+ * includes what was already spent today (UTC).
+ */
+export function checkReadBudget(
+  appDal: AppDal,
+  config: ConfigType,
+  estimate: ReadEstimate
+): BudgetCheck {
+  const exceeded: (BudgetCheck & { withinBudget: false })['exceeded'] = [];
+
+  if (!isNil(config.maxReadCostUsd) && estimate.cost > config.maxReadCostUsd) {
+    exceeded.push({
+      cap: 'perRead',
+      limit: config.maxReadCostUsd,
+      projected: estimate.cost,
+      message: `Estimated cost $${estimate.cost.toFixed(4)} exceeds the per-read cap of $${config.maxReadCostUsd}.`
+    });
+  }
+
+  if (!isNil(config.maxDailyCostUsd) && estimate.llmCalls.length > 0) {
+    const spentToday = summarizeLlmUsage(appDal, { since: _startOfUtcDay(new Date()) }).total.cost;
+    const projected = spentToday + estimate.cost;
+    if (projected > config.maxDailyCostUsd) {
+      exceeded.push({
+        cap: 'perDay',
+        limit: config.maxDailyCostUsd,
+        projected,
+        message: `Spent $${spentToday.toFixed(4)} today; this read would bring it to $${projected.toFixed(4)}, over the daily cap of $${config.maxDailyCostUsd}.`
+      });
+    }
+  }
+
+  return exceeded.length === 0 ? { withinBudget: true } : { withinBudget: false, exceeded };
+}
+
+/**
+ * Checks a read against the configured spending caps before it runs, returning
+ * the error to fail it with when it would exceed one. Reads whose cost can't be
+ * estimated are let through to report their own error.
+ */
+export async function findOverBudgetError(
+  appDal: AppDal,
+  config: ConfigType,
+  derivationId: string,
+  opts?: { skipCache?: boolean; watchedDirectory?: string }
+): Promise<ReadErrorInfo | undefined> {
+  if (isNil(config.maxReadCostUsd) && isNil(config.maxDailyCostUsd)) {
+    return undefined;
+  }
+
+  const estimateResult = await estimateReadCost(appDal, derivationId, opts);
+  if (!estimateResult.success) {
+    return undefined;
+  }
+
+  const { estimate } = estimateResult;
+  const budget = checkReadBudget(appDal, config, estimate);
+  if (budget.withinBudget) {
+    return undefined;
+  }
+
+  const summary = [
+    `This read would make ${estimate.llmCalls.length} LLM calls (~${estimate.promptTokens} input tokens, est. $${estimate.cost.toFixed(4)}).`,
+    ...budget.exceeded.map(({ message }) => message)
+  ].join(' ');
+  return getReadErrorInfo('overBudget', { summary });
+}
@@ -4,10 +4,17 @@ import { isNil } from 'lodash-es';
 
 export const findEquivalentResult = async (
   appDal: AppDal,
-  cacheKey: string
+  cacheKey: string,
+  stepId: string
 ): Promise<
   { cache: 'hit'; outputHash: string; warnings: OperationWarning[] } | { cache: 'miss' }
 > => {
+  // A variant pinned for this step takes precedence over the shared result
+  const pinned = appDal.derivations.findPinnedVariant(stepId, cacheKey);
+  if (!isNil(pinned)) {
+    return { cache: 'hit', outputHash: pinned.output_content_hash, warnings: pinned.warnings };
+  }
+
   // Global step check using cache_key (operationSlice + input hashes). This
   // includes duplicate steps
   const resultContext = appDal.derivations.findCacheRowByKey(cacheKey);
@@ -29,7 +36,8 @@ export const applyCacheHit = (
   cacheKey: string,
   cachedOutput: string | undefined,
   equivalenceResult: { outputHash: string; warnings: OperationWarning[] },
-  cachedDependencyTree: DependencyTree
+  cachedDependencyTree: DependencyTree,
+  branch?: string
 ): { success: true; output: string; executionTree: ExecutionTree } | undefined => {
   try {
     appDal.derivations.linkStepToCache(stepId, cacheKey, cachedDependencyTree);
@@ -49,7 +57,8 @@ export const applyCacheHit = (
         // step)
         dependencies: cachedDependencyTree,
         contentHash: equivalenceResult.outputHash,
-        warnings: equivalenceResult.warnings
+        warnings: equivalenceResult.warnings,
+        branch
       }
     };
   }
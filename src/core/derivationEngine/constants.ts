@@ -1,3 +1,13 @@
-// Define a reasonable constant for context window limit (in characters for simplicity)
+// Input limit (in tokens) for models without a known context window
 // MUST BE POSITIVE
-export const CONTEXT_WINDOW_LIMIT_CHARS = 10000; // Example: 10k characters
+export const DEFAULT_INPUT_TOKEN_LIMIT = 2500;
+
+// Rough characters-per-token ratio used for estimates before any call is made
+export const ESTIMATED_CHARS_PER_TOKEN = 4;
+// Assumed completion length of an llm step whose output is not known yet
+export const ESTIMATED_COMPLETION_TOKENS = 1000;
+// Smallest answer a map-reduce chunk summary is allowed, however many chunks there are
+export const MIN_CHUNK_SUMMARY_TOKENS = 200;
+
+// Operations a read runs at once unless maxParallelism is configured
+export const DEFAULT_MAX_PARALLELISM = 4;
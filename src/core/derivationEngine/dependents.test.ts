@@ -0,0 +1,103 @@
+import { describe, it, beforeEach, expect } from 'vitest';
+import { AppDal, createMockAppDal } from '../db/app_dal.js';
+import { createDerivation } from './write.js';
+import { buildDependentsIndex, findStaleDerivations } from './dependents.js';
+import { hash } from '../utils.js';
+
+describe('Dependents', () => {
+  let appDal: AppDal;
+
+  beforeEach(async () => {
+    appDal = await createMockAppDal();
+  });
+
+  it('should find the formulas reading a changed file, through references too', () => {
+    const pinned = createDerivation(
+      appDal,
+      {
+        label: null,
+        recipeParams: { operation: 'upper', inputs: [{ type: 'pinned_path', path: '/notes/a.md' }] }
+      },
+      'upper("/notes/a.md")'
+    );
+    const file = createDerivation(
+      appDal,
+      {
+        label: null,
+        recipeParams: { operation: 'readFile', inputs: [{ type: 'file', path: 'b.md' }] }
+      },
+      'readFile("b.md")'
+    );
+    const glob = createDerivation(
+      appDal,
+      {
+        label: null,
+        recipeParams: { operation: 'glob', inputs: [{ type: 'file_glob', pattern: 'drafts/*.md' }] }
+      },
+      'glob("drafts/*.md")'
+    );
+    // the reference to `pinned` is nested in a step of its own
+    const referencing = createDerivation(
+      appDal,
+      {
+        label: null,
+        recipeParams: {
+          operation: 'concat',
+          inputs: [
+            { type: 'constant', value: 'a' },
+            {
+              type: 'computed_step',
+              step: { operation: 'lower', inputs: [{ type: 'derivation', id: pinned }] }
+            }
+          ]
+        }
+      },
+      `concat("a", lower($${pinned}))`
+    );
+
+    const index = buildDependentsIndex(appDal, '/notes');
+
+    expect(findStaleDerivations(index, [{ path: '/notes/a.md' }])).toEqual(
+      [pinned, referencing].sort()
+    );
+    expect(findStaleDerivations(index, [{ path: '/notes/b.md' }])).toEqual([file]);
+    expect(findStaleDerivations(index, [{ path: '/notes/drafts/c.md' }])).toEqual([glob]);
+    expect(findStaleDerivations(index, [{ path: '/notes/drafts/nested/c.md' }])).toEqual([]);
+    expect(findStaleDerivations(index, [{ path: '/elsewhere/b.md' }])).toEqual([]);
+  });
+
+  it("should find the formulas taking a changed file's previous content", () => {
+    const content = 'old content';
+    appDal.core.insertContentIfNew(hash(content), content);
+    const derivationId = createDerivation(
+      appDal,
+      {
+        label: null,
+        recipeParams: { operation: 'trim', inputs: [{ type: 'content', hash: hash(content) }] }
+      },
+      `trim(#${hash(content)})`
+    );
+
+    const index = buildDependentsIndex(appDal, '/notes');
+
+    expect(
+      findStaleDerivations(index, [{ path: '/notes/a.md', previousHash: hash(content) }])
+    ).toEqual([derivationId]);
+    expect(findStaleDerivations(index, [{ path: '/notes/a.md' }])).toEqual([]);
+  });
+
+  it('should skip file inputs without a watched directory', () => {
+    createDerivation(
+      appDal,
+      {
+        label: null,
+        recipeParams: { operation: 'readFile', inputs: [{ type: 'file', path: 'b.md' }] }
+      },
+      'readFile("b.md")'
+    );
+
+    const index = buildDependentsIndex(appDal, undefined);
+
+    expect(findStaleDerivations(index, [{ path: 'b.md' }])).toEqual([]);
+  });
+});
@@ -0,0 +1,111 @@
+import path from 'path';
+import picomatch from 'picomatch';
+import type { AppDal } from '../db/app_dal.js';
+
+/**
+ * Which formulas a file change affects. Formulas read files through pinned
+ * paths, file/glob inputs and content hashes taken from a file, and affect
+ * every formula that references them.
+ */
+
+export interface DependentsIndex {
+  // absolute path -> formulas reading it through a pinned path or file input
+  byPath: Map<string, Set<string>>;
+  // content hash -> formulas whose steps take it as an input
+  byContentHash: Map<string, Set<string>>;
+  globs: { matches: (absolutePath: string) => boolean; derivationIds: Set<string> }[];
+  // formula -> formulas referencing it
+  referencedBy: Map<string, Set<string>>;
+}
+
+/** A changed file, with the hash it had before the change if it was indexed */
+export interface FileChange {
+  path: string;
+  previousHash?: string;
+}
+
+const _add = (map: Map<string, Set<string>>, key: string, derivationId: string) => {
+  const ids = map.get(key) ?? new Set<string>();
+  ids.add(derivationId);
+  map.set(key, ids);
+};
+
+export const buildDependentsIndex = (
+  appDal: AppDal,
+  watchedDirectory: string | undefined
+): DependentsIndex => {
+  const directory = watchedDirectory === undefined ? undefined : path.resolve(watchedDirectory);
+  const index: DependentsIndex = {
+    byPath: new Map(),
+    byContentHash: new Map(),
+    globs: [],
+    referencedBy: new Map()
+  };
+  const globs = new Map<string, Set<string>>();
+
+  for (const { derivationId, stepParams } of appDal.derivations.getDerivationStepParams()) {
+    for (const input of stepParams.inputs) {
+      switch (input.type) {
+        case 'pinned_path':
+          _add(
+            index.byPath,
+            directory ? path.resolve(directory, input.path) : input.path,
+            derivationId
+          );
+          break;
+        case 'file':
+          // unreadable without a watched directory, so never affected by a change
+          if (directory) _add(index.byPath, path.resolve(directory, input.path), derivationId);
+          break;
+        case 'file_glob':
+          if (directory) _add(globs, input.pattern, derivationId);
+          break;
+        case 'derivation':
+          _add(index.referencedBy, input.id, derivationId);
+          break;
+      }
+    }
+  }
+  const contentInputs = appDal.derivations.getDerivationInputContentHashes();
+  for (const { derivationId, contentHash } of contentInputs) {
+    _add(index.byContentHash, contentHash, derivationId);
+  }
+  if (directory) {
+    for (const [pattern, derivationIds] of globs) {
+      const isMatch = picomatch(
+        path.isAbsolute(pattern) ? path.relative(directory, pattern) : pattern
+      );
+      index.globs.push({
+        matches: (absolutePath) => isMatch(path.relative(directory, absolutePath)),
+        derivationIds
+      });
+    }
+  }
+  return index;
+};
+
+/** The formulas the changes affect, directly or through references, sorted */
+export const findStaleDerivations = (index: DependentsIndex, changes: FileChange[]): string[] => {
+  const stale = new Set<string>();
+  const pending: string[] = [];
+  const mark = (ids: Iterable<string> | undefined) => {
+    for (const id of ids ?? []) {
+      if (stale.has(id)) continue;
+      stale.add(id);
+      pending.push(id);
+    }
+  };
+
+  for (const change of changes) {
+    const absolutePath = path.resolve(change.path);
+    mark(index.byPath.get(absolutePath));
+    if (change.previousHash !== undefined) mark(index.byContentHash.get(change.previousHash));
+    for (const glob of index.globs) {
+      if (glob.matches(absolutePath)) mark(glob.derivationIds);
+    }
+  }
+  while (pending.length > 0) {
+    mark(index.referencedBy.get(pending.pop()!));
+  }
+  return [...stale].sort();
+};
@@ -1,7 +1,10 @@
-import { describe, it, beforeEach, expect, assert } from 'vitest';
+import { describe, it, beforeEach, afterEach, expect, assert } from 'vitest';
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
 import { AppDal, createMockAppDal } from '../db/app_dal.js';
 import { createMockQueue } from '../limiting/rateLimitQueue.js';
-import { EmbeddingInputData, EmbeddingOutput } from '../types.js';
+import { EmbeddingInputData, EmbeddingOutput, LlmInputData, LlmOutput } from '../types.js';
 import { getOrComputeDerivedContent as _getOrComputeDerivedContent } from './read.js';
 import {
   createDerivation as _createDerivation,
@@ -11,10 +14,16 @@ import {
 import { hash, stableStringify } from '../utils.js';
 import { range } from 'lodash-es';
 import { getExecutionTreeStatistics } from './utils.js';
-import { CONTEXT_WINDOW_LIMIT_CHARS } from './constants.js';
+import { getInputTokenLimit } from './llms/models.js';
+import { countTokens, truncateTokens } from './tokenizer.js';
+import { setConfigModels } from '@lang-data/models.js';
 import { createMockRateLimitManager } from '../limiting/modelRateLimitManager.js';
 import { RateLimiter } from '../limiting';
 import { GetOrComputeDerivedContentOpts } from './types.js';
+import { getDerivationVariants } from './variants.js';
+import { canonicalJson } from './json.js';
+import { decodeList } from './lists.js';
+import { ChatRole, LlmSamplingParams, OverflowStrategy } from '../db/types.js';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type NotTail<T extends any[]> = T extends [...infer Rest, any] ? Rest : never;
@@ -1190,41 +1199,1029 @@ describe('Derivation Engine', () => {
         }
       });
     });
+
+    it('should record failed steps without caching them', async () => {
+      const derivationId = await createDerivation(appDal, {
+        label: 'test',
+        recipeParams: {
+          operation: 'identity',
+          inputs: [{ type: 'content', hash: 'not the hash' }]
+        }
+      });
+
+      await getOrComputeDerivedContent(appDal, derivationId, limiter);
+      await getOrComputeDerivedContent(appDal, derivationId, limiter);
+
+      const failures = appDal.derivations.getRecentStepFailures({ derivationId, limit: 10 });
+      expect(failures).toHaveLength(2);
+      expect(failures[0]).toMatchObject({
+        derivation_id: derivationId,
+        error_kind: 'input_content_hash_not_found',
+        input_content_hashes: ['not the hash'],
+        resolved_at: null
+      });
+      assert(failures[0]?.cache_key);
+      expect(appDal.derivations.findCacheRowByKey(failures[0].cache_key)).toBeUndefined();
+    });
+
+    it('should record failures only where they occur and resolve them on success', async () => {
+      const absolutePath = '/test/path';
+      const failingId = await createDerivation(appDal, {
+        label: 'failing',
+        recipeParams: {
+          operation: 'identity',
+          inputs: [{ type: 'pinned_path', path: absolutePath }]
+        }
+      });
+      const dependentId = await createDerivation(appDal, {
+        label: 'dependent',
+        recipeParams: {
+          operation: 'identity',
+          inputs: [{ type: 'derivation', id: failingId }]
+        }
+      });
+
+      await expect(
+        getOrComputeDerivedContent(appDal, dependentId, limiter)
+      ).resolves.toMatchObject({
+        success: false,
+        error: { kind: 'pinned_path_not_found' }
+      });
+
+      expect(appDal.derivations.getDerivationIdsWithUnresolvedFailures()).toEqual([failingId]);
+      expect(
+        appDal.derivations.getRecentStepFailures({ derivationId: failingId, limit: 10 })
+      ).toMatchObject([
+        { error_kind: 'pinned_path_not_found', cache_key: null, input_content_hashes: null }
+      ]);
+
+      const content = 'test content';
+      appDal.upsertDocumentAndPath(absolutePath, hash(content), content);
+
+      await expect(
+        getOrComputeDerivedContent(appDal, dependentId, limiter)
+      ).resolves.toMatchObject({ success: true, output: content });
+
+      expect(appDal.derivations.getDerivationIdsWithUnresolvedFailures()).toEqual([]);
+      const [failure] = appDal.derivations.getRecentStepFailures({
+        derivationId: failingId,
+        limit: 10
+      });
+      expect(failure?.resolved_at).not.toBeNull();
+    });
   });
 
   describe('Input size limits', () => {
-    it('should return a warning when inputs exceed context window limit', async () => {
-      const inputResult = range(1, CONTEXT_WINDOW_LIMIT_CHARS + 2)
-        .map((i) => String.fromCharCode(i))
-        .join('');
-      const inputHash = hash(inputResult);
+    // leaves 999 tokens for input after the completion allowance and the prompt
+    const model = 'openrouter/test/small';
+    const inputLimit = 999;
+    const input = range(3000)
+      .map((i) => `w${i}`)
+      .join(' ');
+
+    beforeEach(() => {
+      setConfigModels([{ provider: 'openrouter', modelId: 'test/small', contextWindow: 2000 }]);
+    });
 
-      appDal.core.insertContentIfNew(inputHash, inputResult);
+    afterEach(() => {
+      setConfigModels([]);
+    });
 
-      const derivationId = await createDerivation(appDal, {
+    const readWithOverflow = (overflow?: OverflowStrategy) => {
+      const inputHash = hash(input);
+      appDal.core.insertContentIfNew(inputHash, input);
+      const derivationId = createDerivation(appDal, {
         label: 'test',
         recipeParams: {
           operation: 'llm',
-          model: 'openai/gpt-5',
+          model,
           prompt: 'test',
-          inputs: [{ type: 'content', hash: inputHash }]
+          inputs: [{ type: 'content', hash: inputHash }],
+          ...(overflow && { overflow })
         }
       });
+      return getOrComputeDerivedContent(appDal, derivationId, limiter);
+    };
 
-      const expectedOutput = inputResult.slice(-CONTEXT_WINDOW_LIMIT_CHARS);
-      const expectedHash = hash(expectedOutput);
+    it("should keep the end of inputs that exceed the model's context window", async () => {
+      expect(getInputTokenLimit(model)).toBe(inputLimit + 1);
+      const expectedOutput = truncateTokens(input, inputLimit, 'head');
 
-      await expect(
-        getOrComputeDerivedContent(appDal, derivationId, limiter)
-      ).resolves.toMatchObject({
+      await expect(readWithOverflow()).resolves.toMatchObject({
         success: true,
         output: expectedOutput,
         executionTree: {
           cacheStatus: 'computed',
-          contentHash: expectedHash,
-          warnings: [{ type: 'inputTooLarge' }]
+          contentHash: hash(expectedOutput),
+          warnings: [
+            {
+              type: 'inputTooLarge',
+              inputTokens: countTokens(input),
+              inputTokenLimit: inputLimit,
+              strategy: 'truncate-head'
+            }
+          ]
+        }
+      });
+    });
+
+    it('should keep the start of the input with truncate-tail', async () => {
+      const result = await readWithOverflow('truncate-tail');
+
+      assert(result.success);
+      expect(result.output).toBe(truncateTokens(input, inputLimit, 'tail'));
+      expect(result.executionTree.warnings).toMatchObject([{ strategy: 'truncate-tail' }]);
+    });
+
+    it('should fail with input_too_large with the error strategy', async () => {
+      const result = await readWithOverflow('error');
+
+      assert(!result.success);
+      expect(result.error.kind).toBe('input_too_large');
+    });
+
+    it('should summarize each chunk and combine them with map-reduce', async () => {
+      const result = await readWithOverflow('map-reduce');
+
+      // the test model echoes each chunk, cut to its share of the limit
+      assert(result.success);
+      expect(countTokens(result.output)).toBeLessThanOrEqual(inputLimit);
+      expect(result.output.startsWith('w0 w1 w2')).toBe(true);
+      expect(result.output.split('\n\n').length).toBeGreaterThan(1);
+      expect(result.executionTree.warnings).toMatchObject([{ strategy: 'map-reduce' }]);
+    });
+
+    it("should run map-reduce chunk calls within the read's parallelism", async () => {
+      let running = 0;
+      let mostRunning = 0;
+      const llmLimiter = createMockRateLimitManager(
+        createMockQueue<LlmInputData, LlmOutput>(async () => {
+          mostRunning = Math.max(mostRunning, ++running);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          running--;
+          return { text: 'summary', usage: { promptTokens: 1, completionTokens: 1 } };
+        })
+      );
+      const inputHash = hash(input);
+      appDal.core.insertContentIfNew(inputHash, input);
+      const derivationId = createDerivation(appDal, {
+        label: 'test',
+        recipeParams: {
+          operation: 'llm',
+          model,
+          prompt: 'test',
+          overflow: 'map-reduce',
+          inputs: [{ type: 'content', hash: inputHash }]
+        }
+      });
+
+      const result = await _getOrComputeDerivedContent(
+        appDal,
+        derivationId,
+        llmLimiter,
+        {
+          openaiApiKey: 'test',
+          openRouterApiKey: 'test',
+          databasePath: 'test',
+          watchedDirectory: 'test',
+          embeddingRpmLimit: 1000,
+          skipEmbedding: true,
+          debug: false,
+          theme: 'system' as const,
+          maxParallelism: 2
+        },
+        { operationOptions: { environment: 'production' } }
+      );
+
+      assert(result.success);
+      expect(result.output).toBe('summary');
+      expect(mostRunning).toBe(2);
+    });
+
+    it('should keep the latest chat messages that fit', async () => {
+      const derivationId = createDerivation(appDal, {
+        label: 'test',
+        recipeParams: {
+          operation: 'chat',
+          model,
+          roles: ['user', 'assistant', 'user'],
+          inputs: [
+            { type: 'constant', value: input },
+            { type: 'constant', value: 'answer' },
+            { type: 'constant', value: 'question' }
+          ]
         }
       });
+      const result = await getOrComputeDerivedContent(appDal, derivationId, limiter);
+
+      assert(result.success);
+      expect(result.output).toBe('question');
+      expect(result.executionTree.warnings).toMatchObject([
+        { inputTokenLimit: inputLimit + 1, strategy: 'truncate-head' }
+      ]);
+    });
+  });
+
+  describe('Local files', () => {
+    let watchedDirectory: string;
+
+    beforeEach(async () => {
+      watchedDirectory = await mkdtemp(path.join(tmpdir(), 'slantwise-files-'));
+      await mkdir(path.join(watchedDirectory, 'notes'));
+      await writeFile(path.join(watchedDirectory, 'notes', 'b.md'), 'second');
+      await writeFile(path.join(watchedDirectory, 'notes', 'a.md'), 'first');
+    });
+
+    afterEach(async () => {
+      await rm(watchedDirectory, { recursive: true, force: true });
+    });
+
+    const readInDirectory = (derivationId: string) =>
+      _getOrComputeDerivedContent(
+        appDal,
+        derivationId,
+        limiter,
+        {
+          openaiApiKey: 'test',
+          openRouterApiKey: 'test',
+          databasePath: 'test',
+          watchedDirectory,
+          embeddingRpmLimit: 1000,
+          skipEmbedding: false,
+          debug: false,
+          theme: 'system' as const
+        },
+        { operationOptions: { environment: 'test' } }
+      );
+
+    it('should read a file from disk on every read', async () => {
+      const derivationId = createDerivation(appDal, {
+        label: null,
+        recipeParams: { operation: 'readFile', inputs: [{ type: 'file', path: 'notes/a.md' }] }
+      });
+
+      await expect(readInDirectory(derivationId)).resolves.toMatchObject({
+        success: true,
+        output: 'first',
+        executionTree: { cacheStatus: 'computed' }
+      });
+      await expect(readInDirectory(derivationId)).resolves.toMatchObject({
+        executionTree: { cacheStatus: 'cached' }
+      });
+
+      await writeFile(path.join(watchedDirectory, 'notes', 'a.md'), 'edited');
+      await expect(readInDirectory(derivationId)).resolves.toMatchObject({
+        success: true,
+        output: 'edited',
+        executionTree: { cacheStatus: 'computed' }
+      });
+    });
+
+    it('should read the files matching a glob as a list in path order', async () => {
+      const derivationId = createDerivation(appDal, {
+        label: null,
+        recipeParams: { operation: 'glob', inputs: [{ type: 'file_glob', pattern: '**/*.md' }] }
+      });
+
+      const first = await readInDirectory(derivationId);
+      assert(first.success);
+      expect(decodeList(first.output)).toEqual(['first', 'second']);
+
+      await writeFile(path.join(watchedDirectory, 'c.md'), 'third');
+      await writeFile(path.join(watchedDirectory, 'c.txt'), 'ignored');
+      const second = await readInDirectory(derivationId);
+      assert(second.success);
+      expect(decodeList(second.output)).toEqual(['third', 'first', 'second']);
+    });
+
+    it('should not read outside the watched directory', async () => {
+      for (const [inputPath, kind] of [
+        ['../outside.md', 'path_outside_watched_directory'],
+        ['notes/missing.md', 'file_not_found']
+      ] as const) {
+        const derivationId = createDerivation(appDal, {
+          label: null,
+          recipeParams: { operation: 'readFile', inputs: [{ type: 'file', path: inputPath }] }
+        });
+        const result = await readInDirectory(derivationId);
+        assert(!result.success);
+        expect(result.error.kind).toBe(kind);
+      }
+    });
+
+    it('should not glob outside the watched directory', async () => {
+      const derivationId = createDerivation(appDal, {
+        label: null,
+        recipeParams: {
+          operation: 'glob',
+          inputs: [{ type: 'file_glob', pattern: 'notes/../../*.md' }]
+        }
+      });
+      const result = await readInDirectory(derivationId);
+      assert(!result.success);
+      expect(result.error.kind).toBe('path_outside_watched_directory');
+    });
+
+    it('should not follow symlinks out of the watched directory', async () => {
+      const outsideDirectory = await mkdtemp(path.join(tmpdir(), 'slantwise-outside-'));
+      try {
+        await writeFile(path.join(outsideDirectory, 'secret.md'), 'secret');
+        await symlink(
+          path.join(outsideDirectory, 'secret.md'),
+          path.join(watchedDirectory, 'notes', 'link.md')
+        );
+        await symlink(outsideDirectory, path.join(watchedDirectory, 'linked'));
+
+        for (const inputPath of ['notes/link.md', 'linked/secret.md']) {
+          const readId = createDerivation(appDal, {
+            label: null,
+            recipeParams: { operation: 'readFile', inputs: [{ type: 'file', path: inputPath }] }
+          });
+          const read = await readInDirectory(readId);
+          assert(!read.success);
+          expect(read.error.kind).toBe('path_outside_watched_directory');
+        }
+
+        const globId = createDerivation(appDal, {
+          label: null,
+          recipeParams: { operation: 'glob', inputs: [{ type: 'file_glob', pattern: '**/*.md' }] }
+        });
+        const globbed = await readInDirectory(globId);
+        assert(globbed.success);
+        expect(decodeList(globbed.output)).toEqual(['first', 'second']);
+      } finally {
+        await rm(outsideDirectory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Streaming', () => {
+    it('should deliver the final output to onChunk for non-streaming operations', async () => {
+      const content = 'test content';
+      const contentHash = hash(content);
+      appDal.core.insertContentIfNew(contentHash, content);
+
+      const derivationId = await createDerivation(appDal, {
+        label: 'test',
+        recipeParams: {
+          operation: 'identity',
+          inputs: [
+            {
+              type: 'computed_step',
+              step: {
+                operation: 'identity',
+                inputs: [{ type: 'content', hash: contentHash }]
+              }
+            }
+          ]
+        }
+      });
+
+      const chunks: string[] = [];
+      const result = await getOrComputeDerivedContent(appDal, derivationId, limiter, {
+        onChunk: (chunk) => chunks.push(chunk)
+      });
+
+      assert(result.success);
+      // dependencies never stream, so the output arrives exactly once
+      expect(chunks).toEqual([content]);
+      expect(result.output).toBe(content);
+    });
+
+    it('should deliver cached output to onChunk', async () => {
+      const content = 'test content';
+      const contentHash = hash(content);
+      appDal.core.insertContentIfNew(contentHash, content);
+
+      const derivationId = await createDerivation(appDal, {
+        label: 'test',
+        recipeParams: {
+          operation: 'llm',
+          model: 'openai/gpt-5',
+          prompt: 'test',
+          inputs: [{ type: 'content', hash: contentHash }]
+        }
+      });
+
+      await getOrComputeDerivedContent(appDal, derivationId, limiter);
+
+      const chunks: string[] = [];
+      const result = await getOrComputeDerivedContent(appDal, derivationId, limiter, {
+        onChunk: (chunk) => chunks.push(chunk)
+      });
+
+      assert(result.success);
+      expect(result.executionTree.cacheStatus).toBe('cached');
+      expect(chunks.join('')).toBe(result.output);
+    });
+  });
+
+  describe('Parallel evaluation', () => {
+    const createLlm = (value: string) =>
+      createDerivation(appDal, {
+        label: null,
+        recipeParams: {
+          operation: 'llm',
+          model: 'openai/gpt-5',
+          prompt: 'test',
+          inputs: [{ type: 'constant', value }]
+        }
+      });
+
+    it('should evaluate independent inputs concurrently, keeping their order', async () => {
+      const values = range(6).map((i) => `value ${i}`);
+      const inputIds = values.map(createLlm);
+      const derivationId = createDerivation(appDal, {
+        label: null,
+        recipeParams: {
+          operation: 'concat',
+          inputs: inputIds.map((id) => ({ type: 'derivation' as const, id }))
+        }
+      });
+
+      const startedAt = Date.now();
+      const result = await _getOrComputeDerivedContent(
+        appDal,
+        derivationId,
+        limiter,
+        {
+          openaiApiKey: 'test',
+          openRouterApiKey: 'test',
+          databasePath: 'test',
+          watchedDirectory: 'test',
+          embeddingRpmLimit: 1000,
+          skipEmbedding: false,
+          debug: false,
+          theme: 'system' as const,
+          maxParallelism: values.length
+        },
+        { operationOptions: { environment: 'test' } }
+      );
+      const elapsedMs = Date.now() - startedAt;
+
+      assert(result.success);
+      expect(result.output).toBe(values.join('\n'));
+      expect(result.executionTree.dependencies.map((dep) => dep.contentHash)).toEqual(
+        values.map((value) => hash(value))
+      );
+      // each simulated llm call takes at least 50ms
+      expect(elapsedMs).toBeLessThan(values.length * 50);
+    });
+
+    it('should evaluate a formula reached through several inputs once', async () => {
+      const sharedId = createLlm('shared');
+      const [leftId, rightId] = ['left', 'right'].map((side) =>
+        createDerivation(appDal, {
+          label: null,
+          recipeParams: {
+            operation: 'concat',
+            inputs: [
+              { type: 'constant', value: side },
+              { type: 'derivation', id: sharedId }
+            ]
+          }
+        })
+      );
+      const derivationId = createDerivation(appDal, {
+        label: null,
+        recipeParams: {
+          operation: 'concat',
+          inputs: [
+            { type: 'derivation', id: leftId! },
+            { type: 'derivation', id: rightId! }
+          ]
+        }
+      });
+
+      const result = await getOrComputeDerivedContent(appDal, derivationId, limiter, {
+        skipCache: true
+      });
+
+      assert(result.success);
+      expect(result.output).toBe('left\nshared\nright\nshared');
+      const variants = getDerivationVariants(appDal, sharedId);
+      assert(variants.success);
+      expect(variants.variants).toHaveLength(1);
+    });
+  });
+
+  describe('Template parameters', () => {
+    const createStory = () =>
+      createDerivation(appDal, {
+        label: 'story',
+        recipeParams: {
+          operation: 'concat',
+          inputs: [
+            { type: 'constant', value: 'A {tone} story about' },
+            { type: 'param', name: 'topic' }
+          ]
+        }
+      });
+
+    it('should bind parameters per reference and cache each binding separately', async () => {
+      const storyId = createStory();
+      const derivationId = createDerivation(appDal, {
+        label: null,
+        recipeParams: {
+          operation: 'concat',
+          inputs: [
+            { type: 'derivation', id: storyId, params: { topic: 'balloons', tone: 'dry' } },
+            { type: 'derivation', id: storyId, params: { topic: 'kites', tone: 'dry' } }
+          ]
+        }
+      });
+
+      const first = await getOrComputeDerivedContent(appDal, derivationId, limiter);
+      assert(first.success);
+      expect(first.output).toBe('A dry story about\nballoons\nA dry story about\nkites');
+      expect(first.executionTree.dependencies).toMatchObject([
+        { cacheStatus: 'computed' },
+        { cacheStatus: 'computed' }
+      ]);
+
+      const singleId = createDerivation(appDal, {
+        label: null,
+        recipeParams: {
+          operation: 'identity',
+          inputs: [{ type: 'derivation', id: storyId, params: { tone: 'dry', topic: 'kites' } }]
+        }
+      });
+      const single = await getOrComputeDerivedContent(appDal, singleId, limiter);
+      assert(single.success);
+      expect(single.output).toBe('A dry story about\nkites');
+      expect(single.executionTree.dependencies).toMatchObject([{ cacheStatus: 'cached' }]);
+    });
+
+    it('should fail to read a formula whose parameter is not bound', async () => {
+      const storyId = createStory();
+
+      const result = await getOrComputeDerivedContent(appDal, storyId, limiter);
+
+      assert(!result.success);
+      expect(result.error.kind).toBe('unbound_parameter');
+    });
+
+    it('should use defaults and let references pass their own parameters on', async () => {
+      const storyId = createDerivation(appDal, {
+        label: 'story',
+        recipeParams: {
+          operation: 'identity',
+          inputs: [{ type: 'param', name: 'topic', default: 'nothing in particular' }]
+        }
+      });
+      const seriesId = createDerivation(appDal, {
+        label: 'series',
+        recipeParams: {
+          operation: 'concat',
+          inputs: [
+            { type: 'derivation', id: storyId, params: { topic: '{subject}, part 1' } },
+            { type: 'derivation', id: storyId }
+          ]
+        }
+      });
+      const derivationId = createDerivation(appDal, {
+        label: null,
+        recipeParams: {
+          operation: 'identity',
+          inputs: [{ type: 'derivation', id: seriesId, params: { subject: 'balloons' } }]
+        }
+      });
+
+      const result = await getOrComputeDerivedContent(appDal, derivationId, limiter);
+
+      assert(result.success);
+      expect(result.output).toBe('balloons, part 1\nnothing in particular');
+    });
+  });
+
+  describe('Lists', () => {
+    const createList = (text: string) =>
+      createDerivation(appDal, {
+        label: 'list',
+        recipeParams: {
+          operation: 'split',
+          inputs: [
+            { type: 'constant', value: text },
+            { type: 'constant', value: '\n' }
+          ]
+        }
+      });
+
+    const exclaim = (listId: string) => ({
+      operation: 'map' as const,
+      inputs: [
+        { type: 'derivation' as const, id: listId },
+        {
+          type: 'computed_step' as const,
+          step: {
+            operation: 'concat' as const,
+            inputs: [{ type: 'map_item' as const }, { type: 'constant' as const, value: '!' }]
+          }
+        }
+      ]
+    });
+
+    it('should map each element and join the results', async () => {
+      const listId = createList('a\n b \n\n');
+      const derivationId = createDerivation(appDal, {
+        label: null,
+        recipeParams: {
+          operation: 'join',
+          inputs: [
+            { type: 'computed_step', step: exclaim(listId) },
+            { type: 'constant', value: ' | ' }
+          ]
+        }
+      });
+
+      const result = await getOrComputeDerivedContent(appDal, derivationId, limiter);
+
+      assert(result.success);
+      expect(result.output).toBe('a\n! | b\n!');
+      const mapTree = result.executionTree.dependencies[0];
+      assert(mapTree?.type === 'computed_step');
+      expect(mapTree.operation).toBe('map');
+      expect(mapTree.dependencies.map((dep) => dep.type)).toEqual([
+        'derivation',
+        'computed_step',
+        'computed_step'
+      ]);
+    });
+
+    it('should only compute elements that were added', async () => {
+      const listId = createList('a\nb');
+      const derivationId = createDerivation(appDal, {
+        label: null,
+        recipeParams: exclaim(listId)
+      });
+      await getOrComputeDerivedContent(appDal, derivationId, limiter);
+
+      updateDerivation(appDal, listId, {
+        label: 'list',
+        recipeParams: {
+          operation: 'split',
+          inputs: [
+            { type: 'constant', value: 'a\nb\nc' },
+            { type: 'constant', value: '\n' }
+          ]
+        }
+      });
+      const result = await getOrComputeDerivedContent(appDal, derivationId, limiter);
+
+      assert(result.success);
+      expect(JSON.parse(result.output)).toEqual(['a\n!', 'b\n!', 'c\n!']);
+      expect(
+        result.executionTree.dependencies.map((dep) => 'cacheStatus' in dep && dep.cacheStatus)
+      ).toEqual(['computed', 'cached', 'cached', 'computed']);
+    });
+
+    it('should collapse lists into their elements when concatenating', async () => {
+      const listId = createList('a\nb');
+      const derivationId = createDerivation(appDal, {
+        label: null,
+        recipeParams: {
+          operation: 'concat',
+          inputs: [
+            { type: 'constant', value: 'items:' },
+            { type: 'derivation', id: listId }
+          ]
+        }
+      });
+
+      const result = await getOrComputeDerivedContent(appDal, derivationId, limiter);
+
+      assert(result.success);
+      expect(result.output).toBe('items:\na\nb');
+    });
+
+    it('should fail to map or join text', async () => {
+      const textId = createDerivation(appDal, {
+        label: null,
+        recipeParams: { operation: 'identity', inputs: [{ type: 'constant', value: 'a\nb' }] }
+      });
+      const mapId = createDerivation(appDal, { label: null, recipeParams: exclaim(textId) });
+      const joinId = createDerivation(appDal, {
+        label: null,
+        recipeParams: { operation: 'join', inputs: [{ type: 'derivation', id: textId }] }
+      });
+
+      for (const derivationId of [mapId, joinId]) {
+        const result = await getOrComputeDerivedContent(appDal, derivationId, limiter);
+        assert(!result.success);
+        expect(result.error.kind).toBe('not_a_list');
+      }
+    });
+  });
+
+  describe('Text operations', () => {
+    it('should chain text operations', async () => {
+      const derivationId = createDerivation(appDal, {
+        label: null,
+        recipeParams: {
+          operation: 'template',
+          inputs: [
+            { type: 'constant', value: 'Hello {0} ({1})' },
+            {
+              type: 'computed_step',
+              step: {
+                operation: 'upper',
+                inputs: [
+                  {
+                    type: 'computed_step',
+                    step: {
+                      operation: 'extract',
+                      inputs: [{ type: 'constant', value: 'name: ada\nname: grace' }],
+                      regex: '^name: (\\w+)$',
+                      group: 1
+                    }
+                  }
+                ]
+              }
+            },
+            {
+              type: 'computed_step',
+              step: {
+                operation: 'replace',
+                inputs: [{ type: 'constant', value: '  a  b ' }],
+                pattern: '\\s+',
+                with: '-'
+              }
+            }
+          ]
+        }
+      });
+
+      const result = await getOrComputeDerivedContent(appDal, derivationId, limiter);
+
+      assert(result.success);
+      expect(result.output).toBe('Hello ADA (-a-b-)');
+    });
+
+    it('should report an invalid pattern as an operation error', async () => {
+      const derivationId = createDerivation(appDal, {
+        label: null,
+        recipeParams: {
+          operation: 'replace',
+          inputs: [{ type: 'constant', value: 'text' }],
+          pattern: '(unclosed'
+        }
+      });
+
+      const result = await getOrComputeDerivedContent(appDal, derivationId, limiter);
+
+      assert(!result.success);
+      expect(result.error.kind).toBe('operation_result_error');
+    });
+  });
+
+  describe('JSON operations', () => {
+    const llmJson = (input: string, schema: string) =>
+      createDerivation(appDal, {
+        label: null,
+        recipeParams: {
+          operation: 'llmJson',
+          inputs: [
+            { type: 'constant', value: input },
+            { type: 'constant', value: schema }
+          ],
+          prompt: 'Describe the input as JSON',
+          model: 'openai/gpt-5'
+        }
+      });
+    const schema = JSON.stringify({
+      type: 'object',
+      properties: { title: { type: 'string' } },
+      required: ['title']
+    });
+
+    it('should extract values at a path', async () => {
+      const derivationId = createDerivation(appDal, {
+        label: null,
+        recipeParams: {
+          operation: 'json',
+          inputs: [{ type: 'constant', value: '{"items": [{"title": "first", "tags": ["a"]}]}' }],
+          path: '$.items[0]'
+        }
+      });
+
+      const result = await getOrComputeDerivedContent(appDal, derivationId, limiter);
+
+      assert(result.success);
+      expect(result.output).toBe('{\n  "tags": [\n    "a"\n  ],\n  "title": "first"\n}');
+    });
+
+    it('should fail with invalid_json for invalid input or a missing path', async () => {
+      for (const [value, path] of [
+        ['not json', '$'],
+        ['{"items": []}', '$.items[0]']
+      ] as const) {
+        const derivationId = createDerivation(appDal, {
+          label: null,
+          recipeParams: { operation: 'json', inputs: [{ type: 'constant', value }], path }
+        });
+        const result = await getOrComputeDerivedContent(appDal, derivationId, limiter);
+        assert(!result.success);
+        expect(result.error.kind).toBe('invalid_json');
+      }
+    });
+
+    it('should store llmJson output as canonical JSON', async () => {
+      const derivationId = llmJson('{"title": "x", "extra": [1]}', schema);
+
+      const result = await getOrComputeDerivedContent(appDal, derivationId, limiter);
+
+      assert(result.success);
+      expect(result.output).toBe(canonicalJson({ extra: [1], title: 'x' }));
+    });
+
+    it('should fail with invalid_json when llmJson output does not match the schema', async () => {
+      for (const derivationId of [
+        llmJson('{"name": "x"}', schema),
+        llmJson('not json', schema),
+        llmJson('{"title": "x"}', 'not a schema')
+      ]) {
+        const result = await getOrComputeDerivedContent(appDal, derivationId, limiter);
+        assert(!result.success);
+        expect(result.error.kind).toBe('invalid_json');
+      }
+    });
+  });
+
+  describe('Branching', () => {
+    const createBranch = (value: string) =>
+      createDerivation(appDal, {
+        label: null,
+        recipeParams: { operation: 'upper', inputs: [{ type: 'constant', value }] }
+      });
+
+    it('should only compute the branch that is taken', async () => {
+      const thenId = createBranch('then');
+      const elseId = createBranch('else');
+      const derivationId = createDerivation(appDal, {
+        label: null,
+        recipeParams: {
+          operation: 'if',
+          inputs: [
+            { type: 'constant', value: ' No ' },
+            { type: 'derivation', id: thenId },
+            { type: 'derivation', id: elseId }
+          ]
+        }
+      });
+
+      const result = await getOrComputeDerivedContent(appDal, derivationId, limiter);
+
+      assert(result.success);
+      expect(result.output).toBe('ELSE');
+      expect(result.executionTree.branch).toBe('else');
+      expect(result.executionTree.dependencies.map((dep) => dep.type)).toEqual([
+        'constant',
+        'derivation'
+      ]);
+      const cached = await getOrComputeDerivedContent(appDal, derivationId, limiter);
+      assert(cached.success);
+      expect(cached.executionTree).toMatchObject({ cacheStatus: 'cached', branch: 'else' });
+      const untaken = await getOrComputeDerivedContent(appDal, thenId, limiter);
+      assert(untaken.success);
+      expect(untaken.executionTree.cacheStatus).toBe('computed');
+    });
+
+    it('should give empty text for a false if without else', async () => {
+      const derivationId = createDerivation(appDal, {
+        label: null,
+        recipeParams: {
+          operation: 'if',
+          inputs: [
+            { type: 'constant', value: 'false' },
+            { type: 'derivation', id: createBranch('then') }
+          ]
+        }
+      });
+
+      const result = await getOrComputeDerivedContent(appDal, derivationId, limiter);
+
+      assert(result.success);
+      expect(result.output).toBe('');
+      expect(result.executionTree.branch).toBe('else');
+    });
+
+    it('should pick the matching case or the default', async () => {
+      const createSwitch = (value: string, withDefault: boolean) =>
+        createDerivation(appDal, {
+          label: null,
+          recipeParams: {
+            operation: 'switch',
+            inputs: [
+              { type: 'constant', value },
+              { type: 'derivation', id: createBranch('bug report') },
+              { type: 'derivation', id: createBranch('question') },
+              ...(withDefault ? [{ type: 'constant' as const, value: 'other' }] : [])
+            ],
+            cases: ['bug', 'question']
+          }
+        });
+
+      const matched = await getOrComputeDerivedContent(
+        appDal,
+        createSwitch('Question\n', true),
+        limiter
+      );
+      assert(matched.success);
+      expect(matched.output).toBe('QUESTION');
+      expect(matched.executionTree.branch).toBe('question');
+
+      const fallback = await getOrComputeDerivedContent(
+        appDal,
+        createSwitch('praise', true),
+        limiter
+      );
+      assert(fallback.success);
+      expect(fallback.output).toBe('other');
+      expect(fallback.executionTree.branch).toBe('default');
+
+      const unmatched = await getOrComputeDerivedContent(
+        appDal,
+        createSwitch('praise', false),
+        limiter
+      );
+      assert(!unmatched.success);
+      expect(unmatched.error.kind).toBe('no_matching_case');
+    });
+  });
+
+  describe('Chat', () => {
+    const chat = (messages: [ChatRole, string][]) =>
+      createDerivation(appDal, {
+        label: null,
+        recipeParams: {
+          operation: 'chat',
+          inputs: messages.map(([, value]) => ({ type: 'constant', value })),
+          roles: messages.map(([role]) => role),
+          system: 'Answer briefly',
+          model: 'openai/gpt-5'
+        }
+      });
+
+    it('should answer the last message of the conversation', async () => {
+      const result = await getOrComputeDerivedContent(
+        appDal,
+        chat([
+          ['user', 'hi'],
+          ['assistant', 'hello'],
+          ['user', 'how are you?']
+        ]),
+        limiter
+      );
+
+      assert(result.success);
+      expect(result.output).toBe('how are you?');
+    });
+
+    it('should cache on the roles and order of the messages', async () => {
+      const conversation: [ChatRole, string][] = [
+        ['user', 'hi'],
+        ['assistant', 'hello'],
+        ['user', 'bye']
+      ];
+      await getOrComputeDerivedContent(appDal, chat(conversation), limiter);
+
+      const statuses = [];
+      for (const messages of [
+        conversation,
+        [conversation[1]!, conversation[0]!, conversation[2]!],
+        [['user', 'hi'], ['user', 'hello'], conversation[2]!] as [ChatRole, string][]
+      ]) {
+        const result = await getOrComputeDerivedContent(appDal, chat(messages), limiter);
+        assert(result.success);
+        statuses.push(result.executionTree.cacheStatus);
+      }
+      expect(statuses).toEqual(['cached', 'computed', 'computed']);
+    });
+  });
+
+  describe('Sampling parameters', () => {
+    const llm = (sampling: LlmSamplingParams) =>
+      createDerivation(appDal, {
+        label: null,
+        recipeParams: {
+          operation: 'llm',
+          inputs: [{ type: 'constant', value: 'a story' }],
+          prompt: 'Continue the story',
+          model: 'openai/gpt-5',
+          ...sampling
+        }
+      });
+
+    it('should cache each setting separately', async () => {
+      await getOrComputeDerivedContent(appDal, llm({ temperature: 0 }), limiter);
+
+      const statuses = [];
+      for (const sampling of [{ temperature: 0 }, { temperature: 1 }, {}, { stop: ['END'] }]) {
+        const result = await getOrComputeDerivedContent(appDal, llm(sampling), limiter);
+        assert(result.success);
+        statuses.push(result.executionTree.cacheStatus);
+      }
+      expect(statuses).toEqual(['cached', 'computed', 'computed', 'computed']);
     });
   });
 });
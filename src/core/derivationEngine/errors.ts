@@ -18,6 +18,18 @@ const readErrorKinds = {
     message: (ctx: { pinnedPath: string; docId: string }) =>
       `#REF_PATH! Content for pinned path ${ctx.pinnedPath} (docId ${ctx.docId}) not found.`
   },
+  watchedDirectoryNotConfigured: {
+    kind: 'watched_directory_not_configured',
+    message: () => '#REF_PATH! Files are read from the watched directory; set watchedDirectory.'
+  },
+  pathOutsideWatchedDirectory: {
+    kind: 'path_outside_watched_directory',
+    message: (ctx: { path: string }) => `#REF_PATH! ${ctx.path} is outside the watched directory.`
+  },
+  fileNotFound: {
+    kind: 'file_not_found',
+    message: (ctx: { path: string }) => `#REF_PATH! File ${ctx.path} not found.`
+  },
   inputContentHashNotFound: {
     kind: 'input_content_hash_not_found',
     message: (ctx: { hash: string }) => `#REF! Input content (hash: ${ctx.hash}) not found.`
@@ -26,6 +38,31 @@ const readErrorKinds = {
     kind: 'step_not_found',
     message: (ctx: { stepId: string }) => `#REF! Step ${ctx.stepId} not found.`
   },
+  unboundParameter: {
+    kind: 'unbound_parameter',
+    message: (ctx: { name: string }) =>
+      `#PARAM! Parameter '${ctx.name}' has no value. Bind it with $formula(${ctx.name}="...") or give it a default.`
+  },
+  notAList: {
+    kind: 'not_a_list',
+    message: (ctx: { operation: string; source: string }) =>
+      `#TYPE! ${ctx.operation}() expects a list, but its input is ${ctx.source}. Use split() to make one.`
+  },
+  invalidJson: {
+    kind: 'invalid_json',
+    message: (ctx: { operation: string; reason: string }) =>
+      `#JSON! ${ctx.operation}(): ${ctx.reason}`
+  },
+  noMatchingCase: {
+    kind: 'no_matching_case',
+    message: (ctx: { value: string }) =>
+      `#N/A! switch() has no case for "${ctx.value}" and no default.`
+  },
+  inputTooLarge: {
+    kind: 'input_too_large',
+    message: (ctx: { inputTokens: number; inputTokenLimit: number }) =>
+      `#SIZE! Input is ${ctx.inputTokens} tokens but only ${ctx.inputTokenLimit} fit the model's context window. Set overflow= to truncate or summarize it.`
+  },
   invalidInputArity: {
     kind: 'invalid_input_arity',
     message: (ctx: { issues: string }) => `#ARITY! Invalid input arity: ${ctx.issues}`
@@ -47,6 +84,15 @@ const readErrorKinds = {
     kind: 'derivation_store_failure',
     message: (ctx: { error: string }) => `#STORE_FAIL! Failed to store cell result: ${ctx.error}`
   },
+  overBudget: {
+    kind: 'over_budget',
+    message: (ctx: { summary: string }) => `#BUDGET! ${ctx.summary}`
+  },
+  variantNotFound: {
+    kind: 'variant_not_found',
+    message: (ctx: { derivationId: string; variantNumber: number }) =>
+      `#REF! Variant ${ctx.variantNumber} of cell ${ctx.derivationId} not found.`
+  },
   dbError: {
     kind: 'db_error',
     message: () => 'DB error retrieving input content.'
@@ -1,5 +1,17 @@
 export { getOrComputeDerivedContent } from './read.js';
 export { createDerivation, updateDerivation, deleteDerivation } from './write.js';
+export { getDerivationVariants, pinDerivationVariant } from './variants.js';
+export type { DerivationVariant } from './variants.js';
+export { summarizeLlmUsage } from './usage.js';
+export { getReadPlan } from './readPlan.js';
+export { getDerivationStatus, getDerivationStatuses } from './status.js';
+export type { DerivationStatus, StaleUpstream } from './status.js';
+export type { ReadPlan, PlannedStep, PlannedStepStatus } from './readPlan.js';
+export { estimateReadCost, checkReadBudget } from './budget.js';
+export { exportWorkbook, importWorkbook, WorkbookSchema } from './workbook.js';
+export type { Workbook, ImportedFormula } from './workbook.js';
+export type { ReadEstimate, EstimatedLlmCall, BudgetCheck } from './budget.js';
+export type { LlmUsageSummary, UsageTotals } from './usage.js';
 export type { SccOptions, SccResult, SccExecutionContext } from './types.js';
 export type { ExecutionPlan, PlanNode, PlanUnit } from './planner.js';
 export type {
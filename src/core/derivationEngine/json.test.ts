@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalJson, evaluateJsonPath, validateJsonSchema } from './json.js';
+
+describe('canonicalJson', () => {
+  it('sorts keys at every level and pretty-prints', () => {
+    expect(canonicalJson({ b: 1, a: [{ d: true, c: null }] })).toBe(
+      JSON.stringify({ a: [{ c: null, d: true }], b: 1 }, null, 2)
+    );
+  });
+});
+
+describe('evaluateJsonPath', () => {
+  const document = { items: [{ title: 'first' }, { title: 'last', 'odd key': 1 }] };
+
+  it('follows keys and indexes', () => {
+    expect(evaluateJsonPath(document, '$')).toEqual({ success: true, value: document });
+    expect(evaluateJsonPath(document, '$.items[0].title')).toEqual({
+      success: true,
+      value: 'first'
+    });
+    expect(evaluateJsonPath(document, "$.items[-1]['odd key']")).toEqual({
+      success: true,
+      value: 1
+    });
+  });
+
+  it('describes where a path stops matching', () => {
+    expect(evaluateJsonPath(document, '$.items[2]')).toEqual({
+      success: false,
+      error: '$.items has no index 2'
+    });
+    expect(evaluateJsonPath(document, '$.items[0].name')).toEqual({
+      success: false,
+      error: '$.items[0] has no key "name"'
+    });
+    expect(evaluateJsonPath(document, 'items').success).toBe(false);
+    expect(evaluateJsonPath(document, '$.items[*]').success).toBe(false);
+  });
+});
+
+describe('validateJsonSchema', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      rating: { type: 'integer', enum: [1, 2, 3, 4, 5] },
+      tags: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['title', 'rating'],
+    additionalProperties: false
+  };
+
+  it('accepts matching values', () => {
+    expect(validateJsonSchema({ title: 'x', rating: 5, tags: ['a'] }, schema)).toEqual([]);
+  });
+
+  it('lists every mismatch', () => {
+    expect(validateJsonSchema({ rating: 7, tags: ['a', 2], extra: true }, schema)).toEqual([
+      '$.title is required',
+      '$.rating should be one of [1,2,3,4,5]',
+      '$.tags[1] should be string',
+      '$.extra is not allowed'
+    ]);
+    expect(validateJsonSchema([], schema)).toEqual(['$ should be object']);
+  });
+});
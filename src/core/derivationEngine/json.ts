@@ -0,0 +1,167 @@
+import { isPlainObject } from 'lodash-es';
+
+/**
+ * Helpers behind json and llmJson. JSON is stored canonically: keys sorted and
+ * pretty-printed, so equivalent documents hash (and cache) the same.
+ */
+
+type JsonResult<T> = { success: true; value: T } | { success: false; error: string };
+
+/** The subset of JSON Schema that validateJsonSchema checks; other keywords are ignored */
+export type JsonSchema = {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+};
+
+export const parseJson = (text: string, description: string): JsonResult<unknown> => {
+  try {
+    return { success: true, value: JSON.parse(text) };
+  } catch (error) {
+    return {
+      success: false,
+      error: `${description} is not valid JSON (${error instanceof Error ? error.message : String(error)})`
+    };
+  }
+};
+
+export const parseJsonSchema = (text: string): JsonResult<JsonSchema> => {
+  const parsed = parseJson(text, 'The schema');
+  if (!parsed.success) return parsed;
+  return isPlainObject(parsed.value)
+    ? { success: true, value: parsed.value as JsonSchema }
+    : { success: false, error: 'The schema must be a JSON object' };
+};
+
+const _sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(_sortKeys);
+  if (!isPlainObject(value)) return value;
+  const record = value as Record<string, unknown>;
+  return Object.fromEntries(
+    Object.keys(record)
+      .sort()
+      .map((key) => [key, _sortKeys(record[key])])
+  );
+};
+
+export const canonicalJson = (value: unknown): string => JSON.stringify(_sortKeys(value), null, 2);
+
+/** Strings are output as-is, anything else as canonical JSON */
+export const formatJsonValue = (value: unknown): string =>
+  typeof value === 'string' ? value : canonicalJson(value);
+
+// .name, [0], [-1], ['name'] or ["name"]
+const pathSegmentPattern = /^(?:\.([a-zA-Z_$][\w$-]*)|\[(-?\d+)\]|\['([^']*)'\]|\["([^"]*)"\])/;
+
+/**
+ * Follows a JSONPath made of keys and array indexes, e.g. `$.items[0].title`.
+ * Negative indexes count back from the end of the array.
+ */
+export const evaluateJsonPath = (document: unknown, path: string): JsonResult<unknown> => {
+  if (!path.startsWith('$')) {
+    return { success: false, error: `Path "${path}" must start with $` };
+  }
+  let current = document;
+  let rest = path.slice(1);
+  let walked = '$';
+  while (rest.length > 0) {
+    const match = pathSegmentPattern.exec(rest);
+    if (match === null) {
+      return { success: false, error: `Path "${path}" is invalid at "${rest}"` };
+    }
+    const [segment, dotKey, index, singleQuotedKey, doubleQuotedKey] = match;
+    const key = dotKey ?? singleQuotedKey ?? doubleQuotedKey;
+    if (index !== undefined) {
+      if (!Array.isArray(current)) {
+        return { success: false, error: `${walked} is not an array` };
+      }
+      const position = Number(index) < 0 ? current.length + Number(index) : Number(index);
+      if (position < 0 || position >= current.length) {
+        return { success: false, error: `${walked} has no index ${index}` };
+      }
+      current = current[position];
+    } else {
+      if (!isPlainObject(current) || !Object.hasOwn(current as object, key!)) {
+        return { success: false, error: `${walked} has no key "${key}"` };
+      }
+      current = (current as Record<string, unknown>)[key!];
+    }
+    walked += segment;
+    rest = rest.slice(segment.length);
+  }
+  return { success: true, value: current };
+};
+
+const _matchesType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+};
+
+const _jsonEquals = (a: unknown, b: unknown) => canonicalJson(a) === canonicalJson(b);
+
+const _isValid = (value: unknown, schema: JsonSchema, at: string) =>
+  validateJsonSchema(value, schema, at).length === 0;
+
+/**
+ * Checks a value against a JSON Schema, returning a description of each
+ * mismatch. Supports type, enum, const, properties, required,
+ * additionalProperties, items and anyOf.
+ */
+export const validateJsonSchema = (value: unknown, schema: JsonSchema, at = '$'): string[] => {
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => _matchesType(value, type))) {
+      return [`${at} should be ${types.join(' or ')}`];
+    }
+  }
+  const issues: string[] = [];
+  if (schema.enum !== undefined && !schema.enum.some((option) => _jsonEquals(option, value))) {
+    issues.push(`${at} should be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if (Object.hasOwn(schema, 'const') && !_jsonEquals(schema.const, value)) {
+    issues.push(`${at} should be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.anyOf !== undefined && !schema.anyOf.some((option) => _isValid(value, option, at))) {
+    issues.push(`${at} matches none of the allowed schemas`);
+  }
+  if (isPlainObject(value)) {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!Object.hasOwn(record, key)) issues.push(`${at}.${key} is required`);
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema !== undefined) {
+        issues.push(...validateJsonSchema(item, propertySchema, `${at}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        issues.push(`${at}.${key} is not allowed`);
+      } else if (isPlainObject(schema.additionalProperties)) {
+        issues.push(
+          ...validateJsonSchema(item, schema.additionalProperties as JsonSchema, `${at}.${key}`)
+        );
+      }
+    }
+  }
+  if (Array.isArray(value) && schema.items !== undefined) {
+    const itemSchema = schema.items;
+    value.forEach((item, index) => {
+      issues.push(...validateJsonSchema(item, itemSchema, `${at}[${index}]`));
+    });
+  }
+  return issues;
+};
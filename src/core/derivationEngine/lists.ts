@@ -0,0 +1,36 @@
+import { DependencyTree, StepParams } from '../db/types.js';
+
+/**
+ * Values are stored as text. Lists are stored as a JSON array of strings and
+ * are told apart by the operation that produced them.
+ */
+export type ValueType = 'text' | 'list';
+
+const listOperations: StepParams['operation'][] = ['split', 'map', 'glob'];
+
+export const getOutputValueType = (operation: StepParams['operation']): ValueType =>
+  listOperations.includes(operation) ? 'list' : 'text';
+
+export const getDependencyValueType = (dependency: DependencyTree[number]): ValueType =>
+  dependency.type === 'derivation' || dependency.type === 'computed_step'
+    ? getOutputValueType(dependency.operation)
+    : 'text';
+
+/** For errors about text given where a list was expected */
+export const describeTextSource = (dependency: DependencyTree[number]): string =>
+  dependency.type === 'derivation' || dependency.type === 'computed_step'
+    ? `text from ${dependency.operation}()`
+    : `text (${dependency.type})`;
+
+export const encodeList = (items: string[]): string => JSON.stringify(items);
+
+export const decodeList = (content: string): string[] | undefined => {
+  try {
+    const parsed: unknown = JSON.parse(content);
+    return Array.isArray(parsed) && parsed.every((item) => typeof item === 'string')
+      ? parsed
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
@@ -1,16 +1,93 @@
-import { generateText as _generateText } from 'ai';
-import { LlmModel } from '../../db/types.js';
+import {
+  generateObject as _generateObject,
+  generateText as _generateText,
+  jsonSchema,
+  JSONSchema7,
+  streamText as _streamText
+} from 'ai';
+import { LlmModel, LlmSamplingParams } from '../../db/types.js';
+import { LlmMessage } from '../../types.js';
 import { getModel } from './models.js';
 import type { ConfigType } from '@config/types.js';
 
+type LlmPrompt = string | LlmMessage[];
+
+// conversations go through the messages API
+const _toPrompt = (prompt: LlmPrompt) =>
+  typeof prompt === 'string' ? { prompt } : { messages: prompt };
+
+const _toCallSettings = (sampling: LlmSamplingParams | undefined) => ({
+  temperature: sampling?.temperature,
+  maxOutputTokens: sampling?.maxTokens,
+  topP: sampling?.topP,
+  seed: sampling?.seed,
+  stopSequences: sampling?.stop
+});
+
 export const callLlm = async (
-  opts: { model: LlmModel; systemPrompt: string; prompt: string },
+  opts: { model: LlmModel; systemPrompt: string; prompt: LlmPrompt; sampling?: LlmSamplingParams },
   config: ConfigType
 ) => {
   const response = await _generateText({
     model: await getModel(opts.model, config),
     system: opts.systemPrompt,
-    prompt: opts.prompt
+    ..._toPrompt(opts.prompt),
+    ..._toCallSettings(opts.sampling)
   });
   return response;
 };
+
+/**
+ * Like callLlm, but has the model answer with JSON matching the schema, using
+ * the provider's structured output where it has one.
+ */
+export const callLlmObject = async (
+  opts: {
+    model: LlmModel;
+    systemPrompt: string;
+    prompt: LlmPrompt;
+    sampling?: LlmSamplingParams;
+    schema: JSONSchema7;
+  },
+  config: ConfigType
+) => {
+  const response = await _generateObject({
+    model: await getModel(opts.model, config),
+    system: opts.systemPrompt,
+    ..._toPrompt(opts.prompt),
+    ..._toCallSettings(opts.sampling),
+    schema: jsonSchema(opts.schema)
+  });
+  return { text: JSON.stringify(response.object), usage: response.usage };
+};
+
+/**
+ * Like callLlm, but forwards text deltas to onChunk as they arrive. Resolves
+ * with the complete text once the stream has finished.
+ */
+export const streamLlm = async (
+  opts: { model: LlmModel; systemPrompt: string; prompt: LlmPrompt; sampling?: LlmSamplingParams },
+  config: ConfigType,
+  onChunk: (chunk: string) => void
+) => {
+  let streamError: unknown;
+  const response = _streamText({
+    model: await getModel(opts.model, config),
+    system: opts.systemPrompt,
+    ..._toPrompt(opts.prompt),
+    ..._toCallSettings(opts.sampling),
+    // surface provider errors to the caller instead of the default console log
+    onError: ({ error }) => {
+      streamError = error;
+    }
+  });
+
+  for await (const chunk of response.textStream) {
+    onChunk(chunk);
+  }
+  if (streamError !== undefined) {
+    throw streamError;
+  }
+
+  return { text: await response.text, usage: await response.usage };
+};
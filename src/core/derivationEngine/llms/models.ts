@@ -1,11 +1,12 @@
 import { LanguageModel } from 'ai';
 import { LlmModel } from '../../db/types.js';
-import { getOpenAI, getOpenRouter } from '../../config.js';
+import { getLocalLlm, getOpenAI, getOpenRouter } from '../../config.js';
 import type { ConfigType } from '@config/types.js';
-import { llmModels, getAlias } from '@lang-data/models.js';
+import { findLlmModel } from '@lang-data/models.js';
+import { DEFAULT_INPUT_TOKEN_LIMIT, ESTIMATED_COMPLETION_TOKENS } from '../constants.js';
 
 export const getModel = async (model: LlmModel, config: ConfigType): Promise<LanguageModel> => {
-  const modelDef = llmModels.find((m) => getAlias(m) === model);
+  const modelDef = findLlmModel(model);
   if (!modelDef) {
     throw new Error(`Unknown model: ${model}`);
   }
@@ -13,8 +14,25 @@ export const getModel = async (model: LlmModel, config: ConfigType): Promise<Lan
   if (modelDef.provider === 'openai') {
     const openai = await getOpenAI(config);
     return openai(modelDef.modelId);
+  } else if (modelDef.provider === 'local') {
+    const local = await getLocalLlm(config);
+    // compatible servers implement chat completions rather than the responses API
+    return local.chat(modelDef.modelId);
   } else {
     const openrouter = await getOpenRouter(config);
     return openrouter(modelDef.modelId);
   }
 };
+
+/**
+ * How many tokens of input (system prompt included) a model takes: its context
+ * window less room for the answer, or a conservative default when the window
+ * isn't known.
+ */
+export const getInputTokenLimit = (model: string): number => {
+  const contextWindow = findLlmModel(model)?.contextWindow;
+  if (contextWindow === undefined) {
+    return DEFAULT_INPUT_TOKEN_LIMIT;
+  }
+  return Math.max(contextWindow - ESTIMATED_COMPLETION_TOKENS, 1);
+};
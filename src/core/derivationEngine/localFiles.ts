@@ -0,0 +1,107 @@
+import path from 'path';
+import { realpath } from 'fs/promises';
+import { glob } from 'tinyglobby';
+import { readFileSafe } from '../utils.js';
+import { ReadErrorInfo, getReadErrorInfo } from './errors.js';
+
+/**
+ * Reads behind readFile and glob. Paths are relative to the watched directory
+ * and may not leave it; the paths returned are absolute, like the watcher's.
+ * Files are read from disk every time, so edits are seen whether or not the
+ * watcher is running.
+ */
+
+type LocalFileResult<T> = ({ success: true } & T) | { success: false; error: ReadErrorInfo };
+
+const _isInside = (directory: string, filePath: string) => {
+  const relative = path.relative(directory, filePath);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+};
+
+const _hasParentSegment = (filePath: string) => filePath.split(/[\\/]/).includes('..');
+
+const _realpathSafe = async (filePath: string): Promise<string | undefined> => {
+  try {
+    return await realpath(filePath);
+  } catch {
+    return undefined;
+  }
+};
+
+// symlinks are followed, so containment is checked on real paths
+const _isReallyInside = async (
+  watched: { realDirectory: string },
+  absolutePath: string
+): Promise<'inside' | 'outside' | 'missing'> => {
+  const realPath = await _realpathSafe(absolutePath);
+  if (realPath === undefined) return 'missing';
+  return _isInside(watched.realDirectory, realPath) ? 'inside' : 'outside';
+};
+
+const _getWatchedDirectory = async (
+  watchedDirectory: string | undefined
+): Promise<LocalFileResult<{ directory: string; realDirectory: string }>> => {
+  if (watchedDirectory === undefined) {
+    return { success: false, error: getReadErrorInfo('watchedDirectoryNotConfigured') };
+  }
+  const directory = path.resolve(watchedDirectory);
+  return {
+    success: true,
+    directory,
+    realDirectory: (await _realpathSafe(directory)) ?? directory
+  };
+};
+
+export const readWatchedFile = async (
+  watchedDirectory: string | undefined,
+  filePath: string
+): Promise<LocalFileResult<{ path: string; content: string }>> => {
+  const watched = await _getWatchedDirectory(watchedDirectory);
+  if (!watched.success) return watched;
+  const absolutePath = path.resolve(watched.directory, filePath);
+  const location = _isInside(watched.directory, absolutePath)
+    ? await _isReallyInside(watched, absolutePath)
+    : 'outside';
+  if (location === 'outside') {
+    return {
+      success: false,
+      error: getReadErrorInfo('pathOutsideWatchedDirectory', { path: filePath })
+    };
+  }
+  const file = location === 'inside' ? await readFileSafe(absolutePath) : undefined;
+  return file?.success
+    ? { success: true, path: absolutePath, content: file.file }
+    : { success: false, error: getReadErrorInfo('fileNotFound', { path: filePath }) };
+};
+
+/**
+ * The files matching the pattern, in path order; matching none is not an error.
+ * Patterns may not contain `..`, and matches that are symlinks out of the
+ * watched directory are left out.
+ */
+export const readWatchedGlob = async (
+  watchedDirectory: string | undefined,
+  pattern: string
+): Promise<LocalFileResult<{ files: { path: string; content: string }[] }>> => {
+  const watched = await _getWatchedDirectory(watchedDirectory);
+  if (!watched.success) return watched;
+  const relativePattern = path.isAbsolute(pattern)
+    ? path.relative(watched.directory, pattern)
+    : pattern;
+  if (_hasParentSegment(relativePattern)) {
+    return {
+      success: false,
+      error: getReadErrorInfo('pathOutsideWatchedDirectory', { path: pattern })
+    };
+  }
+  const matches = await glob(relativePattern, { cwd: watched.directory, onlyFiles: true });
+  const files: { path: string; content: string }[] = [];
+  for (const match of matches.sort()) {
+    const absolutePath = path.resolve(watched.directory, match);
+    if ((await _isReallyInside(watched, absolutePath)) !== 'inside') continue;
+    const file = await readFileSafe(absolutePath);
+    // deleted since it was matched
+    if (file.success) files.push({ path: absolutePath, content: file.file });
+  }
+  return { success: true, files };
+};
@@ -1,3 +1,5 @@
+import { randomUUID } from 'crypto';
+import { JSONSchema7, NoObjectGeneratedError } from 'ai';
 import { AppDal } from '../db/app_dal.js';
 import {
   logDerivationInputReadError,
@@ -12,20 +14,58 @@ import {
   TestConstantDerivationParams,
   GetUrlContentDerivationParams,
   OperationWarning,
-  ConcatDerivationParams
+  ConcatDerivationParams,
+  SplitDerivationParams,
+  MapDerivationParams,
+  JoinDerivationParams,
+  ReplaceDerivationParams,
+  ExtractDerivationParams,
+  LinesDerivationParams,
+  TrimDerivationParams,
+  UpperDerivationParams,
+  LowerDerivationParams,
+  TemplateDerivationParams,
+  JsonDerivationParams,
+  LlmJsonDerivationParams,
+  IfDerivationParams,
+  SwitchDerivationParams,
+  ChatDerivationParams,
+  ReadFileDerivationParams,
+  GlobDerivationParams,
+  LlmModel,
+  getSystemPrompt,
+  llmSamplingParamKeys
 } from '../db/types.js';
-import { isNil } from 'lodash-es';
+import { isNil, pick, range, sum, zipWith } from 'lodash-es';
 import { ReadErrorInfo, getReadErrorInfo } from './errors.js';
-import { CONTEXT_WINDOW_LIMIT_CHARS } from './constants.js';
-import { Prettify } from '../types.js';
-import { callLlm } from './llms';
+import { ESTIMATED_COMPLETION_TOKENS, MIN_CHUNK_SUMMARY_TOKENS } from './constants.js';
+import { getInputTokenLimit } from './llms/models.js';
+import { chunkTokens, countTokens, truncateTokens } from './tokenizer.js';
+import { LlmInputData, LlmMessage, Prettify } from '../types.js';
 import type { ConfigType } from '@config/types.js';
+import { RateLimiter } from '../limiting';
+import { estimateTokens } from './readPlan.js';
 import { OperationOptions } from './types.js';
+import { decodeList, encodeList, ValueType } from './lists.js';
+import { compilePattern, extractMatch, fillTemplate, sliceLines } from './text.js';
+import {
+  canonicalJson,
+  evaluateJsonPath,
+  formatJsonValue,
+  parseJson,
+  parseJsonSchema,
+  validateJsonSchema
+} from './json.js';
+import type { LlmUsageEntry } from '../db/contentService.js';
 
 type OperationResult = {
   output?: string;
   error?: string;
+  // for failures with their own error kind
+  readError?: ReadErrorInfo;
   warnings: OperationWarning[];
+  // set when the operation made a (billable) model call
+  usage?: Omit<LlmUsageEntry, 'cacheHit'>;
 };
 
 type Operations = StepParams['operation'];
@@ -36,6 +76,30 @@ type OperationInputMap = {
   getUrlContent: [string];
   concat: [string, ...string[]];
   testConstant: string[];
+  split: [string, string];
+  // the list, then each element's result
+  map: [string, ...string[]];
+  join: [string] | [string, string];
+  replace: [string];
+  extract: [string];
+  lines: [string];
+  trim: [string];
+  upper: [string];
+  lower: [string];
+  // the template, then its values
+  template: [string, ...string[]];
+  json: [string];
+  // the input, then the schema
+  llmJson: [string, string];
+  // the condition or value, then the result of the branch taken (if it has one)
+  if: [string] | [string, string];
+  switch: [string, string];
+  // the messages, in conversation order
+  chat: [string, ...string[]];
+  // the file's content
+  readFile: [string];
+  // the contents of the matching files, as a list
+  glob: [string];
 };
 type OperationParams = {
   [K in Operations]: (
@@ -49,7 +113,9 @@ type OperationParams = {
 export const performOperation = async (
   appDal: AppDal,
   inputContentHashes: string[],
+  inputValueTypes: ValueType[],
   recipeParams: StepParams,
+  limiter: RateLimiter,
   config: ConfigType,
   logging: { derivationId: string },
   options?: Partial<OperationOptions>
@@ -89,12 +155,20 @@ export const performOperation = async (
   }
 
   // all content must have succeeded or have been caught by the find above
-  const inputContent = contentsPerInput.map((content) => content.content!);
+  const rawInputContent = contentsPerInput.map((content) => content.content!);
+
+  // lists are collapsed into their elements where text is concatenated
+  const inputContent =
+    recipeParams.operation === 'concat'
+      ? rawInputContent.flatMap((content, index) =>
+          inputValueTypes[index] === 'list' ? (decodeList(content) ?? [content]) : [content]
+        )
+      : rawInputContent;
 
   const operationToAction: OperationParams = {
     llm: (...rest) => {
       logDerivationOperationStart(derivationId, 'LLM');
-      return _executeLlmOperation(config, ...rest);
+      return _executeLlmOperation(limiter, config, ...rest);
     },
     identity: (...rest) => {
       logDerivationOperationStart(derivationId, 'Identity');
@@ -111,6 +185,74 @@ export const performOperation = async (
     getUrlContent: (...rest) => {
       logDerivationOperationStart(derivationId, 'Get URL Content');
       return _executeGetUrlContentOperation(...rest);
+    },
+    split: (...rest) => {
+      logDerivationOperationStart(derivationId, 'Split');
+      return _executeSplitOperation(...rest);
+    },
+    map: (...rest) => {
+      logDerivationOperationStart(derivationId, 'Map');
+      return _executeMapOperation(...rest);
+    },
+    join: (...rest) => {
+      logDerivationOperationStart(derivationId, 'Join');
+      return _executeJoinOperation(...rest);
+    },
+    replace: (...rest) => {
+      logDerivationOperationStart(derivationId, 'Replace');
+      return _executeReplaceOperation(...rest);
+    },
+    extract: (...rest) => {
+      logDerivationOperationStart(derivationId, 'Extract');
+      return _executeExtractOperation(...rest);
+    },
+    lines: (...rest) => {
+      logDerivationOperationStart(derivationId, 'Lines');
+      return _executeLinesOperation(...rest);
+    },
+    trim: (...rest) => {
+      logDerivationOperationStart(derivationId, 'Trim');
+      return _executeTrimOperation(...rest);
+    },
+    upper: (...rest) => {
+      logDerivationOperationStart(derivationId, 'Upper');
+      return _executeUpperOperation(...rest);
+    },
+    lower: (...rest) => {
+      logDerivationOperationStart(derivationId, 'Lower');
+      return _executeLowerOperation(...rest);
+    },
+    template: (...rest) => {
+      logDerivationOperationStart(derivationId, 'Template');
+      return _executeTemplateOperation(...rest);
+    },
+    json: (...rest) => {
+      logDerivationOperationStart(derivationId, 'JSON');
+      return _executeJsonOperation(...rest);
+    },
+    llmJson: (...rest) => {
+      logDerivationOperationStart(derivationId, 'LLM JSON');
+      return _executeLlmJsonOperation(limiter, config, ...rest);
+    },
+    if: (...rest) => {
+      logDerivationOperationStart(derivationId, 'If');
+      return _executeBranchOperation(...rest);
+    },
+    switch: (...rest) => {
+      logDerivationOperationStart(derivationId, 'Switch');
+      return _executeBranchOperation(...rest);
+    },
+    chat: (...rest) => {
+      logDerivationOperationStart(derivationId, 'Chat');
+      return _executeChatOperation(limiter, config, ...rest);
+    },
+    readFile: (...rest) => {
+      logDerivationOperationStart(derivationId, 'Read File');
+      return _executeLocalFileOperation(...rest);
+    },
+    glob: (...rest) => {
+      logDerivationOperationStart(derivationId, 'Glob');
+      return _executeLocalFileOperation(...rest);
     }
   };
 
@@ -154,7 +296,11 @@ export const performOperation = async (
 };
 
 export const readOperationOptions = (opts?: Partial<OperationOptions>): OperationOptions => {
-  return { environment: opts?.environment ?? 'production' };
+  return {
+    environment: opts?.environment ?? 'production',
+    onChunk: opts?.onChunk,
+    limitCalls: opts?.limitCalls
+  };
 };
 
 const _executeOperation = async <P extends StepParams, InputContent extends string[]>(
@@ -184,7 +330,181 @@ const _executeOperation = async <P extends StepParams, InputContent extends stri
   return await doOperation(inputContent, params);
 };
 
+type ModelCaller = {
+  call: (input: Omit<LlmInputData, 'model'>) => Promise<string>;
+  // added up over every call made, undefined before the first
+  usage: () => OperationResult['usage'];
+};
+
+const _promptText = (prompt: LlmInputData['prompt']) =>
+  typeof prompt === 'string' ? prompt : prompt.map((message) => message.content).join('');
+
+/**
+ * Calls the step's model, through the queue. During test the model echoes its
+ * prompt (the last message of a conversation), cut to maxTokens.
+ */
+const _modelCaller = (
+  limiter: RateLimiter,
+  model: LlmModel,
+  logging: { derivationId: string },
+  options?: Partial<OperationOptions>
+): ModelCaller => {
+  let usage: OperationResult['usage'];
+  const operationOptions = readOperationOptions(options);
+  const limitCalls = operationOptions.limitCalls ?? ((task) => task());
+  return {
+    call: async (input) => {
+      if (operationOptions.environment === 'test') {
+        const echo =
+          typeof input.prompt === 'string' ? input.prompt : (input.prompt.at(-1)?.content ?? '');
+        const maxTokens = input.sampling?.maxTokens;
+        return maxTokens === undefined ? echo : truncateTokens(echo, maxTokens, 'tail');
+      }
+      // the queue reserves an estimate up front and settles it with the real usage
+      const response = await limitCalls(() =>
+        limiter.enqueue(
+          model,
+          `${logging.derivationId}:${randomUUID()}`,
+          { model, ...input },
+          {
+            tokens:
+              estimateTokens(
+                input.systemPrompt +
+                  _promptText(input.prompt) +
+                  (input.schema ? JSON.stringify(input.schema) : '')
+              ) + ESTIMATED_COMPLETION_TOKENS,
+            adjustTokens: ({ usage }) => usage.promptTokens + usage.completionTokens
+          }
+        )
+      );
+      usage = {
+        modelName: model,
+        promptTokens: (usage?.promptTokens ?? 0) + response.usage.promptTokens,
+        completionTokens: (usage?.completionTokens ?? 0) + response.usage.completionTokens
+      };
+      return response.text;
+    },
+    usage: () => usage
+  };
+};
+
+/** The model's input limit less what's sent alongside the input, e.g. the system prompt */
+const _inputTokenLimit = (model: LlmModel, sentAlongside: string) =>
+  Math.max(getInputTokenLimit(model) - countTokens(sentAlongside), 1);
+
+/** The system prompt for summarizing one chunk of a map-reduce input */
+export const chunkSummaryPrompt = (task: string) =>
+  `This is one part of an input too long to read at once. Summarize it, keeping everything needed for this task:\n\n${task}`;
+
+/**
+ * Summarizes each chunk of the input for the task, then the joined summaries
+ * again until they fit. A summary may take an equal share of the limit, but at
+ * least MIN_CHUNK_SUMMARY_TOKENS and at most half a chunk, so each round
+ * shrinks the text.
+ */
+const _summarizeToFit = async (
+  input: string,
+  limit: number,
+  params: LlmDerivationParams | LlmJsonDerivationParams,
+  caller: ModelCaller
+): Promise<string> => {
+  const systemPrompt = chunkSummaryPrompt(params.prompt);
+  const chunkLimit = _inputTokenLimit(params.model, systemPrompt);
+  let text = input;
+  let tokens = countTokens(text);
+  while (tokens > limit) {
+    const chunks = chunkTokens(text, chunkLimit);
+    const share = Math.max(Math.floor(limit / chunks.length), MIN_CHUNK_SUMMARY_TOKENS);
+    const maxTokens = Math.max(Math.min(share, Math.floor(chunkLimit / 2)), 1);
+    const summaries = await Promise.all(
+      chunks.map((chunk) => caller.call({ systemPrompt, prompt: chunk, sampling: { maxTokens } }))
+    );
+    const joined = summaries.join('\n\n');
+    const joinedTokens = countTokens(joined);
+    // the model's tokenizer can differ from ours; don't loop if it made no headway
+    if (joinedTokens >= tokens) break;
+    text = joined;
+    tokens = joinedTokens;
+  }
+  return truncateTokens(text, limit, 'head');
+};
+
+type FitResult<T> =
+  | { success: true; fitted: T; warnings: OperationWarning[] }
+  | { success: false; readError: ReadErrorInfo };
+
+const _inputTooLarge = (inputTokens: number, inputTokenLimit: number): FitResult<never> => ({
+  success: false,
+  readError: getReadErrorInfo('inputTooLarge', { inputTokens, inputTokenLimit })
+});
+
+/** Fits input that doesn't fit the model's context window as the step's overflow says */
+const _fitContextWindow = async (
+  input: string,
+  params: LlmDerivationParams | LlmJsonDerivationParams,
+  sentAlongside: string,
+  caller: ModelCaller,
+  logging: { derivationId: string }
+): Promise<FitResult<string>> => {
+  const limit = _inputTokenLimit(params.model, sentAlongside);
+  const inputTokens = countTokens(input);
+  if (inputTokens <= limit) {
+    return { success: true, fitted: input, warnings: [] };
+  }
+  const strategy = params.overflow ?? 'truncate-head';
+  logDerivationInputTooLarge(logging.derivationId, inputTokens, limit, strategy);
+  if (strategy === 'error') {
+    return _inputTooLarge(inputTokens, limit);
+  }
+  return {
+    success: true,
+    fitted:
+      strategy === 'map-reduce'
+        ? await _summarizeToFit(input, limit, params, caller)
+        : truncateTokens(input, limit, strategy === 'truncate-head' ? 'head' : 'tail'),
+    warnings: [{ type: 'inputTooLarge', inputTokens, inputTokenLimit: limit, strategy }]
+  };
+};
+
+/**
+ * Keeps the latest messages that fit the context window (truncate-head) or the
+ * earliest (truncate-tail), cutting the last one kept
+ */
+const _fitConversation = (
+  messages: LlmMessage[],
+  params: ChatDerivationParams,
+  logging: { derivationId: string }
+): FitResult<LlmMessage[]> => {
+  const limit = _inputTokenLimit(params.model, getSystemPrompt(params));
+  const messageTokens = messages.map((message) => countTokens(message.content));
+  const inputTokens = sum(messageTokens);
+  if (inputTokens <= limit) {
+    return { success: true, fitted: messages, warnings: [] };
+  }
+  const strategy = params.overflow ?? 'truncate-head';
+  logDerivationInputTooLarge(logging.derivationId, inputTokens, limit, strategy);
+  if (strategy === 'error') {
+    return _inputTooLarge(inputTokens, limit);
+  }
+  const drop = strategy === 'truncate-head' ? 'head' : 'tail';
+  const order = range(messages.length);
+  const kept: LlmMessage[] = [];
+  let remaining = limit;
+  for (const index of drop === 'head' ? order.reverse() : order) {
+    if (remaining <= 0) break;
+    const message = messages[index]!;
+    kept.push({ ...message, content: truncateTokens(message.content, remaining, drop) });
+    remaining -= messageTokens[index]!;
+  }
+  return {
+    success: true,
+    fitted: drop === 'head' ? kept.reverse() : kept,
+    warnings: [{ type: 'inputTooLarge', inputTokens, inputTokenLimit: limit, strategy }]
+  };
+};
+
 async function _executeLlmOperation(
+  limiter: RateLimiter,
   config: ConfigType,
   inputContent: [string],
   params: LlmDerivationParams,
@@ -195,43 +515,21 @@ async function _executeLlmOperation(
     inputContent,
     params,
     async (content, params) => {
-      let llmInput = content[0];
-
-      const warnings: OperationWarning[] = [];
-
-      if (llmInput.length > CONTEXT_WINDOW_LIMIT_CHARS) {
-        logDerivationInputTooLarge(
-          logging.derivationId,
-          llmInput.length,
-          CONTEXT_WINDOW_LIMIT_CHARS
-        );
-        warnings.push({
-          type: 'inputTooLarge',
-          inputContentLength: llmInput.length,
-          contextWindowLimit: CONTEXT_WINDOW_LIMIT_CHARS
-        });
-        llmInput = llmInput.slice(-CONTEXT_WINDOW_LIMIT_CHARS);
-      }
-
-      const model = params.model;
+      const caller = _modelCaller(limiter, params.model, logging, options);
       const systemPrompt = params.prompt;
 
-      const operationOptions = readOperationOptions(options);
-
-      if (operationOptions.environment === 'test') {
-        // behave like identity during test
-        return { output: llmInput, warnings };
+      const fit = await _fitContextWindow(content[0], params, systemPrompt, caller, logging);
+      if (!fit.success) {
+        return { readError: fit.readError, warnings: [] };
       }
 
-      const response = await callLlm(
-        {
-          model,
-          systemPrompt,
-          prompt: llmInput
-        },
-        config
-      );
-      return { output: response.text, warnings };
+      const output = await caller.call({
+        systemPrompt,
+        prompt: fit.fitted,
+        sampling: pick(params, llmSamplingParamKeys),
+        onChunk: readOperationOptions(options).onChunk
+      });
+      return { output, warnings: fit.warnings, usage: caller.usage() };
     },
     options,
     { simulateDelay: true }
@@ -308,3 +606,386 @@ async function _executeGetUrlContentOperation(
     { simulateDelay: false }
   );
 }
+
+async function _executeSplitOperation(
+  inputContent: [string, string],
+  params: SplitDerivationParams,
+  logging: { derivationId: string },
+  options?: Partial<OperationOptions>
+): Promise<OperationResult> {
+  return await _executeOperation<SplitDerivationParams, [string, string]>(
+    inputContent,
+    params,
+    async ([text, separator]) => {
+      // surrounding whitespace and blank elements (e.g., a trailing newline) are dropped
+      const items = text
+        .split(separator)
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0);
+      return { output: encodeList(items), warnings: [] };
+    },
+    options,
+    { simulateDelay: false }
+  );
+}
+
+/**
+ * Each element is computed as its own step before the map runs, so this only
+ * collects their results.
+ */
+async function _executeMapOperation(
+  inputContent: [string, ...string[]],
+  params: MapDerivationParams,
+  logging: { derivationId: string },
+  options?: Partial<OperationOptions>
+): Promise<OperationResult> {
+  return await _executeOperation<MapDerivationParams, [string, ...string[]]>(
+    inputContent,
+    params,
+    async ([, ...results]) => {
+      return { output: encodeList(results), warnings: [] };
+    },
+    options,
+    { simulateDelay: false }
+  );
+}
+
+async function _executeJoinOperation(
+  inputContent: [string] | [string, string],
+  params: JoinDerivationParams,
+  logging: { derivationId: string },
+  options?: Partial<OperationOptions>
+): Promise<OperationResult> {
+  return await _executeOperation<JoinDerivationParams, [string] | [string, string]>(
+    inputContent,
+    params,
+    async ([list, separator]) => {
+      const items = decodeList(list);
+      if (isNil(items)) {
+        return { error: 'Input is not a valid list', warnings: [] };
+      }
+      return { output: items.join(separator ?? '\n'), warnings: [] };
+    },
+    options,
+    { simulateDelay: false }
+  );
+}
+
+async function _executeReplaceOperation(
+  inputContent: [string],
+  params: ReplaceDerivationParams,
+  logging: { derivationId: string },
+  options?: Partial<OperationOptions>
+): Promise<OperationResult> {
+  return await _executeOperation<ReplaceDerivationParams, [string]>(
+    inputContent,
+    params,
+    async ([text], params) => {
+      const compiled = compilePattern(params.pattern, 'gm');
+      if (!compiled.success) {
+        return { error: compiled.error, warnings: [] };
+      }
+      return { output: text.replace(compiled.regex, params.with ?? ''), warnings: [] };
+    },
+    options,
+    { simulateDelay: false }
+  );
+}
+
+async function _executeExtractOperation(
+  inputContent: [string],
+  params: ExtractDerivationParams,
+  logging: { derivationId: string },
+  options?: Partial<OperationOptions>
+): Promise<OperationResult> {
+  return await _executeOperation<ExtractDerivationParams, [string]>(
+    inputContent,
+    params,
+    async ([text], params) => {
+      const compiled = compilePattern(params.regex, 'm');
+      if (!compiled.success) {
+        return { error: compiled.error, warnings: [] };
+      }
+      const extracted = extractMatch(text, compiled.regex, params.group ?? 0);
+      if (!extracted.success) {
+        return { error: extracted.error, warnings: [] };
+      }
+      return { output: extracted.output, warnings: [] };
+    },
+    options,
+    { simulateDelay: false }
+  );
+}
+
+async function _executeLinesOperation(
+  inputContent: [string],
+  params: LinesDerivationParams,
+  logging: { derivationId: string },
+  options?: Partial<OperationOptions>
+): Promise<OperationResult> {
+  return await _executeOperation<LinesDerivationParams, [string]>(
+    inputContent,
+    params,
+    async ([text], params) => {
+      return { output: sliceLines(text, params.from, params.to), warnings: [] };
+    },
+    options,
+    { simulateDelay: false }
+  );
+}
+
+async function _executeTrimOperation(
+  inputContent: [string],
+  params: TrimDerivationParams,
+  logging: { derivationId: string },
+  options?: Partial<OperationOptions>
+): Promise<OperationResult> {
+  return await _executeOperation<TrimDerivationParams, [string]>(
+    inputContent,
+    params,
+    async ([text]) => {
+      return { output: text.trim(), warnings: [] };
+    },
+    options,
+    { simulateDelay: false }
+  );
+}
+
+async function _executeUpperOperation(
+  inputContent: [string],
+  params: UpperDerivationParams,
+  logging: { derivationId: string },
+  options?: Partial<OperationOptions>
+): Promise<OperationResult> {
+  return await _executeOperation<UpperDerivationParams, [string]>(
+    inputContent,
+    params,
+    async ([text]) => {
+      return { output: text.toUpperCase(), warnings: [] };
+    },
+    options,
+    { simulateDelay: false }
+  );
+}
+
+async function _executeLowerOperation(
+  inputContent: [string],
+  params: LowerDerivationParams,
+  logging: { derivationId: string },
+  options?: Partial<OperationOptions>
+): Promise<OperationResult> {
+  return await _executeOperation<LowerDerivationParams, [string]>(
+    inputContent,
+    params,
+    async ([text]) => {
+      return { output: text.toLowerCase(), warnings: [] };
+    },
+    options,
+    { simulateDelay: false }
+  );
+}
+
+async function _executeTemplateOperation(
+  inputContent: [string, ...string[]],
+  params: TemplateDerivationParams,
+  logging: { derivationId: string },
+  options?: Partial<OperationOptions>
+): Promise<OperationResult> {
+  return await _executeOperation<TemplateDerivationParams, [string, ...string[]]>(
+    inputContent,
+    params,
+    async ([template, ...values]) => {
+      return { output: fillTemplate(template, values), warnings: [] };
+    },
+    options,
+    { simulateDelay: false }
+  );
+}
+
+async function _executeJsonOperation(
+  inputContent: [string],
+  params: JsonDerivationParams,
+  logging: { derivationId: string },
+  options?: Partial<OperationOptions>
+): Promise<OperationResult> {
+  return await _executeOperation<JsonDerivationParams, [string]>(
+    inputContent,
+    params,
+    async ([text], params) => {
+      const parsed = parseJson(text, 'The input');
+      if (!parsed.success) {
+        return {
+          readError: getReadErrorInfo('invalidJson', { operation: 'json', reason: parsed.error }),
+          warnings: []
+        };
+      }
+      const selected = evaluateJsonPath(parsed.value, params.path ?? '$');
+      if (!selected.success) {
+        return {
+          readError: getReadErrorInfo('invalidJson', { operation: 'json', reason: selected.error }),
+          warnings: []
+        };
+      }
+      return { output: formatJsonValue(selected.value), warnings: [] };
+    },
+    options,
+    { simulateDelay: false }
+  );
+}
+
+/**
+ * Output is checked against the schema even when the provider enforces it,
+ * since not every provider does.
+ */
+async function _executeLlmJsonOperation(
+  limiter: RateLimiter,
+  config: ConfigType,
+  inputContent: [string, string],
+  params: LlmJsonDerivationParams,
+  logging: { derivationId: string },
+  options?: Partial<OperationOptions>
+): Promise<OperationResult> {
+  return await _executeOperation<LlmJsonDerivationParams, [string, string]>(
+    inputContent,
+    params,
+    async ([input, schemaText], params) => {
+      const invalidJson = (reason: string) =>
+        getReadErrorInfo('invalidJson', { operation: 'llmJson', reason });
+
+      const schema = parseJsonSchema(schemaText);
+      if (!schema.success) {
+        return { readError: invalidJson(schema.error), warnings: [] };
+      }
+
+      const caller = _modelCaller(limiter, params.model, logging, options);
+      const systemPrompt = params.prompt;
+
+      const fit = await _fitContextWindow(
+        input,
+        params,
+        systemPrompt + schemaText,
+        caller,
+        logging
+      );
+      if (!fit.success) {
+        return { readError: fit.readError, warnings: [] };
+      }
+      const { warnings } = fit;
+
+      let outputText: string;
+      try {
+        outputText = await caller.call({
+          systemPrompt,
+          prompt: fit.fitted,
+          sampling: pick(params, llmSamplingParamKeys),
+          schema: schema.value as JSONSchema7
+        });
+      } catch (error) {
+        if (NoObjectGeneratedError.isInstance(error)) {
+          return {
+            readError: invalidJson(`The model did not answer with valid JSON (${error.message})`),
+            warnings,
+            usage: caller.usage()
+          };
+        }
+        throw error;
+      }
+      const usage = caller.usage();
+
+      const output = parseJson(outputText, 'The model output');
+      if (!output.success) {
+        return { readError: invalidJson(output.error), warnings, usage };
+      }
+      const issues = validateJsonSchema(output.value, schema.value);
+      if (issues.length > 0) {
+        return {
+          readError: invalidJson(
+            `The model output does not match the schema: ${issues.join('; ')}`
+          ),
+          warnings,
+          usage
+        };
+      }
+      return { output: canonicalJson(output.value), warnings, usage };
+    },
+    options,
+    { simulateDelay: true }
+  );
+}
+
+/**
+ * Only the branch taken is read, before the operation runs, so this passes its
+ * result on.
+ */
+async function _executeBranchOperation(
+  inputContent: [string] | [string, string],
+  params: IfDerivationParams | SwitchDerivationParams,
+  logging: { derivationId: string },
+  options?: Partial<OperationOptions>
+): Promise<OperationResult> {
+  return await _executeOperation<
+    IfDerivationParams | SwitchDerivationParams,
+    [string] | [string, string]
+  >(
+    inputContent,
+    params,
+    async ([, branchResult]) => {
+      return { output: branchResult ?? '', warnings: [] };
+    },
+    options,
+    { simulateDelay: false }
+  );
+}
+
+async function _executeChatOperation(
+  limiter: RateLimiter,
+  config: ConfigType,
+  inputContent: [string, ...string[]],
+  params: ChatDerivationParams,
+  logging: { derivationId: string },
+  options?: Partial<OperationOptions>
+): Promise<OperationResult> {
+  return await _executeOperation<ChatDerivationParams, [string, ...string[]]>(
+    inputContent,
+    params,
+    async (content, params) => {
+      const messages = zipWith(params.roles, content, (role, text) => ({ role, content: text }));
+      const fit = _fitConversation(messages, params, logging);
+      if (!fit.success) {
+        return { readError: fit.readError, warnings: [] };
+      }
+
+      const caller = _modelCaller(limiter, params.model, logging, options);
+      const output = await caller.call({
+        systemPrompt: getSystemPrompt(params),
+        prompt: fit.fitted,
+        sampling: pick(params, llmSamplingParamKeys),
+        onChunk: readOperationOptions(options).onChunk
+      });
+      return { output, warnings: fit.warnings, usage: caller.usage() };
+    },
+    options,
+    { simulateDelay: true }
+  );
+}
+
+/**
+ * Files are read from disk and hashed as the step's input, before the
+ * operation runs, so this passes their content on.
+ */
+async function _executeLocalFileOperation(
+  inputContent: [string],
+  params: ReadFileDerivationParams | GlobDerivationParams,
+  logging: { derivationId: string },
+  options?: Partial<OperationOptions>
+): Promise<OperationResult> {
+  return await _executeOperation<ReadFileDerivationParams | GlobDerivationParams, [string]>(
+    inputContent,
+    params,
+    async ([content]) => {
+      return { output: content, warnings: [] };
+    },
+    options,
+    { simulateDelay: false }
+  );
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { bindStepParams, getBindingKey, substitutePlaceholders } from './parameters.js';
+
+describe('substitutePlaceholders', () => {
+  it('replaces bound placeholders and leaves the rest as written', () => {
+    expect(
+      substitutePlaceholders('A {tone} story about {topic}, {unbound} and {not a name}', {
+        topic: 'balloons',
+        tone: 'dry'
+      })
+    ).toBe('A dry story about balloons, {unbound} and {not a name}');
+  });
+});
+
+describe('bindStepParams', () => {
+  it('fills in parameters, placeholders and nested bindings', () => {
+    const bound = bindStepParams(
+      {
+        operation: 'concat',
+        inputs: [
+          { type: 'param', name: 'topic' },
+          { type: 'param', name: 'tone', default: 'playful' },
+          { type: 'param', name: 'missing' },
+          { type: 'constant', value: 'About {topic}' },
+          { type: 'derivation', id: 'story', params: { subject: 'more {topic}' } },
+          { type: 'internal_step_link', targetStepId: 'step-1' }
+        ]
+      },
+      { topic: 'balloons' }
+    );
+
+    expect(bound.inputs).toEqual([
+      { type: 'constant', value: 'balloons' },
+      { type: 'constant', value: 'playful' },
+      { type: 'param', name: 'missing' },
+      { type: 'constant', value: 'About balloons' },
+      { type: 'derivation', id: 'story', params: { subject: 'more balloons' } },
+      { type: 'internal_step_link', targetStepId: 'step-1' }
+    ]);
+  });
+
+  it('substitutes string arguments but not the operation', () => {
+    const bound = bindStepParams(
+      {
+        operation: 'llm',
+        inputs: [{ type: 'constant', value: 'x' }],
+        prompt: 'Write about {topic}',
+        model: 'openai/gpt-5'
+      },
+      { topic: 'balloons', operation: 'identity' }
+    );
+    expect(bound).toMatchObject({ operation: 'llm', prompt: 'Write about balloons' });
+  });
+});
+
+describe('getBindingKey', () => {
+  it('is empty without bindings and independent of key order', () => {
+    expect(getBindingKey(undefined)).toBe('');
+    expect(getBindingKey({})).toBe('');
+    expect(getBindingKey({ a: '1', b: '2' })).toBe(getBindingKey({ b: '2', a: '1' }));
+  });
+});
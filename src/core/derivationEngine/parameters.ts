@@ -0,0 +1,70 @@
+import { isEmpty, mapValues } from 'lodash-es';
+import { InputDescriptorItem, StepParams } from '../db/types.js';
+import { stableStringify } from '../utils.js';
+
+/** Values for a formula's named parameters, as given by a reference to it */
+export type ParameterBindings = Record<string, string>;
+
+// Binds the element a map() body is applied to. Not a valid parameter name, so
+// it can't clash with one
+export const mapItemBinding = '$item';
+
+const placeholderPattern = /\{([a-zA-Z_][a-zA-Z0-9_]*)\}/g;
+
+/**
+ * Replaces `{name}` placeholders that have a binding. Unbound placeholders are
+ * left as written, so braces in ordinary text survive.
+ */
+export const substitutePlaceholders = (text: string, bindings: ParameterBindings): string =>
+  text.replace(placeholderPattern, (placeholder, name: string) =>
+    Object.hasOwn(bindings, name) ? bindings[name]! : placeholder
+  );
+
+const _bindInput = (
+  input: InputDescriptorItem,
+  bindings: ParameterBindings
+): InputDescriptorItem => {
+  switch (input.type) {
+    case 'constant':
+      return { type: 'constant', value: substitutePlaceholders(input.value, bindings) };
+    case 'param': {
+      const value = Object.hasOwn(bindings, input.name) ? bindings[input.name] : input.default;
+      // left for the read to report as unbound
+      return value === undefined ? input : { type: 'constant', value };
+    }
+    case 'map_item':
+      return Object.hasOwn(bindings, mapItemBinding)
+        ? { type: 'constant', value: bindings[mapItemBinding]! }
+        : input;
+    case 'derivation':
+      // a reference's own bindings may use the parameters of the formula making it
+      return input.params === undefined
+        ? input
+        : {
+            ...input,
+            params: mapValues(input.params, (value) => substitutePlaceholders(value, bindings))
+          };
+    default:
+      return input;
+  }
+};
+
+/**
+ * Fills a step's parameters in: `param` inputs become constants holding the
+ * bound value (or the default), and placeholders in constants and string
+ * arguments such as the prompt are substituted. The cache key is taken from
+ * the bound step, so each binding caches separately.
+ */
+export const bindStepParams = (recipeParams: StepParams, bindings: ParameterBindings): StepParams =>
+  ({
+    ...mapValues(recipeParams, (value, key) =>
+      key !== 'operation' && typeof value === 'string'
+        ? substitutePlaceholders(value, bindings)
+        : value
+    ),
+    inputs: recipeParams.inputs.map((input) => _bindInput(input, bindings))
+  }) as StepParams;
+
+/** Distinguishes instances of the same formula or step within a read */
+export const getBindingKey = (bindings: ParameterBindings | undefined): string =>
+  bindings === undefined || isEmpty(bindings) ? '' : stableStringify(bindings);
@@ -110,8 +110,12 @@ async function _discoverDependenciesForInputs(
 ): Promise<PlanningResult> {
   const dependencies: string[] = [];
 
+  // every input counts, including if/switch branches a read won't take, so
+  // changing an untaken branch still invalidates the formula
   for (const input of inputs) {
     if (input.type === 'derivation') {
+      // every binding of a formula depends on the same formulas, so bound
+      // references share the formula's node
       dependencies.push(input.id);
     } else if (input.type === 'internal_step_link') {
       const stepId = input.targetStepId;
@@ -4,8 +4,12 @@ import {
   logDerivationInputReadError,
   logDerivationCacheStoreSuccess,
   logDerivationComputeUnexpectedError,
+  logDerivationFailureRecordError,
+  logDerivationUsageRecordError,
   logDerivationOperationError,
   logDerivationOperationSuccess,
+  logDerivationParameterUnbound,
+  logDerivationReadOverBudget,
   logEmbeddingRequestSkipped,
   logger
 } from '../logger.js';
@@ -15,13 +19,17 @@ import { EmbeddingOutput, Prettify } from '../types.js';
 import {
   StepParams,
   StepParamsSchema,
+  MapDerivationParams,
+  IfDerivationParams,
+  SwitchDerivationParams,
   InputDescriptorItem,
   DependencyTree,
   ExecutionTree,
   OperationWarning,
-  assertNever
+  assertNever,
+  isLlmStep
 } from '../db/types.js';
-import { isNil } from 'lodash-es';
+import { isNil, truncate } from 'lodash-es';
 import { ReadErrorInfo, getReadErrorInfo } from './errors.js';
 import { performOperation } from './operations.js';
 import type { ConfigType } from '@config/types.js';
@@ -36,189 +44,480 @@ import { createExecutionPlan, ExecutionPlan, getSccContaining } from './planner.
 import {
   GetOrComputeDerivedContentByStepOpts,
   GetOrComputeDerivedContentOpts,
-  SccExecutionContext
+  ReadContext,
+  SccExecutionContext,
+  StepResult
 } from './types.js';
+import { createConcurrencyLimit } from './utils.js';
+import { DEFAULT_MAX_PARALLELISM } from './constants.js';
 import { findEquivalentResult, applyCacheHit } from './cache.js';
+import { bindStepParams, getBindingKey, mapItemBinding } from './parameters.js';
+import { decodeList, describeTextSource, encodeList, getDependencyValueType } from './lists.js';
+import { selectBranch } from './branches.js';
+import { readWatchedFile, readWatchedGlob } from './localFiles.js';
+import { findOverBudgetError } from './budget.js';
+import type { LlmUsageEntry } from '../db/contentService.js';
 
-type StepResult =
+type ResolvedInput =
   | {
       success: true;
-      output: string;
-      executionTree: ExecutionTree;
+      dependency: DependencyTree[number];
+      // the files read, by absolute path
+      pinned?: { path: string; hash: string }[];
     }
-  | {
-      success: false;
-      error: ReadErrorInfo;
+  | { success: false; error: ReadErrorInfo; fromDependency?: boolean };
+
+const _resolveInput = async (
+  appDal: AppDal,
+  currentInput: InputDescriptorItem,
+  limiter: RateLimiter,
+  config: ConfigType,
+  opts: Partial<GetOrComputeDerivedContentByStepOpts>,
+  logging: { derivationId: string }
+): Promise<ResolvedInput> => {
+  const sccContext: SccExecutionContext | undefined = opts.sccContext;
+  // dependencies are read with the same context, but never streamed. A formula
+  // only sees the bindings its reference gives it
+  const dependencyOpts = {
+    sccContext,
+    scc: undefined,
+    skipCache: opts.skipCache,
+    operationOptions: opts.operationOptions,
+    readContext: opts.readContext,
+    bindings: currentInput.type === 'derivation' ? currentInput.params : undefined
+  };
+
+  if (currentInput.type === 'pinned_path') {
+    const docId = appDal.core.findDocIdByPath(currentInput.path);
+    if (isNil(docId)) {
+      logDerivationInputReadError(
+        currentInput.path,
+        logging.derivationId,
+        'Pinned path not found.'
+      );
+      return {
+        success: false,
+        error: getReadErrorInfo('pinnedPathNotFound', {
+          pinnedPath: currentInput.path
+        })
+      };
+    }
+    const hash = appDal.core.findHashByDocId(docId);
+    if (isNil(hash)) {
+      logDerivationInputReadError(
+        currentInput.path,
+        logging.derivationId,
+        `Content hash for docId ${docId} not found.`
+      );
+      return {
+        success: false,
+        error: getReadErrorInfo('pinnedContentHashNotFound', {
+          pinnedPath: currentInput.path,
+          docId
+        })
+      };
+    }
+    return {
+      success: true,
+      dependency: { type: 'pinned_path', contentHash: hash },
+      pinned: [{ path: currentInput.path, hash }]
+    };
+  } else if (currentInput.type === 'file') {
+    const file = await readWatchedFile(config.watchedDirectory, currentInput.path);
+    if (!file.success) {
+      logDerivationInputReadError(currentInput.path, logging.derivationId, file.error.message);
+      return { success: false, error: file.error };
+    }
+    const contentHash = hash(file.content);
+    appDal.core.insertContentIfNew(contentHash, file.content);
+    return {
+      success: true,
+      dependency: { type: 'file', contentHash },
+      pinned: [{ path: file.path, hash: contentHash }]
+    };
+  } else if (currentInput.type === 'file_glob') {
+    const matched = await readWatchedGlob(config.watchedDirectory, currentInput.pattern);
+    if (!matched.success) {
+      logDerivationInputReadError(
+        currentInput.pattern,
+        logging.derivationId,
+        matched.error.message
+      );
+      return { success: false, error: matched.error };
+    }
+    const pinned = matched.files.map((file) => {
+      const fileHash = hash(file.content);
+      appDal.core.insertContentIfNew(fileHash, file.content);
+      return { path: file.path, hash: fileHash };
+    });
+    // the list of their contents, so any edit, addition or removal changes it
+    const list = encodeList(matched.files.map((file) => file.content));
+    const contentHash = hash(list);
+    appDal.core.insertContentIfNew(contentHash, list);
+    return { success: true, dependency: { type: 'file_glob', contentHash }, pinned };
+  } else if (currentInput.type === 'content') {
+    return { success: true, dependency: { type: 'content', contentHash: currentInput.hash } };
+  } else if (currentInput.type === 'derivation') {
+    let execTree: ExecutionTree;
+
+    // Check if this derivation is part of current SCC - if so, handle recursively or use buffer
+    if (!isNil(sccContext) && isInCurrentScc(currentInput.id, sccContext)) {
+      const resolver: SccDerivationResolver = async (id, context) => {
+        const res = await getOrComputeDerivedContent(appDal, id, limiter, config, {
+          ...dependencyOpts,
+          sccContext: context
+        });
+        if (!res.success) return { success: false, error: res.error.message };
+        return { success: true, executionTree: res.executionTree };
+      };
+      const resolved = await resolveIntraSccDerivationInput(currentInput.id, sccContext, resolver);
+      if (!resolved.success) {
+        return {
+          success: false,
+          error: getReadErrorInfo('unexpectedDerivationComputationError', {
+            error: resolved.error
+          }),
+          fromDependency: true
+        };
+      }
+      execTree = resolved.executionTree;
+    } else {
+      // Normal external derivation resolution
+      const derivationResult = await getOrComputeDerivedContent(
+        appDal,
+        currentInput.id,
+        limiter,
+        config,
+        dependencyOpts
+      );
+
+      if (!derivationResult.success) {
+        return { success: false, error: derivationResult.error, fromDependency: true };
+      }
+
+      execTree = derivationResult.executionTree;
+    }
+
+    return {
+      success: true,
+      dependency: {
+        type: 'derivation',
+        cacheStatus: execTree.cacheStatus,
+        dependencies: execTree.dependencies,
+        contentHash: execTree.contentHash,
+        operation: execTree.operation,
+        warnings: execTree.warnings,
+        branch: execTree.branch
+      }
+    };
+  } else if (currentInput.type === 'internal_step_link') {
+    const stepId = currentInput.targetStepId;
+    let stepParams: StepParams | undefined;
+    try {
+      stepParams = appDal.derivations.getStepStoredParams(stepId);
+    } catch {
+      // noop, be undefined
+    }
+    if (isNil(stepParams)) {
+      logDerivationComputeUnexpectedError(logging.derivationId, `Step ${stepId} not found.`);
+      return {
+        success: false,
+        error: getReadErrorInfo('stepNotFound', { stepId })
+      };
+    }
+    const stepResult = await getOrComputeDerivedContentByStep(
+      appDal,
+      stepId,
+      stepParams,
+      limiter,
+      config,
+      logging,
+      // only the requested derivation's final step streams
+      { ...opts, sccContext, onChunk: undefined }
+    );
+
+    if (!stepResult.success) {
+      return { success: false, error: stepResult.error, fromDependency: true };
+    }
+
+    const exec = stepResult.executionTree;
+    return {
+      success: true,
+      dependency: {
+        type: 'computed_step',
+        cacheStatus: exec.cacheStatus,
+        dependencies: exec.dependencies,
+        contentHash: exec.contentHash,
+        operation: exec.operation,
+        warnings: exec.warnings,
+        branch: exec.branch
+      }
+    };
+  } else if (currentInput.type === 'constant') {
+    const valueHash = hash(currentInput.value);
+    appDal.core.insertContentIfNew(valueHash, currentInput.value);
+    return { success: true, dependency: { type: 'constant', contentHash: valueHash } };
+  } else if (currentInput.type === 'map_item') {
+    // bound to a constant for each element of the map
+    return {
+      success: false,
+      error: getReadErrorInfo('unexpectedDerivationComputationError', {
+        error: 'map item used outside of map()'
+      })
     };
+  } else if (currentInput.type === 'param') {
+    // bound parameters were already replaced with constants
+    logDerivationParameterUnbound(logging.derivationId, currentInput.name);
+    return {
+      success: false,
+      error: getReadErrorInfo('unboundParameter', { name: currentInput.name })
+    };
+  } else {
+    return assertNever(currentInput);
+  }
+};
 
 /**
  * Resolves the inputs for a derivation.
  * - If the input is a pinned path, we need to resolve it to a content hash.
+ * - If the input is a file or glob, it is read from disk and hashed.
  * - If the input is a derivation, we need to resolve it to a content hash.
  * - If the input is content, we can use it directly.
  * - If the input is an internal step link, we need to resolve it to a content
  *   hash.
  * Derivations and steps are recursively resolved.
+ *
+ * Inputs are resolved concurrently, except inside a cycle where seeding depends
+ * on evaluation order. The dependency tree keeps the order of the inputs, and
+ * when several inputs fail the first one's error is reported.
  */
-const _computeDependencies = async (
+const _computeDependencies = (
   appDal: AppDal,
   inputDescriptors: InputDescriptorItem[],
   limiter: RateLimiter,
   config: ConfigType,
   opts: Partial<GetOrComputeDerivedContentByStepOpts>,
   logging: { derivationId: string }
-): Promise<
+): Promise<ComputedDependencies> =>
+  _collectDependencies(
+    inputDescriptors.map(
+      (input) => () => _resolveInput(appDal, input, limiter, config, opts, logging)
+    ),
+    opts
+  );
+
+type ComputedDependencies =
   | {
       success: true;
       dependencyTree: DependencyTree;
       pinnedHashesMap: Record<string, { type: 'content'; hash: string }>;
+      // for if and switch, the branch that was read
+      branch?: string;
     }
-  | { success: false; error: ReadErrorInfo }
-> => {
-  const sccContext: SccExecutionContext | undefined = opts.sccContext;
+  // fromDependency marks errors that were already recorded where they occurred
+  | { success: false; error: ReadErrorInfo; fromDependency?: boolean };
+
+const _collectDependencies = async (
+  resolvers: (() => Promise<ResolvedInput>)[],
+  opts: Partial<GetOrComputeDerivedContentByStepOpts>
+): Promise<ComputedDependencies> => {
+  const resolvedInputs: ResolvedInput[] = [];
+  if (isNil(opts.sccContext)) {
+    resolvedInputs.push(...(await Promise.all(resolvers.map((resolve) => resolve()))));
+  } else {
+    for (const resolve of resolvers) {
+      const resolved = await resolve();
+      resolvedInputs.push(resolved);
+      if (!resolved.success) break;
+    }
+  }
 
-  // FIXME: tracking via index seems error prone. if there's a missing
-  // conditional below, the input step and content hash index will be
-  // misaligned.
   const dependencyTree: DependencyTree = [];
   const pinnedHashesMap: Record<string, { type: 'content'; hash: string }> = {}; // To store all resolved pinned paths for this computation
+  for (const resolved of resolvedInputs) {
+    if (!resolved.success) {
+      return resolved;
+    }
+    dependencyTree.push(resolved.dependency);
+    for (const pinned of resolved.pinned ?? []) {
+      pinnedHashesMap[pinned.path] = { type: 'content', hash: pinned.hash };
+    }
+  }
 
-  for (const currentInput of inputDescriptors) {
-    if (currentInput.type === 'pinned_path') {
-      const docId = appDal.core.findDocIdByPath(currentInput.path);
-      if (isNil(docId)) {
-        logDerivationInputReadError(
-          currentInput.path,
-          logging.derivationId,
-          'Pinned path not found.'
-        );
-        return {
-          success: false,
-          error: getReadErrorInfo('pinnedPathNotFound', {
-            pinnedPath: currentInput.path
-          })
-        };
-      }
-      const hash = appDal.core.findHashByDocId(docId);
-      if (isNil(hash)) {
-        logDerivationInputReadError(
-          currentInput.path,
-          logging.derivationId,
-          `Content hash for docId ${docId} not found.`
-        );
-        return {
-          success: false,
-          error: getReadErrorInfo('pinnedContentHashNotFound', {
-            pinnedPath: currentInput.path,
-            docId
-          })
-        };
-      }
-      pinnedHashesMap[currentInput.path] = { type: 'content', hash };
-      dependencyTree.push({ type: 'pinned_path', contentHash: hash });
-    } else if (currentInput.type === 'content') {
-      dependencyTree.push({ type: 'content', contentHash: currentInput.hash });
-    } else if (currentInput.type === 'derivation') {
-      let execTree: ExecutionTree;
-
-      // Check if this derivation is part of current SCC - if so, handle recursively or use buffer
-      if (!isNil(sccContext) && isInCurrentScc(currentInput.id, sccContext)) {
-        const resolver: SccDerivationResolver = async (id, context) => {
-          const res = await getOrComputeDerivedContent(appDal, id, limiter, config, {
-            sccContext: context,
-            scc: undefined,
-            skipCache: opts.skipCache
-          });
-          if (!res.success) return { success: false, error: res.error.message };
-          return { success: true, executionTree: res.executionTree };
-        };
-        const resolved = await resolveIntraSccDerivationInput(
-          currentInput.id,
-          sccContext,
-          resolver
-        );
-        if (!resolved.success) {
-          return {
-            success: false,
-            error: getReadErrorInfo('unexpectedDerivationComputationError', {
-              error: resolved.error
-            })
-          };
-        }
-        execTree = resolved.executionTree;
-      } else {
-        // Normal external derivation resolution
-        const derivationResult = await getOrComputeDerivedContent(
+  return { success: true, dependencyTree, pinnedHashesMap };
+};
+
+/**
+ * Resolves a map's list, then applies the body to each element as a step of
+ * its own, so every element is cached separately. The dependencies are the
+ * list followed by each element's result.
+ */
+const _computeMapDependencies = async (
+  appDal: AppDal,
+  recipeParams: MapDerivationParams,
+  limiter: RateLimiter,
+  config: ConfigType,
+  opts: Partial<GetOrComputeDerivedContentByStepOpts>,
+  logging: { derivationId: string }
+): Promise<ComputedDependencies> => {
+  const [listInput, bodyInput] = recipeParams.inputs;
+  if (isNil(listInput) || bodyInput?.type !== 'internal_step_link') {
+    return {
+      success: false,
+      error: getReadErrorInfo('invalidInputArity', {
+        issues: 'map() takes a list and the operation to apply to each element'
+      })
+    };
+  }
+
+  const list = await _computeDependencies(appDal, [listInput], limiter, config, opts, logging);
+  if (!list.success) {
+    return list;
+  }
+  const listDependency = list.dependencyTree[0]!;
+  const items =
+    getDependencyValueType(listDependency) === 'list'
+      ? decodeList(appDal.core.findContentByHash(listDependency.contentHash) ?? '')
+      : undefined;
+  if (isNil(items)) {
+    return {
+      success: false,
+      error: getReadErrorInfo('notAList', {
+        operation: 'map',
+        source: describeTextSource(listDependency)
+      })
+    };
+  }
+
+  const elements = await _collectDependencies(
+    items.map(
+      (item) => () =>
+        _resolveInput(
           appDal,
-          currentInput.id,
+          bodyInput,
           limiter,
           config,
-          { sccContext, scc: undefined, skipCache: opts.skipCache }
-        );
+          { ...opts, bindings: { ...opts.bindings, [mapItemBinding]: item } },
+          logging
+        )
+    ),
+    opts
+  );
+  if (!elements.success) {
+    return elements;
+  }
 
-        if (!derivationResult.success) {
-          return { success: false, error: derivationResult.error };
-        }
+  return {
+    success: true,
+    dependencyTree: [...list.dependencyTree, ...elements.dependencyTree],
+    pinnedHashesMap: { ...list.pinnedHashesMap, ...elements.pinnedHashesMap }
+  };
+};
 
-        execTree = derivationResult.executionTree;
-      }
+/**
+ * Resolves the condition (or switch value) first, then only the branch it
+ * picks, so untaken branches are never computed. The dependencies are the
+ * condition followed by the branch's result, if the branch has an input.
+ */
+const _computeBranchDependencies = async (
+  appDal: AppDal,
+  recipeParams: IfDerivationParams | SwitchDerivationParams,
+  limiter: RateLimiter,
+  config: ConfigType,
+  opts: Partial<GetOrComputeDerivedContentByStepOpts>,
+  logging: { derivationId: string }
+): Promise<ComputedDependencies> => {
+  const [selectorInput, ...branchInputs] = recipeParams.inputs;
+  if (isNil(selectorInput) || branchInputs.length === 0) {
+    return {
+      success: false,
+      error: getReadErrorInfo('invalidInputArity', {
+        issues: `${recipeParams.operation}() takes a value to branch on and at least one branch`
+      })
+    };
+  }
 
-      dependencyTree.push({
-        type: 'derivation',
-        cacheStatus: execTree.cacheStatus,
-        dependencies: execTree.dependencies,
-        contentHash: execTree.contentHash,
-        operation: execTree.operation,
-        warnings: execTree.warnings
-      });
-    } else if (currentInput.type === 'internal_step_link') {
-      const stepId = currentInput.targetStepId;
-      let stepParams: StepParams | undefined;
-      try {
-        stepParams = appDal.derivations.getStepStoredParams(stepId);
-      } catch {
-        // noop, be undefined
-      }
-      if (isNil(stepParams)) {
-        logDerivationComputeUnexpectedError(logging.derivationId, `Step ${stepId} not found.`);
-        return {
-          success: false,
-          error: getReadErrorInfo('stepNotFound', { stepId })
-        };
-      }
-      const stepResult = await getOrComputeDerivedContentByStep(
-        appDal,
-        stepId,
-        stepParams,
-        limiter,
-        config,
-        logging,
-        { ...opts, sccContext }
-      );
+  const selector = await _computeDependencies(
+    appDal,
+    [selectorInput],
+    limiter,
+    config,
+    opts,
+    logging
+  );
+  if (!selector.success) {
+    return selector;
+  }
+  const value = appDal.core.findContentByHash(selector.dependencyTree[0]!.contentHash) ?? '';
+  const selected = selectBranch(recipeParams, value);
+  if (!selected.success) {
+    return {
+      success: false,
+      error: getReadErrorInfo('noMatchingCase', { value: truncate(value.trim(), { length: 40 }) })
+    };
+  }
+  const branchInput = isNil(selected.inputIndex)
+    ? undefined
+    : recipeParams.inputs[selected.inputIndex];
+  if (isNil(branchInput)) {
+    return { ...selector, branch: selected.branch };
+  }
 
-      if (!stepResult.success) {
-        return { success: false, error: stepResult.error };
-      }
+  const branch = await _computeDependencies(appDal, [branchInput], limiter, config, opts, logging);
+  if (!branch.success) {
+    return branch;
+  }
 
-      const exec = stepResult.executionTree;
-      dependencyTree.push({
-        type: 'computed_step',
-        cacheStatus: exec.cacheStatus,
-        dependencies: exec.dependencies,
-        contentHash: exec.contentHash,
-        operation: exec.operation,
-        warnings: exec.warnings
-      });
-    } else if (currentInput.type === 'constant') {
-      const valueHash = hash(currentInput.value);
-      appDal.core.insertContentIfNew(valueHash, currentInput.value);
-      dependencyTree.push({ type: 'constant', contentHash: valueHash });
-    } else {
-      assertNever(currentInput);
-    }
+  return {
+    success: true,
+    dependencyTree: [...selector.dependencyTree, ...branch.dependencyTree],
+    pinnedHashesMap: { ...selector.pinnedHashesMap, ...branch.pinnedHashesMap },
+    branch: selected.branch
+  };
+};
+
+/**
+ * Records a failure that originated at this step. Recording is best-effort and
+ * never turns a failed read into a different error.
+ */
+const _recordFailure = (
+  appDal: AppDal,
+  failure: {
+    stepId: string;
+    cacheKey: string | null;
+    inputContentHashes: string[] | null;
+    error: ReadErrorInfo;
+  },
+  logging: { derivationId: string }
+) => {
+  try {
+    appDal.derivations.recordStepFailure({
+      cacheKey: failure.cacheKey,
+      stepId: failure.stepId,
+      derivationId: logging.derivationId,
+      errorKind: failure.error.kind,
+      errorMessage: failure.error.message,
+      inputContentHashes: failure.inputContentHashes
+    });
+  } catch (error) {
+    logDerivationFailureRecordError(logging.derivationId, error);
   }
+};
 
-  return { success: true, dependencyTree, pinnedHashesMap };
+/**
+ * Logs model usage for a step. Best-effort, like failure recording.
+ */
+const _recordLlmUsage = (
+  appDal: AppDal,
+  usage: LlmUsageEntry,
+  cacheKey: string,
+  logging: { derivationId: string }
+) => {
+  try {
+    appDal.core.insertLlmUsageLog({ ...usage, cacheKey, derivationId: logging.derivationId });
+  } catch (error) {
+    logDerivationUsageRecordError(logging.derivationId, error);
+  }
 };
 
 const _tryShortCircuit = async (
@@ -236,26 +535,44 @@ const _tryShortCircuit = async (
     }
   | {
       shortCircuitAllowed: false;
+      cacheKey: string;
       inputContentHashes: string[];
-      computedDependencies: Prettify<
-        Awaited<ReturnType<typeof _computeDependencies>> & { success: true }
-      >;
+      computedDependencies: Prettify<ComputedDependencies & { success: true }>;
     }
 > => {
   const inputDescriptors = recipeParams.inputs;
 
   // Always compute dependencies to ensure dependencyTree cacheStatus flags stay
   // current
-  const computedDependencies = await _computeDependencies(
-    appDal,
-    inputDescriptors,
-    limiter,
-    config,
-    { ...opts },
-    logging
-  );
+  const computedDependencies =
+    recipeParams.operation === 'map'
+      ? await _computeMapDependencies(appDal, recipeParams, limiter, config, { ...opts }, logging)
+      : recipeParams.operation === 'if' || recipeParams.operation === 'switch'
+        ? await _computeBranchDependencies(
+            appDal,
+            recipeParams,
+            limiter,
+            config,
+            { ...opts },
+            logging
+          )
+        : await _computeDependencies(
+            appDal,
+            inputDescriptors,
+            limiter,
+            config,
+            { ...opts },
+            logging
+          );
 
   if (!computedDependencies.success) {
+    if (!computedDependencies.fromDependency) {
+      _recordFailure(
+        appDal,
+        { stepId, cacheKey: null, inputContentHashes: null, error: computedDependencies.error },
+        logging
+      );
+    }
     return {
       shortCircuitAllowed: true,
       result: { success: false, error: computedDependencies.error }
@@ -268,11 +585,11 @@ const _tryShortCircuit = async (
 
   // force recompute if skipCache is set
   if (opts.skipCache) {
-    return { shortCircuitAllowed: false, inputContentHashes, computedDependencies };
+    return { shortCircuitAllowed: false, cacheKey, inputContentHashes, computedDependencies };
   }
 
   // check if the step or an identical step is cached
-  const stepCacheHit = await findEquivalentResult(appDal, cacheKey);
+  const stepCacheHit = await findEquivalentResult(appDal, cacheKey, stepId);
 
   if (stepCacheHit.cache === 'hit') {
     const cachedOutput = appDal.core.findContentByHash(stepCacheHit.outputHash);
@@ -283,12 +600,20 @@ const _tryShortCircuit = async (
       cacheKey,
       cachedOutput,
       stepCacheHit,
-      dependencyTree
+      dependencyTree,
+      computedDependencies.branch
     );
-    if (result) return { shortCircuitAllowed: true, result: result };
+    if (result) {
+      // a cache hit saves whatever the call that produced the result used
+      const savedCall = appDal.core.findLatestLlmCallByCacheKey(cacheKey);
+      if (!isNil(savedCall)) {
+        _recordLlmUsage(appDal, { ...savedCall, cacheHit: true }, cacheKey, logging);
+      }
+      return { shortCircuitAllowed: true, result: result };
+    }
   }
 
-  return { shortCircuitAllowed: false, inputContentHashes, computedDependencies };
+  return { shortCircuitAllowed: false, cacheKey, inputContentHashes, computedDependencies };
 };
 
 const _storeResult = async (
@@ -364,6 +689,34 @@ const _storeResult = async (
   return { success: true, hash: newOutputContentHash };
 };
 
+const _createReadContext = (config: ConfigType): ReadContext => ({
+  limitOperations: createConcurrencyLimit(config.maxParallelism ?? DEFAULT_MAX_PARALLELISM),
+  inFlight: new Map()
+});
+
+/**
+ * Shares one evaluation of `key` between everything that reaches it during a
+ * read. Inside a cycle the same formula is evaluated again with other seeds, so
+ * nothing is shared there.
+ */
+const _evaluateOnce = (
+  key: string,
+  readContext: ReadContext,
+  opts: Partial<GetOrComputeDerivedContentByStepOpts>,
+  evaluate: () => Promise<StepResult>
+): Promise<StepResult> => {
+  if (!isNil(opts.sccContext)) {
+    return evaluate();
+  }
+  const inFlight = readContext.inFlight.get(key);
+  if (!isNil(inFlight)) {
+    return inFlight;
+  }
+  const evaluation = evaluate();
+  readContext.inFlight.set(key, evaluation);
+  return evaluation;
+};
+
 export async function getOrComputeDerivedContentByStep(
   appDal: AppDal,
   stepId: string,
@@ -373,6 +726,27 @@ export async function getOrComputeDerivedContentByStep(
   logging: { derivationId: string },
   opts?: GetOrComputeDerivedContentByStepOpts
 ): Promise<StepResult> {
+  const readContext = opts?.readContext ?? _createReadContext(config);
+  const key = `step:${stepId}|${getBindingKey(opts?.bindings)}`;
+  return _evaluateOnce(key, readContext, opts ?? {}, () =>
+    _getOrComputeDerivedContentByStep(appDal, stepId, recipeParams, limiter, config, logging, {
+      ...opts,
+      readContext
+    })
+  );
+}
+
+async function _getOrComputeDerivedContentByStep(
+  appDal: AppDal,
+  stepId: string,
+  storedParams: StepParams,
+  limiter: RateLimiter,
+  config: ConfigType,
+  logging: { derivationId: string },
+  opts: GetOrComputeDerivedContentByStepOpts & { readContext: ReadContext }
+): Promise<StepResult> {
+  const recipeParams = bindStepParams(storedParams, opts.bindings ?? {});
+
   // Validate recipe parameters (including input arity)
   const validation = StepParamsSchema.safeParse(recipeParams);
   if (!validation.success) {
@@ -380,12 +754,11 @@ export async function getOrComputeDerivedContentByStep(
       logging.derivationId,
       `Invalid step parameters: ${validation.error.message}`
     );
-    return {
-      success: false,
-      error: getReadErrorInfo('invalidInputArity', {
-        issues: JSON.stringify(validation.error.issues)
-      })
-    };
+    const error = getReadErrorInfo('invalidInputArity', {
+      issues: JSON.stringify(validation.error.issues)
+    });
+    _recordFailure(appDal, { stepId, cacheKey: null, inputContentHashes: null, error }, logging);
+    return { success: false, error };
   }
 
   const shortCircuitResult = await _tryShortCircuit(
@@ -394,7 +767,7 @@ export async function getOrComputeDerivedContentByStep(
     recipeParams,
     limiter,
     config,
-    opts ?? {},
+    opts,
     logging
   );
   if (shortCircuitResult.shortCircuitAllowed) {
@@ -402,39 +775,78 @@ export async function getOrComputeDerivedContentByStep(
   }
 
   const {
+    cacheKey,
     inputContentHashes,
-    computedDependencies: { dependencyTree, pinnedHashesMap }
+    computedDependencies: { dependencyTree, pinnedHashesMap, branch }
   } = shortCircuitResult;
+  const fail = (error: ReadErrorInfo): StepResult => {
+    _recordFailure(appDal, { stepId, cacheKey, inputContentHashes, error }, logging);
+    return { success: false, error };
+  };
 
-  const operationPerformed = await performOperation(
-    appDal,
-    inputContentHashes,
-    recipeParams,
-    config,
-    logging,
-    opts?.operationOptions
-  );
+  const inputValueTypes = dependencyTree.map(getDependencyValueType);
+  if (recipeParams.operation === 'join' && inputValueTypes[0] !== 'list') {
+    return fail(
+      getReadErrorInfo('notAList', {
+        operation: 'join',
+        source: describeTextSource(dependencyTree[0]!)
+      })
+    );
+  }
+
+  // map-reduce calls the model once per chunk; each call takes a slot of its
+  // own rather than the step holding one throughout
+  const limitsCalls = isLlmStep(recipeParams) && recipeParams.overflow === 'map-reduce';
+  const performStep = () =>
+    performOperation(
+      appDal,
+      inputContentHashes,
+      inputValueTypes,
+      recipeParams,
+      limiter,
+      config,
+      logging,
+      {
+        ...opts.operationOptions,
+        onChunk: opts.onChunk,
+        limitCalls: limitsCalls ? opts.readContext.limitOperations : undefined
+      }
+    );
+  const operationPerformed = await (limitsCalls
+    ? performStep()
+    : opts.readContext.limitOperations(performStep));
 
   if (!operationPerformed.success) {
-    return { success: false, error: operationPerformed.error };
+    return fail(operationPerformed.error);
   }
 
   const operationResult = operationPerformed.result;
 
+  if (!isNil(operationResult.usage)) {
+    _recordLlmUsage(appDal, { ...operationResult.usage, cacheHit: false }, cacheKey, logging);
+  }
+
   // Check operation result
+  if (!isNil(operationResult.readError)) {
+    logDerivationOperationError(
+      logging.derivationId,
+      recipeParams.operation,
+      operationResult.readError.message
+    );
+    return fail(operationResult.readError);
+  }
   if (operationResult.error || isNil(operationResult.output)) {
     const errorMsg = operationResult.error ?? 'No output from operation';
     logDerivationOperationError(logging.derivationId, recipeParams.operation, errorMsg);
-    return {
-      success: false,
-      error: !isNil(operationResult.error)
+    return fail(
+      !isNil(operationResult.error)
         ? getReadErrorInfo('operationResultError', {
             error: operationResult.error
           })
         : getReadErrorInfo('unspecifiedOperationFailure', {
             operation: recipeParams.operation
           })
-    };
+    );
   }
 
   logDerivationOperationSuccess(
@@ -458,7 +870,7 @@ export async function getOrComputeDerivedContentByStep(
     logging
   );
   if (!resultStored.success) {
-    return { success: false, error: resultStored.error };
+    return fail(resultStored.error);
   }
 
   return {
@@ -469,13 +881,20 @@ export async function getOrComputeDerivedContentByStep(
       cacheStatus: 'computed',
       dependencies: dependencyTree,
       contentHash: resultStored.hash,
-      warnings: operationResult.warnings
+      warnings: operationResult.warnings,
+      branch
     }
   };
 }
 
 /**
  * Computes or retrieves derived content based on a defined derivation ID.
+ *
+ * When `opts.onChunk` is set, the output is streamed as it is produced. Cache
+ * hits and operations that cannot stream deliver their output as one chunk.
+ *
+ * Reads estimated to exceed a configured spending cap fail with an
+ * `over_budget` error unless `opts.confirmOverBudget` is set.
  */
 export async function getOrComputeDerivedContent(
   appDal: AppDal,
@@ -483,14 +902,58 @@ export async function getOrComputeDerivedContent(
   limiter: RateLimiter,
   config: ConfigType,
   opts?: GetOrComputeDerivedContentOpts
-): Promise<
-  | {
-      success: true;
-      output: string;
-      executionTree: ExecutionTree;
+): Promise<StepResult> {
+  // the outermost read is checked as a whole; reads it makes are part of it
+  if (isNil(opts?.readContext) && !opts?.confirmOverBudget) {
+    const overBudgetError = await findOverBudgetError(appDal, config, derivationId, {
+      skipCache: opts?.skipCache,
+      watchedDirectory: config.watchedDirectory
+    });
+    if (!isNil(overBudgetError)) {
+      logDerivationReadOverBudget(derivationId, overBudgetError.message);
+      return { success: false, error: overBudgetError };
     }
-  | { success: false; error: ReadErrorInfo }
-> {
+  }
+
+  const onChunk = opts?.onChunk;
+  const readContext = opts?.readContext ?? _createReadContext(config);
+
+  let hasStreamed = false;
+  const key = `formula:${derivationId}|${getBindingKey(opts?.bindings)}`;
+  const result = await _evaluateOnce(key, readContext, opts ?? {}, () =>
+    _getOrComputeDerivedContent(appDal, derivationId, limiter, config, {
+      ...opts,
+      readContext,
+      onChunk: isNil(onChunk)
+        ? undefined
+        : (chunk) => {
+            hasStreamed = true;
+            onChunk(chunk);
+          }
+    })
+  );
+  if (!result.success) {
+    return result;
+  }
+
+  try {
+    appDal.derivations.resolveStepFailures(derivationId);
+  } catch (error) {
+    logDerivationFailureRecordError(derivationId, error);
+  }
+  if (!isNil(onChunk) && !hasStreamed) {
+    onChunk(result.output);
+  }
+  return result;
+}
+
+async function _getOrComputeDerivedContent(
+  appDal: AppDal,
+  derivationId: string,
+  limiter: RateLimiter,
+  config: ConfigType,
+  opts?: GetOrComputeDerivedContentOpts
+): Promise<StepResult> {
   logDerivationComputeStart(derivationId);
 
   try {
@@ -553,7 +1016,9 @@ export async function getOrComputeDerivedContent(
         const res = await getOrComputeDerivedContent(appDal, id, limiter, config, {
           sccContext: context,
           scc: undefined,
-          skipCache: opts?.skipCache
+          skipCache: opts?.skipCache,
+          operationOptions: opts?.operationOptions,
+          readContext: opts?.readContext
         });
         if (!res.success) return { success: false, error: res.error.message };
         return { success: true, executionTree: res.executionTree };
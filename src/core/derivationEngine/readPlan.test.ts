@@ -0,0 +1,320 @@
+import { describe, it, beforeEach, expect, assert } from 'vitest';
+import { AppDal, createMockAppDal } from '../db/app_dal.js';
+import { createMockQueue } from '../limiting/rateLimitQueue.js';
+import { createMockRateLimitManager } from '../limiting/modelRateLimitManager.js';
+import { RateLimiter } from '../limiting';
+import { EmbeddingInputData, EmbeddingOutput } from '../types.js';
+import { getOrComputeDerivedContent as _getOrComputeDerivedContent } from './read.js';
+import { createDerivation, updateDerivation } from './write.js';
+import { getReadPlan } from './readPlan.js';
+import { hash } from '../utils.js';
+
+describe('Read plan', () => {
+  let appDal: AppDal;
+  let limiter: RateLimiter;
+
+  const getOrComputeDerivedContent = (derivationId: string) =>
+    _getOrComputeDerivedContent(
+      appDal,
+      derivationId,
+      limiter,
+      {
+        openaiApiKey: 'test',
+        openRouterApiKey: 'test',
+        databasePath: 'test',
+        watchedDirectory: 'test',
+        embeddingRpmLimit: 1000,
+        skipEmbedding: false,
+        debug: false,
+        theme: 'system' as const
+      },
+      { operationOptions: { environment: 'test' } }
+    );
+
+  const plan = async (derivationId: string, opts?: { skipCache?: boolean }) => {
+    const result = await getReadPlan(appDal, derivationId, opts);
+    assert(result.success);
+    return result.plan;
+  };
+
+  beforeEach(async () => {
+    appDal = await createMockAppDal();
+    limiter = createMockRateLimitManager(
+      createMockQueue<EmbeddingInputData, EmbeddingOutput>(async () => ({
+        embedding: 'test',
+        usage: { promptTokens: 1 },
+        modelName: 'test'
+      }))
+    );
+  });
+
+  // notes -> identity(notes) -> concat("Summary: ", $upstream)
+  const createChain = () => {
+    const content = 'notes';
+    appDal.upsertDocumentAndPath('/notes.md', hash(content), content);
+    const upstreamId = createDerivation(
+      appDal,
+      {
+        label: 'upstream',
+        recipeParams: {
+          operation: 'identity',
+          inputs: [{ type: 'pinned_path', path: '/notes.md' }]
+        }
+      },
+      'identity(`/notes.md`)'
+    );
+    const downstreamId = createDerivation(
+      appDal,
+      {
+        label: 'downstream',
+        recipeParams: {
+          operation: 'concat',
+          inputs: [
+            { type: 'constant', value: 'Summary: ' },
+            { type: 'derivation', id: upstreamId }
+          ]
+        }
+      },
+      `concat("Summary: ", $${upstreamId})`
+    );
+    return { upstreamId, downstreamId };
+  };
+
+  it('should order units upstream first and plan every step as computed before any read', async () => {
+    const { upstreamId, downstreamId } = createChain();
+
+    const result = await plan(downstreamId);
+
+    expect(result.units).toEqual([
+      { type: 'acyclic', nodeId: upstreamId },
+      { type: 'acyclic', nodeId: downstreamId }
+    ]);
+    expect(result.steps.map((s) => [s.derivationId, s.status])).toEqual([
+      [upstreamId, 'compute'],
+      [downstreamId, 'compute']
+    ]);
+    expect(result.pinnedPaths).toEqual(['/notes.md']);
+  });
+
+  it('should plan cached steps after a read, and recompute what depends on changed files', async () => {
+    const { upstreamId, downstreamId } = createChain();
+    await getOrComputeDerivedContent(downstreamId);
+
+    expect((await plan(downstreamId)).steps.map((s) => s.status)).toEqual(['cached', 'cached']);
+    expect((await plan(downstreamId, { skipCache: true })).steps.map((s) => s.status)).toEqual([
+      'compute',
+      'compute'
+    ]);
+
+    const edited = 'edited notes';
+    appDal.upsertDocumentAndPath('/notes.md', hash(edited), edited);
+
+    expect((await plan(downstreamId)).steps.map((s) => [s.derivationId, s.status])).toEqual([
+      [upstreamId, 'compute'],
+      [downstreamId, 'compute']
+    ]);
+  });
+
+  it('should mark backreferences in a cycle as seeds', async () => {
+    const pingId = createDerivation(
+      appDal,
+      {
+        label: 'ping',
+        recipeParams: {
+          operation: 'concat',
+          inputs: [
+            { type: 'constant', value: 'ping ' },
+            { type: 'constant', value: 'temp' }
+          ]
+        }
+      },
+      'concat("ping ", "temp")'
+    );
+    const pongId = createDerivation(
+      appDal,
+      {
+        label: 'pong',
+        recipeParams: {
+          operation: 'concat',
+          inputs: [
+            { type: 'constant', value: 'pong ' },
+            { type: 'derivation', id: pingId }
+          ]
+        }
+      },
+      `concat("pong ", $${pingId})`
+    );
+    updateDerivation(
+      appDal,
+      pingId,
+      {
+        label: 'ping',
+        recipeParams: {
+          operation: 'concat',
+          inputs: [
+            { type: 'constant', value: 'ping ' },
+            { type: 'derivation', id: pongId }
+          ]
+        }
+      },
+      `concat("ping ", $${pongId})`
+    );
+
+    const result = await plan(pingId);
+
+    expect(result.hasCycles).toBe(true);
+    expect(result.steps.map((s) => [s.derivationId, s.status, s.seededFor])).toEqual([
+      [pingId, 'seed', pongId],
+      [pongId, 'compute', undefined],
+      [pingId, 'compute', undefined]
+    ]);
+  });
+
+  it('should list URLs that would be fetched', async () => {
+    const urlId = createDerivation(
+      appDal,
+      {
+        label: null,
+        recipeParams: {
+          operation: 'getUrlContent',
+          inputs: [{ type: 'constant', value: 'https://example.com' }]
+        }
+      },
+      'getUrlContent("https://example.com")'
+    );
+
+    const result = await plan(urlId);
+
+    expect(result.urls).toEqual(['https://example.com']);
+    expect(result.unresolvedUrlCount).toBe(0);
+  });
+
+  it('should plan each map element as its own step once the list is known', async () => {
+    const derivationId = createDerivation(
+      appDal,
+      {
+        label: null,
+        recipeParams: {
+          operation: 'map',
+          inputs: [
+            {
+              type: 'computed_step',
+              step: {
+                operation: 'split',
+                inputs: [
+                  { type: 'constant', value: 'a,b' },
+                  { type: 'constant', value: ',' }
+                ]
+              }
+            },
+            {
+              type: 'computed_step',
+              step: { operation: 'identity', inputs: [{ type: 'map_item' }] }
+            }
+          ]
+        }
+      },
+      'split("a,b", ",") |> map(identity())'
+    );
+
+    // elements are unknown until the split is computed
+    expect((await plan(derivationId)).steps.map((s) => s.recipeParams.operation)).toEqual([
+      'split',
+      'map'
+    ]);
+
+    await getOrComputeDerivedContent(derivationId);
+    expect(
+      (await plan(derivationId)).steps.map((s) => [s.recipeParams.operation, s.status])
+    ).toEqual([
+      ['split', 'cached'],
+      ['identity', 'cached'],
+      ['identity', 'cached'],
+      ['map', 'cached']
+    ]);
+  });
+
+  it('should plan parameterized formulas once per binding, and only where they are bound', async () => {
+    const storyId = createDerivation(
+      appDal,
+      {
+        label: 'story',
+        recipeParams: { operation: 'identity', inputs: [{ type: 'param', name: 'topic' }] }
+      },
+      'identity(param("topic"))'
+    );
+    const derivationId = createDerivation(
+      appDal,
+      {
+        label: null,
+        recipeParams: {
+          operation: 'concat',
+          inputs: [
+            { type: 'derivation', id: storyId, params: { topic: 'kites' } },
+            { type: 'derivation', id: storyId, params: { topic: 'balloons' } }
+          ]
+        }
+      },
+      `concat($${storyId}(topic="kites"), $${storyId}(topic="balloons"))`
+    );
+
+    expect((await plan(derivationId)).steps.map((s) => [s.derivationId, s.status])).toEqual([
+      [storyId, 'compute'],
+      [storyId, 'compute'],
+      [derivationId, 'compute']
+    ]);
+
+    await getOrComputeDerivedContent(derivationId);
+    expect((await plan(derivationId)).steps.map((s) => s.status)).toEqual([
+      'cached',
+      'cached',
+      'cached'
+    ]);
+  });
+
+  it('should keep untaken branches as dependencies but only plan the branch a read takes', async () => {
+    const createBranch = (value: string) =>
+      createDerivation(
+        appDal,
+        {
+          label: null,
+          recipeParams: { operation: 'upper', inputs: [{ type: 'constant', value }] }
+        },
+        `upper("${value}")`
+      );
+    const thenId = createBranch('then');
+    const elseId = createBranch('else');
+    const createIf = (condition: string) =>
+      createDerivation(
+        appDal,
+        {
+          label: null,
+          recipeParams: {
+            operation: 'if',
+            inputs: [
+              condition === 'unknown'
+                ? {
+                    type: 'computed_step',
+                    step: { operation: 'trim', inputs: [{ type: 'constant', value: 'yes' }] }
+                  }
+                : { type: 'constant', value: condition },
+              { type: 'derivation', id: thenId },
+              { type: 'derivation', id: elseId }
+            ]
+          }
+        },
+        `if("${condition}", $${thenId}, $${elseId})`
+      );
+
+    const known = await plan(createIf('no'));
+    expect(known.units.map((unit) => unit.type === 'acyclic' && unit.nodeId)).toContain(thenId);
+    expect(known.steps.map((s) => s.derivationId)).not.toContain(thenId);
+    expect(known.steps.map((s) => s.derivationId)).toContain(elseId);
+
+    // a condition that still needs computing could pick either branch
+    const unknown = await plan(createIf('unknown'));
+    expect(unknown.steps.map((s) => s.derivationId)).toEqual(
+      expect.arrayContaining([thenId, elseId])
+    );
+  });
+});
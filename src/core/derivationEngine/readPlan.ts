@@ -0,0 +1,365 @@
+import { isNil, maxBy, sumBy } from 'lodash-es';
+import { AppDal } from '../db/app_dal.js';
+import {
+  IfDerivationParams,
+  InputDescriptorItem,
+  isLlmStep,
+  MapDerivationParams,
+  StepParams,
+  SwitchDerivationParams
+} from '../db/types.js';
+import { getDerivationCacheKey, hash } from '../utils.js';
+import { createExecutionPlan, PlanUnit } from './planner.js';
+import { findEquivalentResult } from './cache.js';
+import { getReadErrorInfo, ReadErrorInfo } from './errors.js';
+import { bindStepParams, getBindingKey, mapItemBinding, ParameterBindings } from './parameters.js';
+import { decodeList, encodeList } from './lists.js';
+import { readWatchedFile, readWatchedGlob } from './localFiles.js';
+import { selectBranch } from './branches.js';
+import { ESTIMATED_CHARS_PER_TOKEN, ESTIMATED_COMPLETION_TOKENS } from './constants.js';
+
+export type PlannedStepStatus = 'cached' | 'compute' | 'seed';
+
+export type PlannedStep = {
+  // formula the step belongs to
+  derivationId: string;
+  stepId: string;
+  recipeParams: StepParams;
+  // 'seed' marks a backreference inside a cycle, substituted with an empty value
+  status: PlannedStepStatus;
+  // for seeds, the formula whose evaluation reaches the backreference
+  seededFor?: string;
+  // approximate size of the inputs of steps that will be computed
+  inputTokens: number;
+};
+
+export type ReadPlan = {
+  rootDerivationId: string;
+  hasCycles: boolean;
+  // topologically ordered, upstream first
+  units: PlanUnit[];
+  // in evaluation order; a formula's steps come after the steps they consume
+  steps: PlannedStep[];
+  pinnedPaths: string[];
+  // URLs fetched by getUrlContent steps that will be computed
+  urls: string[];
+  // getUrlContent steps whose URL is only known after computing
+  unresolvedUrlCount: number;
+};
+
+type ProbedOutput = {
+  // undefined when the output is only known after computing
+  contentHash: string | undefined;
+  // the content itself, when already available
+  text?: string;
+  tokens: number;
+};
+
+type ProbeContext = {
+  appDal: AppDal;
+  skipCache: boolean;
+  // files are only hashed from disk when given
+  watchedDirectory: string | undefined;
+  // keyed by formula and binding
+  derivationOutputs: Map<string, ProbedOutput>;
+  // derivations being probed; meeting one again means it seeds a cycle
+  inProgress: Set<string>;
+  // outputs of uncached steps already planned, so duplicates are computed once
+  pendingOutputs: Map<string, ProbedOutput>;
+  steps: PlannedStep[];
+  pinnedPaths: Set<string>;
+  urls: Set<string>;
+  unresolvedUrlCount: number;
+};
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / ESTIMATED_CHARS_PER_TOKEN);
+
+const _probeText = (text: string): ProbedOutput => ({
+  contentHash: hash(text),
+  text,
+  tokens: estimateTokens(text)
+});
+
+const _probeContent = (appDal: AppDal, contentHash: string): ProbedOutput => {
+  const text = appDal.core.findContentByHash(contentHash);
+  return { contentHash, text, tokens: estimateTokens(text ?? '') };
+};
+
+const _probeInput = async (
+  ctx: ProbeContext,
+  derivationId: string,
+  input: InputDescriptorItem,
+  bindings: ParameterBindings
+): Promise<ProbedOutput> => {
+  switch (input.type) {
+    case 'content':
+      return _probeContent(ctx.appDal, input.hash);
+    case 'constant':
+      return _probeText(input.value);
+    case 'pinned_path': {
+      ctx.pinnedPaths.add(input.path);
+      const docId = ctx.appDal.core.findDocIdByPath(input.path);
+      const contentHash = isNil(docId) ? undefined : ctx.appDal.core.findHashByDocId(docId);
+      return isNil(contentHash)
+        ? { contentHash: undefined, tokens: 0 }
+        : _probeContent(ctx.appDal, contentHash);
+    }
+    case 'derivation':
+      return _probeDerivation(ctx, input.id, derivationId, input.params);
+    case 'internal_step_link': {
+      let stepParams: StepParams | undefined;
+      try {
+        stepParams = ctx.appDal.derivations.getStepStoredParams(input.targetStepId);
+      } catch {
+        // noop, be undefined
+      }
+      return isNil(stepParams)
+        ? { contentHash: undefined, tokens: 0 }
+        : _probeStep(ctx, derivationId, input.targetStepId, stepParams, bindings);
+    }
+    case 'param':
+    case 'map_item':
+      // unbound, the read will fail here
+      return { contentHash: undefined, tokens: 0 };
+    case 'file': {
+      ctx.pinnedPaths.add(input.path);
+      if (isNil(ctx.watchedDirectory)) return { contentHash: undefined, tokens: 0 };
+      const file = await readWatchedFile(ctx.watchedDirectory, input.path);
+      return file.success ? _probeText(file.content) : { contentHash: undefined, tokens: 0 };
+    }
+    case 'file_glob': {
+      ctx.pinnedPaths.add(input.pattern);
+      if (isNil(ctx.watchedDirectory)) return { contentHash: undefined, tokens: 0 };
+      const matched = await readWatchedGlob(ctx.watchedDirectory, input.pattern);
+      return matched.success
+        ? _probeText(encodeList(matched.files.map((file) => file.content)))
+        : { contentHash: undefined, tokens: 0 };
+    }
+  }
+};
+
+/**
+ * Resolves a step's output from the cache where possible, without calling any
+ * operation. Steps with inputs that are not known yet will be computed.
+ */
+const _probeStep = async (
+  ctx: ProbeContext,
+  derivationId: string,
+  stepId: string,
+  storedParams: StepParams,
+  bindings: ParameterBindings
+): Promise<ProbedOutput> => {
+  const recipeParams = bindStepParams(storedParams, bindings);
+  const inputs: ProbedOutput[] = [];
+  if (recipeParams.operation === 'map') {
+    inputs.push(...(await _probeMapInputs(ctx, derivationId, recipeParams, bindings)));
+  } else if (recipeParams.operation === 'if' || recipeParams.operation === 'switch') {
+    inputs.push(...(await _probeBranchInputs(ctx, derivationId, recipeParams, bindings)));
+  } else {
+    for (const input of recipeParams.inputs) {
+      inputs.push(await _probeInput(ctx, derivationId, input, bindings));
+    }
+  }
+
+  const inputHashes = inputs.map((input) => input.contentHash);
+  const cacheKey = inputHashes.every((h) => !isNil(h))
+    ? getDerivationCacheKey(recipeParams, inputHashes)
+    : undefined;
+
+  if (!isNil(cacheKey)) {
+    const pending = ctx.pendingOutputs.get(cacheKey);
+    if (!isNil(pending)) {
+      ctx.steps.push({ derivationId, stepId, recipeParams, status: 'cached', inputTokens: 0 });
+      return pending;
+    }
+    if (!ctx.skipCache) {
+      const cacheHit = await findEquivalentResult(ctx.appDal, cacheKey, stepId);
+      if (cacheHit.cache === 'hit') {
+        ctx.steps.push({ derivationId, stepId, recipeParams, status: 'cached', inputTokens: 0 });
+        return _probeContent(ctx.appDal, cacheHit.outputHash);
+      }
+    }
+  }
+
+  const inputTokens = sumBy(inputs, (input) => input.tokens);
+  ctx.steps.push({ derivationId, stepId, recipeParams, status: 'compute', inputTokens });
+
+  if (recipeParams.operation === 'getUrlContent') {
+    const url = inputs[0]?.text;
+    if (isNil(url)) {
+      ctx.unresolvedUrlCount++;
+    } else {
+      ctx.urls.add(url);
+    }
+  }
+
+  const output: ProbedOutput = {
+    contentHash: undefined,
+    // other operations are assumed to output about as much as they take in
+    tokens: isLlmStep(recipeParams)
+      ? ESTIMATED_COMPLETION_TOKENS
+      : recipeParams.operation === 'map'
+        ? sumBy(inputs.slice(1), (input) => input.tokens)
+        : recipeParams.operation === 'if' || recipeParams.operation === 'switch'
+          ? (maxBy(inputs.slice(1), (input) => input.tokens)?.tokens ?? 0)
+          : inputTokens
+  };
+  if (!isNil(cacheKey)) {
+    ctx.pendingOutputs.set(cacheKey, output);
+  }
+  return output;
+};
+
+/**
+ * Mirrors how a map is read: the list, then the body applied to each element.
+ * Elements are only known once the list is.
+ */
+const _probeMapInputs = async (
+  ctx: ProbeContext,
+  derivationId: string,
+  recipeParams: MapDerivationParams,
+  bindings: ParameterBindings
+): Promise<ProbedOutput[]> => {
+  const [listInput, bodyInput] = recipeParams.inputs;
+  if (isNil(listInput) || isNil(bodyInput)) {
+    return [];
+  }
+  const list = await _probeInput(ctx, derivationId, listInput, bindings);
+  const items = isNil(list.text) ? undefined : decodeList(list.text);
+  if (isNil(items)) {
+    return [list, { contentHash: undefined, tokens: 0 }];
+  }
+  const elements: ProbedOutput[] = [];
+  for (const item of items) {
+    elements.push(
+      await _probeInput(ctx, derivationId, bodyInput, { ...bindings, [mapItemBinding]: item })
+    );
+  }
+  return [list, ...elements];
+};
+
+/**
+ * Mirrors how a branch is read: the condition, then the branch it picks. When
+ * the condition is only known after computing, every branch is planned, so
+ * estimates err on the side of more work.
+ */
+const _probeBranchInputs = async (
+  ctx: ProbeContext,
+  derivationId: string,
+  recipeParams: IfDerivationParams | SwitchDerivationParams,
+  bindings: ParameterBindings
+): Promise<ProbedOutput[]> => {
+  const [selectorInput, ...branchInputs] = recipeParams.inputs;
+  if (isNil(selectorInput)) {
+    return [];
+  }
+  const selector = await _probeInput(ctx, derivationId, selectorInput, bindings);
+  const selected = isNil(selector.text) ? undefined : selectBranch(recipeParams, selector.text);
+  const probedInputs = isNil(selected)
+    ? branchInputs
+    : selected.success && !isNil(selected.inputIndex)
+      ? [recipeParams.inputs[selected.inputIndex]!]
+      : [];
+  const branches: ProbedOutput[] = [];
+  for (const input of probedInputs) {
+    branches.push(await _probeInput(ctx, derivationId, input, bindings));
+  }
+  return [selector, ...branches];
+};
+
+const _probeDerivation = async (
+  ctx: ProbeContext,
+  derivationId: string,
+  referencedBy?: string,
+  bindings: ParameterBindings = {}
+): Promise<ProbedOutput> => {
+  const outputKey = `${derivationId}|${getBindingKey(bindings)}`;
+  const known = ctx.derivationOutputs.get(outputKey);
+  if (!isNil(known)) {
+    return known;
+  }
+  const derivation = ctx.appDal.derivations.findDerivationById(derivationId);
+  if (isNil(derivation)) {
+    return { contentHash: undefined, tokens: 0 };
+  }
+  if (ctx.inProgress.has(derivationId)) {
+    ctx.steps.push({
+      derivationId,
+      stepId: derivation.final_step_id,
+      recipeParams: derivation.recipe_params,
+      status: 'seed',
+      seededFor: referencedBy,
+      inputTokens: 0
+    });
+    return { contentHash: undefined, tokens: 0 };
+  }
+
+  ctx.inProgress.add(derivationId);
+  const output = await _probeStep(
+    ctx,
+    derivationId,
+    derivation.final_step_id,
+    derivation.recipe_params,
+    bindings
+  );
+  ctx.inProgress.delete(derivationId);
+
+  ctx.derivationOutputs.set(outputKey, output);
+  return output;
+};
+
+/**
+ * Works out what reading a formula would do without running any operation:
+ * which steps are cached, which need computing and which are seeded inside a
+ * cycle. A step is only known to be cached when all of its inputs are, so
+ * anything downstream of a step that needs computing is planned as computed too.
+ * Files are hashed from disk when `watchedDirectory` is given, and otherwise
+ * planned as computed.
+ */
+export async function getReadPlan(
+  appDal: AppDal,
+  derivationId: string,
+  opts?: { skipCache?: boolean; watchedDirectory?: string }
+): Promise<{ success: true; plan: ReadPlan } | { success: false; error: ReadErrorInfo }> {
+  const planResult = await createExecutionPlan(appDal, derivationId);
+  if (!planResult.success) {
+    const { error } = planResult;
+    return {
+      success: false,
+      error:
+        error.kind === 'formula_not_found'
+          ? getReadErrorInfo('derivationNotFound', { derivationId: error.derivationId })
+          : getReadErrorInfo('unexpectedDerivationComputationError', { error: error.message })
+    };
+  }
+
+  const ctx: ProbeContext = {
+    appDal,
+    skipCache: opts?.skipCache ?? false,
+    watchedDirectory: opts?.watchedDirectory,
+    derivationOutputs: new Map(),
+    inProgress: new Set(),
+    pendingOutputs: new Map(),
+    steps: [],
+    pinnedPaths: new Set(),
+    urls: new Set(),
+    unresolvedUrlCount: 0
+  };
+
+  // probed from the formula being read, like the read itself, so formulas
+  // behind untaken branches aren't planned
+  await _probeDerivation(ctx, derivationId);
+
+  return {
+    success: true,
+    plan: {
+      rootDerivationId: derivationId,
+      hasCycles: planResult.plan.hasCycles,
+      units: planResult.plan.planUnits,
+      steps: ctx.steps,
+      pinnedPaths: [...ctx.pinnedPaths],
+      urls: [...ctx.urls],
+      unresolvedUrlCount: ctx.unresolvedUrlCount
+    }
+  };
+}
@@ -0,0 +1,165 @@
+import { describe, it, beforeEach, expect } from 'vitest';
+import { AppDal, createMockAppDal } from '../db/app_dal.js';
+import { createMockQueue } from '../limiting/rateLimitQueue.js';
+import { createMockRateLimitManager } from '../limiting/modelRateLimitManager.js';
+import { RateLimiter } from '../limiting';
+import { EmbeddingInputData, EmbeddingOutput } from '../types.js';
+import { getOrComputeDerivedContent as _getOrComputeDerivedContent } from './read.js';
+import { createDerivation } from './write.js';
+import { getDerivationStatus, getDerivationStatuses } from './status.js';
+import { hash } from '../utils.js';
+
+describe('Derivation status', () => {
+  let appDal: AppDal;
+  let limiter: RateLimiter;
+
+  const getOrComputeDerivedContent = (derivationId: string) =>
+    _getOrComputeDerivedContent(
+      appDal,
+      derivationId,
+      limiter,
+      {
+        openaiApiKey: 'test',
+        openRouterApiKey: 'test',
+        databasePath: 'test',
+        watchedDirectory: 'test',
+        embeddingRpmLimit: 1000,
+        skipEmbedding: false,
+        debug: false,
+        theme: 'system' as const
+      },
+      { operationOptions: { environment: 'test' } }
+    );
+
+  beforeEach(async () => {
+    appDal = await createMockAppDal();
+    limiter = createMockRateLimitManager(
+      createMockQueue<EmbeddingInputData, EmbeddingOutput>(async () => ({
+        embedding: 'test',
+        usage: { promptTokens: 1 },
+        modelName: 'test'
+      }))
+    );
+  });
+
+  const editNotes = (content: string) =>
+    appDal.upsertDocumentAndPath('/notes.md', hash(content), content);
+
+  // notes -> identity(notes) -> concat("Summary: ", $upstream)
+  const createChain = () => {
+    editNotes('notes');
+    const upstreamId = createDerivation(
+      appDal,
+      {
+        label: 'upstream',
+        recipeParams: {
+          operation: 'identity',
+          inputs: [{ type: 'pinned_path', path: '/notes.md' }]
+        }
+      },
+      'identity(`/notes.md`)'
+    );
+    const downstreamId = createDerivation(
+      appDal,
+      {
+        label: 'downstream',
+        recipeParams: {
+          operation: 'concat',
+          inputs: [
+            { type: 'constant', value: 'Summary: ' },
+            { type: 'derivation', id: upstreamId }
+          ]
+        }
+      },
+      `concat("Summary: ", $${upstreamId})`
+    );
+    return { upstreamId, downstreamId };
+  };
+
+  it('should be never-computed until read, then fresh', async () => {
+    const { upstreamId, downstreamId } = createChain();
+
+    expect(await getDerivationStatus(appDal, downstreamId)).toEqual({ status: 'never-computed' });
+
+    await getOrComputeDerivedContent(downstreamId);
+
+    expect(await getDerivationStatus(appDal, downstreamId)).toEqual({ status: 'fresh' });
+    expect(await getDerivationStatus(appDal, upstreamId)).toEqual({ status: 'fresh' });
+  });
+
+  it('should name the upstream that changed', async () => {
+    const { upstreamId, downstreamId } = createChain();
+    await getOrComputeDerivedContent(downstreamId);
+
+    editNotes('edited notes');
+
+    expect(await getDerivationStatus(appDal, upstreamId)).toEqual({
+      status: 'stale',
+      changed: [{ type: 'path', path: '/notes.md' }]
+    });
+    expect(await getDerivationStatus(appDal, downstreamId)).toEqual({
+      status: 'stale',
+      changed: [
+        { type: 'formula', derivationId: upstreamId },
+        { type: 'path', path: '/notes.md' }
+      ]
+    });
+
+    // the upstream is current again, but the downstream still has the old output
+    await getOrComputeDerivedContent(upstreamId);
+
+    expect(await getDerivationStatus(appDal, upstreamId)).toEqual({ status: 'fresh' });
+    expect(await getDerivationStatus(appDal, downstreamId)).toEqual({
+      status: 'stale',
+      changed: [{ type: 'formula', derivationId: upstreamId }]
+    });
+  });
+
+  it('should give the status of every formula at once', async () => {
+    const { upstreamId, downstreamId } = createChain();
+    const unreadId = createDerivation(
+      appDal,
+      {
+        label: null,
+        recipeParams: { operation: 'identity', inputs: [{ type: 'constant', value: 'a' }] }
+      },
+      'identity("a")'
+    );
+    await getOrComputeDerivedContent(downstreamId);
+    editNotes('edited notes');
+
+    expect(await getDerivationStatuses(appDal)).toEqual({
+      [upstreamId]: { status: 'stale', changed: [{ type: 'path', path: '/notes.md' }] },
+      [downstreamId]: {
+        status: 'stale',
+        changed: [
+          { type: 'formula', derivationId: upstreamId },
+          { type: 'path', path: '/notes.md' }
+        ]
+      },
+      [unreadId]: { status: 'never-computed' }
+    });
+    expect(await getDerivationStatuses(appDal, [upstreamId])).toEqual({
+      [upstreamId]: { status: 'stale', changed: [{ type: 'path', path: '/notes.md' }] }
+    });
+  });
+
+  it('should report a failed read as an error', async () => {
+    const derivationId = createDerivation(
+      appDal,
+      {
+        label: null,
+        recipeParams: {
+          operation: 'identity',
+          inputs: [{ type: 'pinned_path', path: '/missing.md' }]
+        }
+      },
+      'identity(`/missing.md`)'
+    );
+
+    await getOrComputeDerivedContent(derivationId);
+
+    expect(await getDerivationStatus(appDal, derivationId)).toMatchObject({ status: 'error' });
+    expect(await getDerivationStatus(appDal, 'missing')).toMatchObject({ status: 'error' });
+  });
+});
@@ -0,0 +1,270 @@
+import { isEmpty, isNil, uniqBy } from 'lodash-es';
+import { AppDal } from '../db/app_dal.js';
+import { InputDescriptorItem, StepParams } from '../db/types.js';
+import { hash } from '../utils.js';
+import { getReadErrorInfo } from './errors.js';
+import { encodeList } from './lists.js';
+import { readWatchedFile, readWatchedGlob } from './localFiles.js';
+import { selectBranch } from './branches.js';
+
+// a formula, or a pinned path, file or glob pattern
+export type StaleUpstream =
+  | { type: 'formula'; derivationId: string }
+  | { type: 'path'; path: string };
+
+export type DerivationStatus =
+  | { status: 'fresh' }
+  // `changed` is upstream first, and may be empty when the cause is unknown (e.g. after gc)
+  | { status: 'stale'; changed: StaleUpstream[] }
+  | { status: 'never-computed' }
+  // the formula's last read failed, or it doesn't exist
+  | { status: 'error'; message: string };
+
+type StatusContext = {
+  appDal: AppDal;
+  watchedDirectory: string | undefined;
+  // statuses already worked out, shared by every formula checked together
+  statuses: Map<string, DerivationStatus>;
+  // formulas being checked; meeting one again closes a cycle
+  inProgress: Set<string>;
+  // file and glob hashes, read from disk once per check
+  pathHashes: Map<string, Promise<string | undefined>>;
+};
+
+// whether a step would be computed by a read, and the upstream that changed
+type StepCheck = { stale: boolean; changed: StaleUpstream[] };
+
+const fresh: StepCheck = { stale: false, changed: [] };
+
+const _readPathHash = (
+  ctx: StatusContext,
+  key: string,
+  read: () => Promise<string | undefined>
+) => {
+  let pathHash = ctx.pathHashes.get(key);
+  if (isNil(pathHash)) {
+    pathHash = read();
+    ctx.pathHashes.set(key, pathHash);
+  }
+  return pathHash;
+};
+
+const _mergeChecks = (checks: StepCheck[]): StepCheck => ({
+  stale: checks.some((check) => check.stale),
+  changed: checks.flatMap((check) => check.changed)
+});
+
+const _checkChanged = (
+  current: string | undefined,
+  previous: string | undefined,
+  upstream: StaleUpstream
+): StepCheck => (current === previous ? fresh : { stale: true, changed: [upstream] });
+
+/**
+ * Compares an input with the hash it had when its step was last computed.
+ * Inputs that depend on bindings can't be compared without reading, so only
+ * what they read from is checked.
+ */
+const _checkInput = async (
+  ctx: StatusContext,
+  input: InputDescriptorItem,
+  previousHash: string | undefined
+): Promise<StepCheck> => {
+  switch (input.type) {
+    case 'derivation': {
+      const upstream: StaleUpstream = { type: 'formula', derivationId: input.id };
+      const derivation = ctx.appDal.derivations.findDerivationById(input.id);
+      if (isNil(derivation)) {
+        return { stale: true, changed: [upstream] };
+      }
+      // the cycle is read as a whole, so its members are not stale on account of each other
+      const status = ctx.inProgress.has(input.id)
+        ? { status: 'fresh' as const }
+        : await _getStatus(ctx, input.id);
+      const upstreamStale: StepCheck =
+        status.status === 'fresh'
+          ? fresh
+          : {
+              stale: true,
+              changed: [upstream, ...(status.status === 'stale' ? status.changed : [])]
+            };
+      if (!isEmpty(input.params)) {
+        return upstreamStale;
+      }
+      const current = ctx.appDal.derivations.findStepResultOutputHash(derivation.final_step_id);
+      return _mergeChecks([upstreamStale, _checkChanged(current, previousHash, upstream)]);
+    }
+    case 'internal_step_link': {
+      const nested = await _checkStep(ctx, input.targetStepId);
+      const current = ctx.appDal.derivations.findStepResultOutputHash(input.targetStepId);
+      return current === previousHash ? nested : { ...nested, stale: true };
+    }
+    case 'pinned_path': {
+      const docId = ctx.appDal.core.findDocIdByPath(input.path);
+      const current = isNil(docId) ? undefined : ctx.appDal.core.findHashByDocId(docId);
+      return _checkChanged(current, previousHash, { type: 'path', path: input.path });
+    }
+    case 'file': {
+      const current = await _readPathHash(ctx, `file:${input.path}`, async () => {
+        const file = await readWatchedFile(ctx.watchedDirectory, input.path);
+        return file.success ? hash(file.content) : undefined;
+      });
+      return _checkChanged(current, previousHash, { type: 'path', path: input.path });
+    }
+    case 'file_glob': {
+      const current = await _readPathHash(ctx, `glob:${input.pattern}`, async () => {
+        const matched = await readWatchedGlob(ctx.watchedDirectory, input.pattern);
+        return matched.success
+          ? hash(encodeList(matched.files.map((file) => file.content)))
+          : undefined;
+      });
+      return _checkChanged(current, previousHash, { type: 'path', path: input.pattern });
+    }
+    case 'content':
+    case 'constant':
+      // fixed in the recipe
+      return fresh;
+    case 'param':
+    case 'map_item':
+      // only known once bound
+      return fresh;
+  }
+};
+
+/**
+ * The inputs a step's stored hashes line up with. A map stores its list and
+ * then one hash per element, and a branch its condition and then the branch it
+ * took, so only those are compared.
+ */
+const _comparedInputs = (
+  ctx: StatusContext,
+  recipeParams: StepParams,
+  previousHashes: string[]
+): InputDescriptorItem[] => {
+  if (recipeParams.operation === 'map') {
+    return recipeParams.inputs.slice(0, 1);
+  }
+  if (recipeParams.operation === 'if' || recipeParams.operation === 'switch') {
+    const [selectorInput] = recipeParams.inputs;
+    const selectorHash = previousHashes[0];
+    const selector = isNil(selectorHash)
+      ? undefined
+      : ctx.appDal.core.findContentByHash(selectorHash);
+    const selected = isNil(selector) ? undefined : selectBranch(recipeParams, selector);
+    return [
+      ...(isNil(selectorInput) ? [] : [selectorInput]),
+      ...(selected?.success && !isNil(selected.inputIndex)
+        ? [recipeParams.inputs[selected.inputIndex]!]
+        : [])
+    ];
+  }
+  return recipeParams.inputs;
+};
+
+/** Checks a step against the input hashes it was last computed with */
+const _checkStep = async (ctx: StatusContext, stepId: string): Promise<StepCheck> => {
+  const previous = ctx.appDal.derivations.findStepResultContext(stepId);
+  const recipeParams = ctx.appDal.derivations.getStepStoredParams(stepId);
+  if (isNil(previous) || isNil(recipeParams)) {
+    // never computed, or its result was collected
+    return { stale: true, changed: [] };
+  }
+  const checks: StepCheck[] = [];
+  const compared = _comparedInputs(ctx, recipeParams, previous.input_content_hashes);
+  for (const [index, input] of compared.entries()) {
+    checks.push(await _checkInput(ctx, input, previous.input_content_hashes[index]));
+  }
+  return _mergeChecks(checks);
+};
+
+const _getStatus = async (ctx: StatusContext, derivationId: string): Promise<DerivationStatus> => {
+  const known = ctx.statuses.get(derivationId);
+  if (!isNil(known)) {
+    return known;
+  }
+
+  ctx.inProgress.add(derivationId);
+  const status = await _findStatus(ctx, derivationId);
+  ctx.inProgress.delete(derivationId);
+
+  ctx.statuses.set(derivationId, status);
+  return status;
+};
+
+const _findStatus = async (ctx: StatusContext, derivationId: string): Promise<DerivationStatus> => {
+  const { appDal } = ctx;
+  const derivation = appDal.derivations.findDerivationById(derivationId);
+  if (isNil(derivation)) {
+    return {
+      status: 'error',
+      message: getReadErrorInfo('derivationNotFound', { derivationId }).message
+    };
+  }
+
+  const [latestFailure] = appDal.derivations.getRecentStepFailures({ derivationId, limit: 1 });
+  if (!isNil(latestFailure) && isNil(latestFailure.resolved_at)) {
+    return { status: 'error', message: latestFailure.error_message };
+  }
+
+  if (isNil(appDal.derivations.findStepCacheKey(derivation.final_step_id))) {
+    return { status: 'never-computed' };
+  }
+
+  const check = await _checkStep(ctx, derivation.final_step_id);
+  if (!check.stale) {
+    return { status: 'fresh' };
+  }
+  return {
+    status: 'stale',
+    changed: uniqBy(check.changed, (upstream) =>
+      upstream.type === 'formula' ? `formula:${upstream.derivationId}` : `path:${upstream.path}`
+    )
+  };
+};
+
+const _createStatusContext = (
+  appDal: AppDal,
+  opts?: { watchedDirectory?: string }
+): StatusContext => ({
+  appDal,
+  watchedDirectory: opts?.watchedDirectory,
+  statuses: new Map(),
+  inProgress: new Set(),
+  pathHashes: new Map()
+});
+
+/**
+ * Whether a formula's cached output is current for its inputs, without running
+ * any operation. Each step's stored input hashes are compared with the current
+ * outputs of the steps and formulas it takes, and with the current hashes of
+ * the paths it reads. A formula is stale when a read would compute something;
+ * the upstream named as changed are the formulas that are stale themselves,
+ * and the inputs that no longer match what a step was last computed from.
+ */
+export async function getDerivationStatus(
+  appDal: AppDal,
+  derivationId: string,
+  opts?: { watchedDirectory?: string }
+): Promise<DerivationStatus> {
+  return _getStatus(_createStatusContext(appDal, opts), derivationId);
+}
+
+/**
+ * The status of each formula, or of every formula when none are given. Shared
+ * upstream formulas and paths are checked once for all of them.
+ */
+export async function getDerivationStatuses(
+  appDal: AppDal,
+  derivationIds?: string[],
+  opts?: { watchedDirectory?: string }
+): Promise<Record<string, DerivationStatus>> {
+  const ctx = _createStatusContext(appDal, opts);
+  const ids =
+    derivationIds ??
+    appDal.derivations.getAllDerivations().map((derivation) => derivation.derivation_id);
+  const statuses: Record<string, DerivationStatus> = {};
+  for (const derivationId of ids) {
+    statuses[derivationId] = await _getStatus(ctx, derivationId);
+  }
+  return statuses;
+}
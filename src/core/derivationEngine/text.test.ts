@@ -0,0 +1,66 @@
+import { describe, it, expect, assert } from 'vitest';
+import { compilePattern, extractMatch, fillTemplate, sliceLines } from './text.js';
+
+describe('compilePattern', () => {
+  it('reports invalid regular expressions', () => {
+    const result = compilePattern('(unclosed', 'g');
+    assert(!result.success);
+    expect(result.error).toContain('/(unclosed/');
+  });
+});
+
+describe('extractMatch', () => {
+  const regex = (pattern: string) => {
+    const compiled = compilePattern(pattern, 'm');
+    assert(compiled.success);
+    return compiled.regex;
+  };
+
+  it('returns the whole match or a group of the first match', () => {
+    expect(extractMatch('id: 12, id: 34', regex('id: (\\d+)'), 0)).toEqual({
+      success: true,
+      output: 'id: 12'
+    });
+    expect(extractMatch('id: 12, id: 34', regex('id: (\\d+)'), 1)).toEqual({
+      success: true,
+      output: '12'
+    });
+  });
+
+  it('returns empty text without a match, and fails for a missing group', () => {
+    expect(extractMatch('nothing here', regex('id: (\\d+)'), 1)).toEqual({
+      success: true,
+      output: ''
+    });
+    expect(extractMatch('id: 12', regex('id: (\\d+)'), 2).success).toBe(false);
+  });
+});
+
+describe('sliceLines', () => {
+  const text = 'one\ntwo\r\nthree\nfour\n';
+
+  it('selects an inclusive 1-based range', () => {
+    expect(sliceLines(text, 2, 3)).toBe('two\nthree');
+    expect(sliceLines(text, 3)).toBe('three\nfour');
+    expect(sliceLines(text, undefined, 1)).toBe('one');
+  });
+
+  it('counts negative line numbers back from the last line', () => {
+    expect(sliceLines(text, -2)).toBe('three\nfour');
+    expect(sliceLines(text, 1, -2)).toBe('one\ntwo\nthree');
+  });
+
+  it('returns empty text for ranges outside the input', () => {
+    expect(sliceLines(text, 5)).toBe('');
+    expect(sliceLines(text, 3, 2)).toBe('');
+    expect(sliceLines(text, -10, 1)).toBe('one');
+  });
+});
+
+describe('fillTemplate', () => {
+  it('fills numbered placeholders and leaves the rest as written', () => {
+    expect(fillTemplate('{0}, {1}! {0} {2} {name}', ['Hello', 'world'])).toBe(
+      'Hello, world! Hello {2} {name}'
+    );
+  });
+});
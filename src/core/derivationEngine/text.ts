@@ -0,0 +1,58 @@
+/**
+ * Deterministic text helpers behind replace, extract, lines and template.
+ * Patterns are JavaScript regular expressions in multiline mode, so ^ and $
+ * match at line boundaries.
+ */
+
+export const compilePattern = (
+  pattern: string,
+  flags: string
+): { success: true; regex: RegExp } | { success: false; error: string } => {
+  try {
+    return { success: true, regex: new RegExp(pattern, flags) };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Invalid regular expression /${pattern}/: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
+
+const _countGroups = (regex: RegExp): number =>
+  // an alternative that always matches yields one (empty) slot per group
+  new RegExp(`${regex.source}|`).exec('')!.length - 1;
+
+/** The given group of the first match, or an empty string when nothing matches */
+export const extractMatch = (
+  text: string,
+  regex: RegExp,
+  group: number
+): { success: true; output: string } | { success: false; error: string } => {
+  const groupCount = _countGroups(regex);
+  if (group > groupCount) {
+    return {
+      success: false,
+      error: `/${regex.source}/ has ${groupCount} group(s), so there is no group ${group}`
+    };
+  }
+  return { success: true, output: regex.exec(text)?.[group] ?? '' };
+};
+
+/**
+ * Lines `from` to `to`, both 1-based and inclusive. Negative numbers count back
+ * from the last line. A trailing newline doesn't start another line.
+ */
+export const sliceLines = (text: string, from = 1, to = -1): string => {
+  const lines = text.split(/\r?\n/);
+  if (lines.length > 1 && lines.at(-1) === '') lines.pop();
+  const toIndex = (line: number) => (line < 0 ? lines.length + line : line - 1);
+  return lines.slice(Math.max(toIndex(from), 0), toIndex(to) + 1).join('\n');
+};
+
+const templatePlaceholderPattern = /\{(\d+)\}/g;
+
+/** Fills `{0}`, `{1}`, ... with the values. Placeholders without a value are left as written */
+export const fillTemplate = (template: string, values: string[]): string =>
+  template.replace(templatePlaceholderPattern, (placeholder, index: string) =>
+    Number(index) < values.length ? values[Number(index)]! : placeholder
+  );
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { chunkTokens, countTokens, truncateTokens } from './tokenizer.js';
+
+const text = Array.from({ length: 50 }, (_, i) => `word${i}`).join(' ');
+
+describe('countTokens', () => {
+  it('counts special tokens as text', () => {
+    expect(countTokens('')).toBe(0);
+    expect(countTokens('<|endoftext|>')).toBeGreaterThan(1);
+  });
+});
+
+describe('truncateTokens', () => {
+  it('drops the start or the end of text beyond the limit', () => {
+    const head = truncateTokens(text, 10, 'head');
+    const tail = truncateTokens(text, 10, 'tail');
+    expect(countTokens(head)).toBeLessThanOrEqual(10);
+    expect(countTokens(tail)).toBeLessThanOrEqual(10);
+    expect(text.endsWith(head)).toBe(true);
+    expect(text.startsWith(tail)).toBe(true);
+  });
+
+  it('leaves text within the limit as-is', () => {
+    expect(truncateTokens(text, 1000, 'head')).toBe(text);
+  });
+});
+
+describe('chunkTokens', () => {
+  it('splits text into consecutive chunks within the limit', () => {
+    const chunks = chunkTokens(text, 7);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(text);
+    for (const chunk of chunks) {
+      expect(countTokens(chunk)).toBeLessThanOrEqual(7);
+    }
+  });
+});
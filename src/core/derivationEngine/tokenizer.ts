@@ -0,0 +1,37 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import o200kBase from 'js-tiktoken/ranks/o200k_base';
+
+/**
+ * Token counting for fitting inputs to context windows. Every model is counted
+ * with the o200k encoding; other providers' tokenizers differ a little, which
+ * the completion allowance absorbs.
+ */
+
+let encoding: Tiktoken | undefined;
+
+// built on first use, since loading the ranks takes a moment
+const _getEncoding = () => (encoding ??= new Tiktoken(o200kBase));
+
+// special tokens like <|endoftext|> in content are counted as plain text
+const _encode = (text: string) => _getEncoding().encode(text, [], []);
+
+export const countTokens = (text: string): number => _encode(text).length;
+
+/** Keeps the end of text (`head`: drops its start) or its start (`tail`: drops its end) */
+export const truncateTokens = (text: string, maxTokens: number, drop: 'head' | 'tail'): string => {
+  const tokens = _encode(text);
+  if (tokens.length <= maxTokens) return text;
+  const kept =
+    drop === 'head' ? tokens.slice(tokens.length - maxTokens) : tokens.slice(0, maxTokens);
+  return _getEncoding().decode(kept);
+};
+
+/** Splits text into consecutive chunks of at most maxTokens tokens */
+export const chunkTokens = (text: string, maxTokens: number): string[] => {
+  const tokens = _encode(text);
+  const chunks: string[] = [];
+  for (let start = 0; start < tokens.length; start += maxTokens) {
+    chunks.push(_getEncoding().decode(tokens.slice(start, start + maxTokens)));
+  }
+  return chunks;
+};
@@ -1,5 +1,8 @@
 import { ExecutionTree } from '../db/types.js';
 import type { ExecutionPlan } from './planner.js';
+import type { ReadErrorInfo } from './errors.js';
+import type { ConcurrencyLimit } from './utils.js';
+import type { ParameterBindings } from './parameters.js';
 
 /**
  * SCC execution options
@@ -52,8 +55,34 @@ export interface SccExecutionContext {
   plan: ExecutionPlan;
 }
 
+export type StepResult =
+  | {
+      success: true;
+      output: string;
+      executionTree: ExecutionTree;
+    }
+  | {
+      success: false;
+      error: ReadErrorInfo;
+    };
+
+/**
+ * State shared by everything evaluated during one read
+ */
+export interface ReadContext {
+  // caps how many operations run at once across the whole read
+  limitOperations: ConcurrencyLimit;
+  // formulas and steps already started in this read, so ones reached through
+  // several inputs are evaluated once and every consumer sees the same result
+  inFlight: Map<string, Promise<StepResult>>;
+}
+
 export interface OperationOptions {
   environment: 'production' | 'test';
+  // Receives partial output while a streaming-capable operation runs
+  onChunk?: (chunk: string) => void;
+  // Caps how many model calls run at once, for operations that make several
+  limitCalls?: ConcurrencyLimit;
 }
 
 // TODO move? rename?
@@ -63,6 +92,13 @@ export interface GetOrComputeDerivedContentByStepOpts {
   sccContext?: SccExecutionContext;
   // Skip cache lookup and force re-evaluation
   skipCache?: boolean;
+  // Streams the output of the requested derivation's final step. Dependencies
+  // are never streamed; only completed results are cached.
+  onChunk?: (chunk: string) => void;
+  // Created by the outermost read when not given (internal use)
+  readContext?: ReadContext;
+  // Parameter values bound by the reference being resolved (internal use)
+  bindings?: ParameterBindings;
 }
 
 // TODO move? rename?
@@ -70,4 +106,6 @@ export interface GetOrComputeDerivedContentByStepOpts {
 export interface GetOrComputeDerivedContentOpts extends GetOrComputeDerivedContentByStepOpts {
   // SCC execution options (user-facing configuration)
   scc?: SccOptions;
+  // Run the read even if it is estimated to exceed a spending cap
+  confirmOverBudget?: boolean;
 }
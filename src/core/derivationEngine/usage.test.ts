@@ -0,0 +1,146 @@
+import { describe, it, beforeEach, expect, assert } from 'vitest';
+import { AppDal, createMockAppDal } from '../db/app_dal.js';
+import { createMockQueue } from '../limiting/rateLimitQueue.js';
+import { createMockRateLimitManager } from '../limiting/modelRateLimitManager.js';
+import { RateLimiter } from '../limiting';
+import { EmbeddingInputData, EmbeddingOutput } from '../types.js';
+import { getOrComputeDerivedContent as _getOrComputeDerivedContent } from './read.js';
+import { createDerivation } from './write.js';
+import { summarizeLlmUsage } from './usage.js';
+import { hash } from '../utils.js';
+
+describe('LLM usage', () => {
+  let appDal: AppDal;
+  let limiter: RateLimiter;
+
+  const getOrComputeDerivedContent = (derivationId: string) =>
+    _getOrComputeDerivedContent(
+      appDal,
+      derivationId,
+      limiter,
+      {
+        openaiApiKey: 'test',
+        openRouterApiKey: 'test',
+        databasePath: 'test',
+        watchedDirectory: 'test',
+        embeddingRpmLimit: 1000,
+        skipEmbedding: false,
+        debug: false,
+        theme: 'system' as const
+      },
+      { operationOptions: { environment: 'test' } }
+    );
+
+  const since = new Date(Date.now() - 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    appDal = await createMockAppDal();
+    limiter = createMockRateLimitManager(
+      createMockQueue<EmbeddingInputData, EmbeddingOutput>(async () => ({
+        embedding: 'test',
+        usage: { promptTokens: 1 },
+        modelName: 'test'
+      }))
+    );
+  });
+
+  const createLlmDerivation = () => {
+    const content = 'test content';
+    appDal.core.insertContentIfNew(hash(content), content);
+    return createDerivation(
+      appDal,
+      {
+        label: null,
+        recipeParams: {
+          operation: 'llm',
+          model: 'openai/gpt-5',
+          prompt: 'test',
+          inputs: [{ type: 'content', hash: hash(content) }]
+        }
+      },
+      'llm(...)'
+    );
+  };
+
+  it('should report nothing when no calls were logged', () => {
+    expect(summarizeLlmUsage(appDal, { since }).total).toEqual({
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+      unpricedCalls: 0,
+      cacheHits: 0,
+      savedTokens: 0,
+      savedCost: 0
+    });
+  });
+
+  it('should log tokens saved by cache hits on results of logged calls', async () => {
+    const derivationId = createLlmDerivation();
+    await getOrComputeDerivedContent(derivationId);
+
+    // the test environment makes no real model call, so log one for the result
+    const derivation = appDal.derivations.findDerivationById(derivationId);
+    assert(derivation);
+    const cacheKey = appDal.derivations.findStepCacheKey(derivation.final_step_id);
+    assert(cacheKey);
+    appDal.core.insertLlmUsageLog({
+      derivationId,
+      cacheKey,
+      modelName: 'openai/gpt-5',
+      promptTokens: 1000,
+      completionTokens: 100,
+      cacheHit: false
+    });
+
+    await getOrComputeDerivedContent(derivationId);
+    await getOrComputeDerivedContent(derivationId);
+
+    const summary = summarizeLlmUsage(appDal, { since });
+    // 1000 * $1.25 + 100 * $10 per million tokens
+    const callCost = 0.00225;
+    expect(summary.total).toMatchObject({
+      calls: 1,
+      promptTokens: 1000,
+      completionTokens: 100,
+      cacheHits: 2,
+      savedTokens: 2200
+    });
+    expect(summary.total.cost).toBeCloseTo(callCost);
+    expect(summary.total.savedCost).toBeCloseTo(2 * callCost);
+    expect(Object.keys(summary.byFormula)).toEqual([derivationId]);
+    expect(Object.keys(summary.byModel)).toEqual(['openai/gpt-5']);
+    expect(Object.keys(summary.byDay)).toEqual([new Date().toISOString().slice(0, 10)]);
+  });
+
+  it('should count calls to models without a price separately', () => {
+    appDal.core.insertLlmUsageLog({
+      derivationId: 'some formula',
+      cacheKey: 'some key',
+      modelName: 'custom/unknown',
+      promptTokens: 10,
+      completionTokens: 10,
+      cacheHit: false
+    });
+
+    expect(summarizeLlmUsage(appDal, { since }).byModel['custom/unknown']).toMatchObject({
+      calls: 1,
+      cost: 0,
+      unpricedCalls: 1
+    });
+  });
+
+  it('should exclude usage before the requested window', () => {
+    appDal.core.insertLlmUsageLog({
+      derivationId: 'some formula',
+      cacheKey: 'some key',
+      modelName: 'openai/gpt-5',
+      promptTokens: 10,
+      completionTokens: 10,
+      cacheHit: false
+    });
+
+    const future = new Date(Date.now() + 60 * 60 * 1000);
+    expect(summarizeLlmUsage(appDal, { since: future }).total.calls).toBe(0);
+  });
+});
@@ -0,0 +1,81 @@
+import { groupBy } from 'lodash-es';
+import { AppDal } from '../db/app_dal.js';
+import { LlmUsageLogRow } from '../db/contentService.js';
+import { getLlmCost } from '@lang-data/pricing.js';
+
+export type UsageTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  // cost of calls to priced models only
+  cost: number;
+  // calls to models without a known price
+  unpricedCalls: number;
+  // tokens and cost that cache hits avoided spending again
+  cacheHits: number;
+  savedTokens: number;
+  savedCost: number;
+};
+
+export type LlmUsageSummary = {
+  total: UsageTotals;
+  byFormula: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  byDay: Record<string, UsageTotals>;
+};
+
+/** Formats a date the way SQLite stores timestamps (UTC, space separated). */
+export const toDbTimestamp = (date: Date): string =>
+  date.toISOString().replace('T', ' ').replace('Z', '');
+
+const totalUsage = (rows: LlmUsageLogRow[]): UsageTotals =>
+  rows.reduce<UsageTotals>(
+    (totals, row) => {
+      const cost = getLlmCost(row.model_name, row.prompt_tokens, row.completion_tokens);
+      if (row.cache_hit) {
+        return {
+          ...totals,
+          cacheHits: totals.cacheHits + 1,
+          savedTokens: totals.savedTokens + row.prompt_tokens + row.completion_tokens,
+          savedCost: totals.savedCost + (cost ?? 0)
+        };
+      }
+      return {
+        ...totals,
+        calls: totals.calls + 1,
+        promptTokens: totals.promptTokens + row.prompt_tokens,
+        completionTokens: totals.completionTokens + row.completion_tokens,
+        cost: totals.cost + (cost ?? 0),
+        unpricedCalls: totals.unpricedCalls + (cost === undefined ? 1 : 0)
+      };
+    },
+    {
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+      unpricedCalls: 0,
+      cacheHits: 0,
+      savedTokens: 0,
+      savedCost: 0
+    }
+  );
+
+const totalUsageBy = (rows: LlmUsageLogRow[], key: (row: LlmUsageLogRow) => string) =>
+  Object.fromEntries(
+    Object.entries(groupBy(rows, key)).map(([group, groupRows]) => [group, totalUsage(groupRows)])
+  );
+
+/**
+ * Summarizes logged LLM usage since a point in time, grouped by formula, model
+ * and (UTC) day.
+ */
+export function summarizeLlmUsage(appDal: AppDal, opts: { since: Date }): LlmUsageSummary {
+  const rows = appDal.core.getLlmUsageSince(toDbTimestamp(opts.since));
+  return {
+    total: totalUsage(rows),
+    byFormula: totalUsageBy(rows, (row) => row.derivation_id),
+    byModel: totalUsageBy(rows, (row) => row.model_name),
+    byDay: totalUsageBy(rows, (row) => row.timestamp.slice(0, 10))
+  };
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { getExecutionTreeStatistics } from './utils';
+import { createConcurrencyLimit, getExecutionTreeStatistics } from './utils';
 import { ExecutionTree } from '../db/types';
 
 describe('utils', () => {
@@ -106,4 +106,29 @@ describe('utils', () => {
     const statistics = getExecutionTreeStatistics(execTree);
     expect(statistics).toMatchObject({ cachedSteps: 3 });
   });
+
+  it('should run at most the limit of tasks at once, in submission order', async () => {
+    const limit = createConcurrencyLimit(2);
+    const started: number[] = [];
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await Promise.all(
+      [0, 1, 2, 3, 4].map((i) =>
+        limit(async () => {
+          started.push(i);
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          running--;
+          if (i === 1) throw new Error('failed');
+          return i;
+        }).catch(() => -1)
+      )
+    );
+
+    expect(results).toEqual([0, -1, 2, 3, 4]);
+    expect(started).toEqual([0, 1, 2, 3, 4]);
+    expect(maxRunning).toBe(2);
+  });
 });
@@ -27,3 +27,33 @@ export const getExecutionTreeStatistics = (
     totalSteps: 1 + cacheableSteps.length
   };
 };
+
+export type ConcurrencyLimit = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Runs at most `maxConcurrent` tasks at a time; the rest wait in the order they
+ * were submitted.
+ */
+export const createConcurrencyLimit = (maxConcurrent: number): ConcurrencyLimit => {
+  let running = 0;
+  const waiting: (() => void)[] = [];
+
+  return async (task) => {
+    if (running >= maxConcurrent) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    } else {
+      running++;
+    }
+    try {
+      return await task();
+    } finally {
+      // hand the slot straight to the next task, or free it
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        running--;
+      }
+    }
+  };
+};
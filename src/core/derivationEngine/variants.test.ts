@@ -0,0 +1,194 @@
+import { describe, it, beforeEach, expect, assert } from 'vitest';
+import { AppDal, createMockAppDal } from '../db/app_dal.js';
+import { createMockQueue } from '../limiting/rateLimitQueue.js';
+import { createMockRateLimitManager } from '../limiting/modelRateLimitManager.js';
+import { RateLimiter } from '../limiting';
+import { EmbeddingInputData, EmbeddingOutput } from '../types.js';
+import { getOrComputeDerivedContent as _getOrComputeDerivedContent } from './read.js';
+import { createDerivation } from './write.js';
+import { getDerivationVariants, pinDerivationVariant } from './variants.js';
+import { GetOrComputeDerivedContentOpts } from './types.js';
+import { hash } from '../utils.js';
+
+describe('Variants', () => {
+  let appDal: AppDal;
+  let limiter: RateLimiter;
+
+  const getOrComputeDerivedContent = (
+    derivationId: string,
+    opts?: GetOrComputeDerivedContentOpts
+  ) =>
+    _getOrComputeDerivedContent(
+      appDal,
+      derivationId,
+      limiter,
+      {
+        openaiApiKey: 'test',
+        openRouterApiKey: 'test',
+        databasePath: 'test',
+        watchedDirectory: 'test',
+        embeddingRpmLimit: 1000,
+        skipEmbedding: false,
+        debug: false,
+        theme: 'system' as const
+      },
+      { operationOptions: { environment: 'test' }, ...opts }
+    );
+
+  beforeEach(async () => {
+    appDal = await createMockAppDal();
+    limiter = createMockRateLimitManager(
+      createMockQueue<EmbeddingInputData, EmbeddingOutput>(async () => ({
+        embedding: 'test',
+        usage: { promptTokens: 1 },
+        modelName: 'test'
+      }))
+    );
+  });
+
+  const createLlmDerivation = () => {
+    const content = 'test content';
+    appDal.core.insertContentIfNew(hash(content), content);
+    return createDerivation(
+      appDal,
+      {
+        label: null,
+        recipeParams: {
+          operation: 'llm',
+          model: 'openai/gpt-5',
+          prompt: 'test',
+          inputs: [{ type: 'content', hash: hash(content) }]
+        }
+      },
+      'llm(...)'
+    );
+  };
+
+  it('should have no variants before the first read', () => {
+    const derivationId = createLlmDerivation();
+
+    expect(getDerivationVariants(appDal, derivationId)).toEqual({ success: true, variants: [] });
+  });
+
+  it('should keep a numbered variant per reroll and serve the latest', async () => {
+    const derivationId = createLlmDerivation();
+
+    await getOrComputeDerivedContent(derivationId);
+    await getOrComputeDerivedContent(derivationId, { skipCache: true });
+    // plain reads are cache hits and add no variant
+    await getOrComputeDerivedContent(derivationId);
+
+    const result = getDerivationVariants(appDal, derivationId);
+    assert(result.success);
+    expect(result.variants).toMatchObject([
+      { variantNumber: 1, model: 'openai/gpt-5', output: 'test content', isSelected: false },
+      { variantNumber: 2, model: 'openai/gpt-5', output: 'test content', isSelected: true }
+    ]);
+  });
+
+  it('should serve a pinned variant to reads and downstream formulas', async () => {
+    const derivationId = createLlmDerivation();
+    const downstreamId = createDerivation(
+      appDal,
+      {
+        label: null,
+        recipeParams: { operation: 'identity', inputs: [{ type: 'derivation', id: derivationId }] }
+      },
+      'identity(...)'
+    );
+
+    await getOrComputeDerivedContent(derivationId);
+
+    // simulate a reroll that produced a different output
+    const derivation = appDal.derivations.findDerivationById(derivationId);
+    assert(derivation);
+    const rerolled = 'rerolled content';
+    appDal.saveComputedDerivation(
+      derivation.final_step_id,
+      derivation.recipe_params,
+      hash(rerolled),
+      rerolled,
+      {},
+      [hash('test content')],
+      [],
+      []
+    );
+
+    await expect(getOrComputeDerivedContent(downstreamId)).resolves.toMatchObject({
+      success: true,
+      output: rerolled
+    });
+
+    expect(pinDerivationVariant(appDal, derivationId, 1)).toEqual({ success: true });
+
+    const result = getDerivationVariants(appDal, derivationId);
+    assert(result.success);
+    expect(result.variants.map((v) => v.isSelected)).toEqual([true, false]);
+
+    await expect(getOrComputeDerivedContent(derivationId)).resolves.toMatchObject({
+      success: true,
+      output: 'test content',
+      executionTree: { cacheStatus: 'cached' }
+    });
+    await expect(getOrComputeDerivedContent(downstreamId)).resolves.toMatchObject({
+      success: true,
+      output: 'test content'
+    });
+  });
+
+  it('should pin a variant for one formula only when formulas share a result', async () => {
+    const pinnedId = createLlmDerivation();
+    const otherId = createLlmDerivation();
+
+    await getOrComputeDerivedContent(pinnedId);
+    await expect(getOrComputeDerivedContent(otherId)).resolves.toMatchObject({
+      executionTree: { cacheStatus: 'cached' }
+    });
+
+    // simulate a reroll of the shared result that produced a different output
+    const derivation = appDal.derivations.findDerivationById(pinnedId);
+    assert(derivation);
+    const rerolled = 'rerolled content';
+    appDal.saveComputedDerivation(
+      derivation.final_step_id,
+      derivation.recipe_params,
+      hash(rerolled),
+      rerolled,
+      {},
+      [hash('test content')],
+      [],
+      []
+    );
+
+    expect(pinDerivationVariant(appDal, pinnedId, 1)).toEqual({ success: true });
+
+    await expect(getOrComputeDerivedContent(pinnedId)).resolves.toMatchObject({
+      success: true,
+      output: 'test content'
+    });
+    await expect(getOrComputeDerivedContent(otherId)).resolves.toMatchObject({
+      success: true,
+      output: rerolled
+    });
+
+    const pinned = getDerivationVariants(appDal, pinnedId);
+    const other = getDerivationVariants(appDal, otherId);
+    assert(pinned.success && other.success);
+    expect(pinned.variants.map((v) => v.isSelected)).toEqual([true, false]);
+    expect(other.variants.map((v) => v.isSelected)).toEqual([false, true]);
+  });
+
+  it('should reject unknown variants', async () => {
+    const derivationId = createLlmDerivation();
+    await getOrComputeDerivedContent(derivationId);
+
+    expect(pinDerivationVariant(appDal, derivationId, 5)).toMatchObject({
+      success: false,
+      error: { kind: 'variant_not_found' }
+    });
+    expect(pinDerivationVariant(appDal, 'not the id', 1)).toMatchObject({
+      success: false,
+      error: { kind: 'formula_not_found' }
+    });
+  });
+});
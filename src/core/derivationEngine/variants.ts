@@ -0,0 +1,104 @@
+import { isNil, findLast } from 'lodash-es';
+import { AppDal } from '../db/app_dal.js';
+import { isLlmStep, StepParams } from '../db/types.js';
+import { ReadErrorInfo, getReadErrorInfo } from './errors.js';
+
+export type DerivationVariant = {
+  variantNumber: number;
+  computedAt: string;
+  operation: StepParams['operation'];
+  // null for operations that do not call a model
+  model: string | null;
+  contentHash: string;
+  output: string | undefined;
+  // whether this variant is served to reads and downstream formulas
+  isSelected: boolean;
+};
+
+const _findFinalStepCacheKey = (
+  appDal: AppDal,
+  derivationId: string
+):
+  | {
+      success: true;
+      stepId: string;
+      cacheKey: string | undefined;
+      recipeParams: StepParams;
+    }
+  | { success: false; error: ReadErrorInfo } => {
+  const derivation = appDal.derivations.findDerivationById(derivationId);
+  if (isNil(derivation)) {
+    return { success: false, error: getReadErrorInfo('derivationNotFound', { derivationId }) };
+  }
+  return {
+    success: true,
+    stepId: derivation.final_step_id,
+    cacheKey: appDal.derivations.findStepCacheKey(derivation.final_step_id),
+    recipeParams: derivation.recipe_params
+  };
+};
+
+/**
+ * Lists every result computed for a derivation's final step, oldest first.
+ * Variants belong to the inputs the derivation was last computed with.
+ */
+export function getDerivationVariants(
+  appDal: AppDal,
+  derivationId: string
+): { success: true; variants: DerivationVariant[] } | { success: false; error: ReadErrorInfo } {
+  const found = _findFinalStepCacheKey(appDal, derivationId);
+  if (!found.success) {
+    return found;
+  }
+  const { stepId, cacheKey, recipeParams } = found;
+  if (isNil(cacheKey)) {
+    return { success: true, variants: [] };
+  }
+
+  const variants = appDal.derivations.getVariantsByCacheKey(cacheKey);
+  const pinned = appDal.derivations.findPinnedVariant(stepId, cacheKey);
+  const selectedHash = appDal.derivations.findCacheRowByKey(cacheKey)?.output_content_hash;
+  const selected = isNil(pinned)
+    ? // identical outputs are indistinguishable, so the latest one counts as selected
+      findLast(variants, (v) => v.output_content_hash === selectedHash)
+    : variants.find((v) => v.variant_number === pinned.variant_number);
+
+  return {
+    success: true,
+    variants: variants.map((variant) => ({
+      variantNumber: variant.variant_number,
+      computedAt: variant.computed_at,
+      operation: recipeParams.operation,
+      model: isLlmStep(recipeParams) ? recipeParams.model : null,
+      contentHash: variant.output_content_hash,
+      output: appDal.core.findContentByHash(variant.output_content_hash),
+      isSelected: variant === selected
+    }))
+  };
+}
+
+/**
+ * Makes a previously computed variant the result served for a derivation, so
+ * downstream formulas consume it. Other formulas sharing the cached result keep
+ * theirs, and a reroll replaces the pin.
+ */
+export function pinDerivationVariant(
+  appDal: AppDal,
+  derivationId: string,
+  variantNumber: number
+): { success: true } | { success: false; error: ReadErrorInfo } {
+  const found = _findFinalStepCacheKey(appDal, derivationId);
+  if (!found.success) {
+    return found;
+  }
+  if (
+    isNil(found.cacheKey) ||
+    !appDal.derivations.pinStepVariant(found.stepId, found.cacheKey, variantNumber)
+  ) {
+    return {
+      success: false,
+      error: getReadErrorInfo('variantNotFound', { derivationId, variantNumber })
+    };
+  }
+  return { success: true };
+}
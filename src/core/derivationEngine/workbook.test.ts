@@ -0,0 +1,161 @@
+import { describe, it, beforeEach, expect } from 'vitest';
+import { AppDal, createMockAppDal } from '../db/app_dal.js';
+import { createMockQueue } from '../limiting/rateLimitQueue.js';
+import { createMockRateLimitManager } from '../limiting/modelRateLimitManager.js';
+import { RateLimiter } from '../limiting';
+import { EmbeddingInputData, EmbeddingOutput } from '../types.js';
+import { parseDerivationExpression } from '../lang/index.js';
+import { getOrComputeDerivedContent as _getOrComputeDerivedContent } from './read.js';
+import { createDerivation } from './write.js';
+import { getDerivationStatus } from './status.js';
+import { exportWorkbook, importWorkbook } from './workbook.js';
+import { hash } from '../utils.js';
+
+describe('Workbooks', () => {
+  let appDal: AppDal;
+  let limiter: RateLimiter;
+
+  const getOrComputeDerivedContent = (dal: AppDal, derivationId: string) =>
+    _getOrComputeDerivedContent(
+      dal,
+      derivationId,
+      limiter,
+      {
+        openaiApiKey: 'test',
+        openRouterApiKey: 'test',
+        databasePath: 'test',
+        watchedDirectory: 'test',
+        embeddingRpmLimit: 1000,
+        skipEmbedding: false,
+        debug: false,
+        theme: 'system' as const
+      },
+      { operationOptions: { environment: 'test' } }
+    );
+
+  const create = (dal: AppDal, expression: string, label: string | null = null) => {
+    const parsed = parseDerivationExpression(expression);
+    if (!parsed.success) throw new Error(`Failed to parse ${expression}`);
+    return createDerivation(dal, { recipeParams: parsed.params, label }, expression);
+  };
+
+  beforeEach(async () => {
+    appDal = await createMockAppDal();
+    limiter = createMockRateLimitManager(
+      createMockQueue<EmbeddingInputData, EmbeddingOutput>(async () => ({
+        embedding: 'test',
+        usage: { promptTokens: 1 },
+        modelName: 'test'
+      }))
+    );
+  });
+
+  it('should export formulas with the formulas they reference and the content they take', () => {
+    const notes = 'some notes';
+    appDal.core.insertContentIfNew(hash(notes), notes);
+    const upstreamId = create(appDal, `trim(#${hash(notes)})`, 'upstream');
+    const downstreamId = create(appDal, `concat("Summary: ", $${upstreamId})`, 'downstream');
+    create(appDal, 'upper("unrelated")');
+
+    const result = exportWorkbook(appDal, { derivationIds: [downstreamId] });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.workbook.formulas.map((formula) => formula.id).sort()).toEqual(
+      [upstreamId, downstreamId].sort()
+    );
+    expect(result.workbook.content).toEqual({ [hash(notes)]: notes });
+    expect(result.workbook.formulas.every((formula) => formula.results === undefined)).toBe(true);
+  });
+
+  it('should remap colliding IDs and rewrite references to them', async () => {
+    const upstreamId = create(appDal, 'concat("Hello", " world")');
+    const downstreamId = create(appDal, `concat($${upstreamId}, "!")`);
+    const exported = exportWorkbook(appDal);
+    if (!exported.success) throw new Error(exported.error);
+    // downstream first, so import has to order them itself
+    exported.workbook.formulas.reverse();
+
+    const result = importWorkbook(appDal, exported.workbook);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const newIds = new Map(result.imported.map((f) => [f.originalId, f.derivationId]));
+    expect(result.imported.map((f) => f.originalId)).toEqual([upstreamId, downstreamId]);
+    expect(newIds.get(upstreamId)).not.toBe(upstreamId);
+    expect(newIds.get(downstreamId)).not.toBe(downstreamId);
+
+    const importedDownstream = appDal.derivations.findDerivationById(newIds.get(downstreamId)!);
+    expect(importedDownstream?.dsl_expression).toBe(`concat($${newIds.get(upstreamId)}, "!")`);
+    const read = await getOrComputeDerivedContent(appDal, newIds.get(downstreamId)!);
+    expect(read.success && read.output).toBe('Hello\n world\n!');
+  });
+
+  it('should import cached outputs so reads are served from the cache', async () => {
+    const upstreamId = create(appDal, 'concat("Hello", upper(" world"))');
+    const downstreamId = create(appDal, `concat($${upstreamId}, "!")`);
+    await getOrComputeDerivedContent(appDal, downstreamId);
+    const exported = exportWorkbook(appDal, { includeOutputs: true });
+    if (!exported.success) throw new Error(exported.error);
+    // JSON round trip, as through a file
+    const workbook: unknown = JSON.parse(JSON.stringify(exported.workbook));
+
+    const otherDal = await createMockAppDal();
+    const result = importWorkbook(otherDal, workbook);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    // IDs are kept when they are free
+    expect(result.imported.map((f) => f.derivationId).sort()).toEqual(
+      [upstreamId, downstreamId].sort()
+    );
+    expect(await getDerivationStatus(otherDal, upstreamId)).toEqual({ status: 'fresh' });
+    expect(await getDerivationStatus(otherDal, downstreamId)).toEqual({ status: 'fresh' });
+    const read = await getOrComputeDerivedContent(otherDal, downstreamId);
+    expect(read.success && read.executionTree.cacheStatus).toBe('cached');
+    expect(read.success && read.output).toBe('Hello\n WORLD\n!');
+  });
+
+  it('should import nothing from an invalid workbook', async () => {
+    const tampered = {
+      version: 1,
+      formulas: [{ id: 'a', label: null, expression: 'upper("a")' }],
+      content: { [hash('original')]: 'tampered' }
+    };
+    expect(importWorkbook(appDal, tampered).success).toBe(false);
+
+    const unparsable = {
+      version: 1,
+      formulas: [
+        { id: 'a', label: null, expression: 'upper("a")' },
+        { id: 'b', label: null, expression: 'concat(' }
+      ],
+      content: {}
+    };
+    expect(importWorkbook(appDal, unparsable).success).toBe(false);
+
+    const badResults = {
+      version: 1,
+      formulas: [
+        {
+          id: 'a',
+          label: null,
+          expression: 'upper("a")',
+          results: [
+            {
+              cacheKey: 'key',
+              outputContentHash: hash('A'),
+              resolvedPinnedInputHashes: null,
+              inputContentHashes: [],
+              dependencyTree: [{ type: 'derivation', contentHash: hash('a') }],
+              warnings: [{ type: 'inputTooLarge' }]
+            }
+          ]
+        }
+      ],
+      content: { [hash('A')]: 'A' }
+    };
+    expect(importWorkbook(appDal, badResults).success).toBe(false);
+    expect(appDal.derivations.getAllDerivations()).toEqual([]);
+  });
+});
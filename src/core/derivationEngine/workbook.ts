@@ -0,0 +1,281 @@
+import { isNil } from 'lodash-es';
+import { z } from 'zod/v4';
+import { AppDal } from '../db/app_dal.js';
+import { generateDerivationId } from '../db/derivationsService.js';
+import { DependencyTreeSchema, OperationWarningSchema } from '../db/types.js';
+import { DerivationLexer, parseDerivationExpression, formatParseError } from '../lang/index.js';
+import { hash } from '../utils.js';
+import { createDerivationWithId } from './write.js';
+
+/**
+ * A portable set of formulas. Formulas keep the IDs they had where they were
+ * exported and reference each other by them; importing remaps any that are
+ * taken. Cached results are keyed by cache key, which doesn't depend on IDs, so
+ * they are reused wherever the same inputs are read.
+ */
+
+export const WORKBOOK_VERSION = 1;
+
+const StepResultSchema = z.object({
+  cacheKey: z.string(),
+  outputContentHash: z.string(),
+  resolvedPinnedInputHashes: z
+    .record(z.string(), z.object({ type: z.literal('content'), hash: z.string() }))
+    .nullable(),
+  inputContentHashes: z.array(z.string()),
+  dependencyTree: DependencyTreeSchema,
+  warnings: z.array(OperationWarningSchema)
+});
+
+const WorkbookFormulaSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().nullable(),
+  expression: z.string().min(1),
+  // the cached result of each step, final step first then nested steps depth first
+  results: z.array(StepResultSchema.nullable()).optional()
+});
+
+export const WorkbookSchema = z.object({
+  version: z.literal(WORKBOOK_VERSION),
+  formulas: z.array(WorkbookFormulaSchema),
+  // content hash -> content, for hash literals and cached outputs
+  content: z.record(z.string(), z.string())
+});
+
+export type Workbook = z.infer<typeof WorkbookSchema>;
+type WorkbookStepResult = z.infer<typeof StepResultSchema>;
+
+export type ImportedFormula = { originalId: string; derivationId: string };
+
+/** The `$id` references in an expression, with their offsets */
+const _findReferences = (expression: string) =>
+  DerivationLexer.tokenize(expression)
+    .tokens.filter((token) => token.tokenType.name === 'DerivationRef')
+    .map((token) => ({
+      id: token.image.slice(1),
+      start: token.startOffset,
+      end: token.startOffset + token.image.length
+    }));
+
+const _remapReferences = (expression: string, idMap: Map<string, string>): string => {
+  let remapped = expression;
+  // right to left, so earlier offsets stay valid
+  for (const reference of _findReferences(expression).reverse()) {
+    const id = idMap.get(reference.id);
+    if (isNil(id) || id === reference.id) continue;
+    remapped = `${remapped.slice(0, reference.start)}$${id}${remapped.slice(reference.end)}`;
+  }
+  return remapped;
+};
+
+/** A formula's steps, final step first then nested steps depth first */
+const _collectStepIds = (appDal: AppDal, stepId: string): string[] => {
+  const stepParams = appDal.derivations.getStepStoredParams(stepId);
+  const nested = (stepParams?.inputs ?? []).flatMap((input) =>
+    input.type === 'internal_step_link' ? _collectStepIds(appDal, input.targetStepId) : []
+  );
+  return [stepId, ...nested];
+};
+
+const _findStepResult = (appDal: AppDal, stepId: string): WorkbookStepResult | null => {
+  const cacheKey = appDal.derivations.findStepCacheKey(stepId);
+  const context = appDal.derivations.findStepResultContext(stepId);
+  if (isNil(cacheKey) || isNil(context)) {
+    return null;
+  }
+  return {
+    cacheKey,
+    outputContentHash: context.output_content_hash,
+    resolvedPinnedInputHashes: context.resolved_pinned_input_hashes,
+    inputContentHashes: context.input_content_hashes,
+    dependencyTree: context.dependency_tree,
+    warnings: context.warnings
+  };
+};
+
+/**
+ * Exports formulas along with every formula they reference, directly or not.
+ * Exports all formulas when no IDs are given. Content the formulas take by hash
+ * is always included; cached results and their outputs only when asked for.
+ */
+export function exportWorkbook(
+  appDal: AppDal,
+  opts?: { derivationIds?: string[]; includeOutputs?: boolean }
+): { success: true; workbook: Workbook } | { success: false; error: string } {
+  const derivations = appDal.derivations.getAllDerivations();
+  const byId = new Map(derivations.map((derivation) => [derivation.derivation_id, derivation]));
+
+  const exportedIds = new Set<string>();
+  const pending = [...(opts?.derivationIds ?? byId.keys())];
+  for (const id of pending) {
+    if (!byId.has(id)) {
+      return { success: false, error: `Formula ${id} not found` };
+    }
+  }
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    const derivation = byId.get(id);
+    // references to missing formulas are left as they are
+    if (isNil(derivation) || exportedIds.has(id)) continue;
+    exportedIds.add(id);
+    pending.push(..._findReferences(derivation.dsl_expression).map((reference) => reference.id));
+  }
+
+  const content: Record<string, string> = {};
+  const addContent = (contentHash: string) => {
+    const found = appDal.core.findContentByHash(contentHash);
+    if (!isNil(found)) content[contentHash] = found;
+  };
+  for (const {
+    derivationId,
+    contentHash
+  } of appDal.derivations.getDerivationInputContentHashes()) {
+    if (exportedIds.has(derivationId)) addContent(contentHash);
+  }
+
+  const formulas = derivations
+    .filter((derivation) => exportedIds.has(derivation.derivation_id))
+    .map((derivation) => {
+      const formula: Workbook['formulas'][number] = {
+        id: derivation.derivation_id,
+        label: derivation.label,
+        expression: derivation.dsl_expression
+      };
+      if (opts?.includeOutputs) {
+        formula.results = _collectStepIds(appDal, derivation.final_step_id).map((stepId) =>
+          _findStepResult(appDal, stepId)
+        );
+        for (const result of formula.results) {
+          if (!isNil(result)) addContent(result.outputContentHash);
+        }
+      }
+      return formula;
+    });
+
+  return { success: true, workbook: { version: WORKBOOK_VERSION, formulas, content } };
+}
+
+/** Workbook formulas ordered so each comes after the formulas it references */
+const _orderByDependencies = <T extends { originalId: string; references: string[] }>(
+  formulas: T[]
+): T[] => {
+  const indexById = new Map(formulas.map((formula, index) => [formula.originalId, index]));
+  const ordered: T[] = [];
+  const visited = new Set<number>();
+  const visit = (index: number) => {
+    // formulas in a cycle are visited once, in workbook order
+    if (visited.has(index)) return;
+    visited.add(index);
+    for (const reference of formulas[index]!.references) {
+      const referencedIndex = indexById.get(reference);
+      if (!isNil(referencedIndex)) visit(referencedIndex);
+    }
+    ordered.push(formulas[index]!);
+  };
+  formulas.forEach((_, index) => visit(index));
+  return ordered;
+};
+
+const _linkStepResults = (
+  appDal: AppDal,
+  finalStepId: string,
+  results: (WorkbookStepResult | null)[]
+) => {
+  const stepIds = _collectStepIds(appDal, finalStepId);
+  // a formula parsed into different steps than it was exported with can't use them
+  if (stepIds.length !== results.length) return;
+  stepIds.forEach((stepId, index) => {
+    const result = results[index];
+    if (isNil(result)) return;
+    appDal.derivations.insertStepResultIfNew({
+      cacheKey: result.cacheKey,
+      outputContentHash: result.outputContentHash,
+      resolvedPinnedInputHashes: result.resolvedPinnedInputHashes,
+      inputContentHashes: result.inputContentHashes,
+      warnings: result.warnings
+    });
+    appDal.derivations.linkStepToCache(stepId, result.cacheKey, result.dependencyTree);
+  });
+};
+
+/**
+ * Imports a workbook's formulas, keeping their IDs where they are free and
+ * otherwise giving them new ones, with references rewritten to match. Every
+ * formula is parsed before any is created, and formulas are created after the
+ * ones they reference, all in one transaction.
+ */
+export function importWorkbook(
+  appDal: AppDal,
+  workbookData: unknown
+): { success: true; imported: ImportedFormula[] } | { success: false; error: string } {
+  const parsedWorkbook = WorkbookSchema.safeParse(workbookData);
+  if (!parsedWorkbook.success) {
+    return { success: false, error: `Invalid workbook: ${z.prettifyError(parsedWorkbook.error)}` };
+  }
+  const workbook = parsedWorkbook.data;
+
+  for (const [contentHash, content] of Object.entries(workbook.content)) {
+    if (hash(content) !== contentHash) {
+      return { success: false, error: `Invalid workbook: content ${contentHash} does not match` };
+    }
+  }
+
+  const idMap = new Map<string, string>();
+  const isTaken = (id: string) =>
+    [...idMap.values()].includes(id) || !isNil(appDal.derivations.findDerivationById(id));
+  for (const formula of workbook.formulas) {
+    if (idMap.has(formula.id)) {
+      return { success: false, error: `Invalid workbook: formula ${formula.id} appears twice` };
+    }
+    let derivationId = formula.id;
+    while (isTaken(derivationId)) {
+      derivationId = generateDerivationId();
+    }
+    idMap.set(formula.id, derivationId);
+  }
+
+  const prepared = [];
+  for (const formula of workbook.formulas) {
+    const expression = _remapReferences(formula.expression, idMap);
+    const parsed = parseDerivationExpression(expression);
+    if (!parsed.success) {
+      return {
+        success: false,
+        error: `Formula ${formula.id}: ${parsed.errors.map(formatParseError).join('\n')}`
+      };
+    }
+    prepared.push({
+      formula,
+      expression,
+      recipeParams: parsed.params,
+      originalId: formula.id,
+      derivationId: idMap.get(formula.id)!,
+      references: _findReferences(formula.expression).map((reference) => reference.id)
+    });
+  }
+
+  const ordered = _orderByDependencies(prepared);
+  const imported = appDal.executeTransaction(({ core }) => {
+    for (const [contentHash, content] of Object.entries(workbook.content)) {
+      core.insertContentIfNew(contentHash, content);
+    }
+
+    return ordered.map(
+      ({ formula, expression, recipeParams, originalId, derivationId }): ImportedFormula => {
+        createDerivationWithId(
+          appDal,
+          derivationId,
+          { recipeParams, label: formula.label },
+          expression
+        );
+        const derivation = appDal.derivations.findDerivationById(derivationId);
+        if (!isNil(formula.results) && !isNil(derivation)) {
+          _linkStepResults(appDal, derivation.final_step_id, formula.results);
+        }
+        return { originalId, derivationId };
+      }
+    );
+  });
+
+  return { success: true, imported };
+}
@@ -14,6 +14,19 @@ export function createDerivation(
   appDal: AppDal,
   derivationParams: ExternalDerivationParams,
   dslExpression: string
+): string {
+  return createDerivationWithId(appDal, undefined, derivationParams, dslExpression);
+}
+
+/**
+ * Creates a definition for a derivation under a given ID (e.g. one kept from an
+ * imported workbook), which must be free. A new ID is generated when undefined.
+ */
+export function createDerivationWithId(
+  appDal: AppDal,
+  derivationId: string | undefined,
+  derivationParams: ExternalDerivationParams,
+  dslExpression: string
 ): string {
   // FIXME transaction-ify
 
@@ -30,7 +43,8 @@ export function createDerivation(
     flattenedStepParams,
     derivationParams.label,
     finalStepId,
-    dslExpression
+    dslExpression,
+    derivationId
   );
 
   return userDerivationId;
@@ -74,6 +88,8 @@ export function deleteDerivation(appDal: AppDal, derivationId: string): string {
  * Recursively traverses a StepParams node from a user's recipe,
  * defines each step in the database, and resolves `computed_step` inputs
  * into `derivation` inputs pointing to the Step ID of the defined nested step.
+ * Parameters and bound formula references are stored as written; they are
+ * filled in when the step is read.
  *
  * @param appDal The application's data access layer.
  * @param currentStepParamsNode The current node in the recipe tree to process.
@@ -1,4 +1,5 @@
 import type { z } from 'zod/v4';
+import { llmSamplingParamKeys } from '../db/types.js';
 
 export type ParseErrorCode =
   | 'INVALID_MODEL'
@@ -6,6 +7,7 @@ export type ParseErrorCode =
   | 'MISSING_PROMPT'
   | 'MISSING_MODEL'
   | 'INVALID_INPUT_COUNT'
+  | 'INVALID_SAMPLING_PARAM'
   | 'SYNTAX_ERROR'
   | 'VALIDATION_ERROR';
 
@@ -33,6 +35,15 @@ export function mapZodIssue(issue: z.core.$ZodIssue): ParseError {
   if (pathEnd === 'inputs') {
     return { code: 'INVALID_INPUT_COUNT', message: issue.message, path };
   }
+  // stop sequences are checked one by one, so the key can be before an index
+  const samplingParam = llmSamplingParamKeys.find((key) => path.slice(-2).includes(key));
+  if (samplingParam !== undefined) {
+    return {
+      code: 'INVALID_SAMPLING_PARAM',
+      message: `Invalid ${samplingParam}: ${issue.message}`,
+      path
+    };
+  }
 
   return { code: 'VALIDATION_ERROR', message: issue.message, path };
 }
@@ -1,10 +1,13 @@
 import { createToken, Lexer, CstParser, IToken, CstNode } from 'chevrotain';
+import { omit } from 'lodash-es';
 import {
   ExternalInputDescriptorItem,
   ExternalStepParams,
-  ExternalStepParamsSchema
+  ExternalStepParamsSchema,
+  isLlmStep
 } from '../db/types.js';
 import { tokenPatterns } from '@lang-data/tokens.js';
+import { findLlmModel, localModelPrefix } from '@lang-data/models.js';
 import { type ParseError, mapZodIssue } from './errors.js';
 
 export { type ParseError, type ParseErrorCode, formatParseError } from './errors.js';
@@ -37,6 +40,11 @@ const HashLiteral = createToken({
   pattern: tokenPatterns.hashLiteral
 });
 
+const NumberLiteral = createToken({
+  name: 'NumberLiteral',
+  pattern: tokenPatterns.numberLiteral
+});
+
 const PathLiteral = createToken({
   name: 'PathLiteral',
   pattern: tokenPatterns.pathLiteral
@@ -61,6 +69,7 @@ const allTokens = [
   Equals,
   StringLiteral,
   HashLiteral,
+  NumberLiteral,
   PathLiteral,
   DerivationRef,
   Identifier
@@ -115,11 +124,11 @@ class _DerivationCstParser extends CstParser {
     });
   });
 
+  // positional arguments may be pipelines, e.g. the body of map()
   private arg = this.RULE('arg', () => {
     this.OR([
       { ALT: () => this.SUBRULE(this.keywordArg) },
-      { ALT: () => this.SUBRULE(this.literal) },
-      { ALT: () => this.SUBRULE(this.operationCall) }
+      { ALT: () => this.SUBRULE(this.pipeline) }
     ]);
   });
 
@@ -129,21 +138,40 @@ class _DerivationCstParser extends CstParser {
     this.SUBRULE(this.keywordValue);
   });
 
+  // a chain is allowed, e.g. for a switch() branch
   private keywordValue = this.RULE('keywordValue', () => {
-    this.OR([
-      { ALT: () => this.SUBRULE(this.literal) },
-      { ALT: () => this.SUBRULE(this.operationCall) }
-    ]);
+    this.SUBRULE(this.pipeline);
   });
 
   private literal = this.RULE('literal', () => {
     this.OR([
       { ALT: () => this.CONSUME(StringLiteral) },
       { ALT: () => this.CONSUME(HashLiteral) },
+      { ALT: () => this.CONSUME(NumberLiteral) },
       { ALT: () => this.CONSUME(PathLiteral) },
-      { ALT: () => this.CONSUME(DerivationRef) }
+      { ALT: () => this.SUBRULE(this.derivationRef) }
     ]);
   });
+
+  // `$story` or, binding its parameters, `$story(topic="hot air balloon")`
+  private derivationRef = this.RULE('derivationRef', () => {
+    this.CONSUME(DerivationRef);
+    this.OPTION(() => {
+      this.CONSUME(LParen);
+      this.OPTION2(() => {
+        this.SUBRULE(this.bindingList);
+      });
+      this.CONSUME(RParen);
+    });
+  });
+
+  private bindingList = this.RULE('bindingList', () => {
+    this.SUBRULE(this.keywordArg);
+    this.MANY(() => {
+      this.CONSUME(Comma);
+      this.SUBRULE2(this.keywordArg);
+    });
+  });
 }
 
 const parserInstance = new _DerivationCstParser();
@@ -196,8 +224,7 @@ type ArgListCtx = { arg: NonEmpty<CstNode> };
 
 type ArgCtx = {
   keywordArg?: NonEmpty<CstNode>;
-  literal?: NonEmpty<CstNode>;
-  operationCall?: NonEmpty<CstNode>;
+  pipeline?: NonEmpty<CstNode>;
 };
 
 type KeywordArgCtx = {
@@ -205,25 +232,32 @@ type KeywordArgCtx = {
   keywordValue: NonEmpty<CstNode>;
 };
 
-type KeywordValueCtx = {
-  literal?: NonEmpty<CstNode>;
-  operationCall?: NonEmpty<CstNode>;
-};
+type KeywordValueCtx = { pipeline: NonEmpty<CstNode> };
 
 type LiteralCtx = {
   StringLiteral?: NonEmpty<IToken>;
   HashLiteral?: NonEmpty<IToken>;
+  NumberLiteral?: NonEmpty<IToken>;
   PathLiteral?: NonEmpty<IToken>;
-  DerivationRef?: NonEmpty<IToken>;
+  derivationRef?: NonEmpty<CstNode>;
+};
+
+type DerivationRefCtx = {
+  DerivationRef: NonEmpty<IToken>;
+  bindingList?: NonEmpty<CstNode>;
 };
 
+type BindingListCtx = { keywordArg: NonEmpty<CstNode> };
+
 // Visitor result helper types
 type KwPair = { kind: 'kw'; key: string; value: unknown };
 type InputItemRes = { kind: 'input'; value: ExternalInputDescriptorItem };
 type ArgVisitResult = InputItemRes | KwPair;
 
 type LiteralRaw = { kind: 'literalRaw'; value: string };
-type LiteralResult = LiteralRaw | ExternalInputDescriptorItem;
+// a number keyword argument, or its text when used as an input
+type LiteralNumber = { kind: 'literalNumber'; value: number; text: string };
+type LiteralResult = LiteralRaw | LiteralNumber | ExternalInputDescriptorItem;
 
 type PipelineValue = ExternalInputDescriptorItem | ExternalStepParams;
 
@@ -245,12 +279,32 @@ const isLiteralRaw = (v: unknown): v is LiteralRaw =>
   (v as Record<string, unknown>).kind === 'literalRaw' &&
   typeof (v as Record<string, unknown>).value === 'string';
 
+const isLiteralNumber = (v: unknown): v is LiteralNumber =>
+  isObjectRecord(v) &&
+  (v as Record<string, unknown>).kind === 'literalNumber' &&
+  typeof (v as Record<string, unknown>).value === 'number';
+
 const isStepParamsLike = (v: unknown): v is ExternalStepParams =>
   isObjectRecord(v) &&
   typeof (v as Record<string, unknown>).operation === 'string' &&
   Array.isArray((v as Record<string, unknown>).inputs);
 
+// `param(...)` is written like an operation but declares an input
+const paramOperation = 'param';
+const mapOperation = 'map';
+const llmJsonOperation = 'llmJson';
+const switchOperation = 'switch';
+const chatOperation = 'chat';
+const chatRoles = ['user', 'assistant'];
+const readFileOperation = 'readFile';
+const globOperation = 'glob';
+const paramNamePattern = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+const jsonEscapes = new Set(['"', '\\', '/', 'b', 'f', 'n', 'r', 't', 'u']);
+
 class AstBuilder extends BaseVisitor {
+  // steps whose output is piped into another, to find where a map() body starts
+  private pipedSteps = new WeakSet<ExternalStepParams>();
+
   constructor() {
     super();
     this.validateVisitor();
@@ -268,12 +322,9 @@ class AstBuilder extends BaseVisitor {
   }
 
   private parseStringToken(raw: string): string {
-    const first = raw[0];
-    if (first === '"') {
-      return JSON.parse(raw);
-    }
-    // Convert single-quoted string to JSON-compatible double-quoted
-    // Handle escapes: \' -> ', unescaped " must be escaped
+    // Convert to a JSON-compatible double-quoted string
+    // Handle escapes: \' -> ', unescaped " must be escaped, and escapes JSON
+    // doesn't know (e.g., \d in a regex) keep their backslash
     const inner = raw.slice(1, -1);
     let jsonInner = '';
     for (let i = 0; i < inner.length; i++) {
@@ -287,7 +338,7 @@ class AstBuilder extends BaseVisitor {
         }
         // Preserve other escapes for JSON.parse (e.g., \n, \", \\)
         if (next != null) {
-          jsonInner += '\\' + next;
+          jsonInner += (jsonEscapes.has(next) ? '\\' : '\\\\') + next;
           i += 1;
           continue;
         }
@@ -311,12 +362,14 @@ class AstBuilder extends BaseVisitor {
   public pipeline(ctx: PipelineCtx): unknown {
     let current = this.visit(firstNode(ctx.pipeHead, 'pipeHead')) as PipelineValue | LiteralResult;
 
-    // Normalize literalRaw to constant input for pipeline head if needed
+    // Normalize literals to constant input for pipeline head if needed
     if (isLiteralRaw(current)) {
       current = {
         type: 'constant',
         value: current.value
       } as ExternalInputDescriptorItem;
+    } else if (isLiteralNumber(current)) {
+      current = { type: 'constant', value: current.text };
     }
 
     if (!ctx.operationCall || ctx.operationCall.length === 0) {
@@ -324,11 +377,19 @@ class AstBuilder extends BaseVisitor {
     }
 
     for (let i = 0; i < ctx.operationCall.length; i++) {
-      const rhs = this.visit(ctx.operationCall[i]!) as ExternalStepParams;
+      const rhs = this.visit(ctx.operationCall[i]!) as PipelineValue;
+      if (!isStepParamsLike(rhs)) {
+        throw new Error(`${paramOperation}() cannot be piped into`);
+      }
+      if (isStepParamsLike(current)) {
+        this.pipedSteps.add(current);
+      }
       const pipedInput = this.toInputDescriptor(current as PipelineValue);
       const combined: ExternalStepParams = {
         ...rhs,
-        inputs: [pipedInput, ...rhs.inputs]
+        inputs: [pipedInput, ...rhs.inputs],
+        // a piped input is the first user message
+        ...(rhs.operation === chatOperation && { roles: ['user', ...rhs.roles] })
       } as ExternalStepParams;
       current = combined;
     }
@@ -338,7 +399,7 @@ class AstBuilder extends BaseVisitor {
 
   public pipeHead(ctx: PipeHeadCtx): PipelineValue | LiteralResult {
     if (ctx.operationCall) {
-      return this.visit(firstNode(ctx.operationCall, 'operationCall')) as ExternalStepParams;
+      return this.visit(firstNode(ctx.operationCall, 'operationCall')) as PipelineValue;
     }
     return this.visit(firstNode(ctx.literal, 'literal')) as LiteralResult;
   }
@@ -349,14 +410,79 @@ class AstBuilder extends BaseVisitor {
 
     const positionalInputs: ExternalInputDescriptorItem[] = [];
     const keywordPairs: Record<string, unknown> = {};
+    const keywordList: KwPair[] = [];
 
     if (ctx.argList) {
-      const { inputs, kwargs } = this.visit(firstNode(ctx.argList, 'argList')) as {
+      const { inputs, kwargs, kwargList } = this.visit(firstNode(ctx.argList, 'argList')) as {
         inputs: ExternalInputDescriptorItem[];
         kwargs: Record<string, unknown>;
+        kwargList: KwPair[];
       };
       positionalInputs.push(...inputs);
       Object.assign(keywordPairs, kwargs);
+      keywordList.push(...kwargList);
+    }
+
+    if (operation === paramOperation) {
+      return this.toParamInput(positionalInputs, keywordPairs);
+    }
+    if (operation === mapOperation) {
+      const body = positionalInputs.pop();
+      if (body?.type !== 'computed_step') {
+        throw new Error(
+          'map() takes the operation to apply to each element, e.g. map(llm(prompt="..."))'
+        );
+      }
+      positionalInputs.push({ type: 'computed_step', step: this.withMapItem(body.step) });
+    }
+    const [target] = positionalInputs;
+    if (target?.type === 'pinned_path' && operation === readFileOperation) {
+      // read from disk by the step itself, rather than through the watcher
+      positionalInputs[0] = { type: 'file', path: target.path };
+    }
+    if (target?.type === 'pinned_path' && operation === globOperation) {
+      positionalInputs[0] = { type: 'file_glob', pattern: target.path };
+    }
+    const stopSequences = keywordList.filter(({ key }) => key === 'stop');
+    if (stopSequences.length > 0) {
+      // each stop= argument adds a stop sequence
+      keywordPairs.stop = stopSequences.map(({ value }) => value);
+    }
+    if (operation === llmJsonOperation && Object.hasOwn(keywordPairs, 'schema')) {
+      // the schema is content, so it is resolved (and cached on) like any other input
+      positionalInputs.push(this.keywordToInput('llmJson() schema', keywordPairs.schema));
+      delete keywordPairs.schema;
+    }
+    if (operation === switchOperation) {
+      // cases are written as keyword arguments, but their branches are inputs
+      // so that they are linked, planned and resolved like any other
+      const { default: defaultBranch, ...caseBranches } = keywordPairs;
+      const branches = defaultBranch === undefined ? [] : [defaultBranch];
+      return {
+        operation,
+        inputs: [
+          ...positionalInputs,
+          ...[...Object.values(caseBranches), ...branches].map((branch) =>
+            this.keywordToInput('switch() branches', branch)
+          )
+        ],
+        cases: Object.keys(caseBranches)
+      };
+    }
+
+    if (operation === chatOperation) {
+      // positional (and piped) inputs are user messages; turns written as user=
+      // and assistant= may repeat, and keep the order they are written in
+      const turns = keywordList.filter(({ key }) => chatRoles.includes(key));
+      return {
+        operation,
+        inputs: [
+          ...positionalInputs,
+          ...turns.map(({ value }) => this.keywordToInput('chat() messages', value))
+        ],
+        roles: [...positionalInputs.map(() => 'user'), ...turns.map(({ key }) => key)],
+        ...omit(keywordPairs, chatRoles)
+      };
     }
 
     const step = {
@@ -368,15 +494,68 @@ class AstBuilder extends BaseVisitor {
     return step;
   }
 
+  /**
+   * Each element is piped into the body, so it becomes the first input of the
+   * step at the head of the body's pipeline.
+   */
+  private withMapItem(body: ExternalStepParams): ExternalStepParams {
+    const [first, ...rest] = body.inputs;
+    if (first?.type === 'computed_step' && this.pipedSteps.has(first.step)) {
+      return {
+        ...body,
+        inputs: [{ type: 'computed_step', step: this.withMapItem(first.step) }, ...rest]
+      } as ExternalStepParams;
+    }
+    return { ...body, inputs: [{ type: 'map_item' }, ...body.inputs] } as ExternalStepParams;
+  }
+
+  /** For keyword arguments whose value is read like an input */
+  private keywordToInput(description: string, value: unknown): ExternalInputDescriptorItem {
+    if (typeof value === 'string' || typeof value === 'number') {
+      return { type: 'constant', value: String(value) };
+    }
+    if (isObjectRecord(value)) {
+      return this.toInputDescriptor(value as PipelineValue);
+    }
+    throw new Error(`${description} must be text, a formula or an operation`);
+  }
+
+  private toParamInput(
+    inputs: ExternalInputDescriptorItem[],
+    kwargs: Record<string, unknown>
+  ): ExternalInputDescriptorItem {
+    const [nameInput, ...rest] = inputs;
+    if (nameInput?.type !== 'constant' || rest.length > 0) {
+      throw new Error('param() takes the parameter name as a string, e.g. param("topic")');
+    }
+    if (!paramNamePattern.test(nameInput.value)) {
+      throw new Error(`Invalid parameter name "${nameInput.value}"`);
+    }
+    const { default: defaultValue, ...unknownKwargs } = kwargs;
+    const [unknownKey] = Object.keys(unknownKwargs);
+    if (unknownKey !== undefined) {
+      throw new Error(`Unknown param() argument "${unknownKey}"`);
+    }
+    if (defaultValue !== undefined && typeof defaultValue !== 'string') {
+      throw new Error('param() default must be a string');
+    }
+    return defaultValue === undefined
+      ? { type: 'param', name: nameInput.value }
+      : { type: 'param', name: nameInput.value, default: defaultValue };
+  }
+
   public argList(ctx: ArgListCtx): {
     inputs: ExternalInputDescriptorItem[];
     kwargs: Record<string, unknown>;
+    // in written order, including repeated keys
+    kwargList: KwPair[];
   } {
     const first = this.visit(firstNode(ctx.arg, 'arg'));
 
     const inputs: ExternalInputDescriptorItem[] = isInputRes(first) ? [first.value] : [];
 
     const kwargs: Record<string, unknown> = isKwRes(first) ? { [first.key]: first.value } : {};
+    const kwargList: KwPair[] = isKwRes(first) ? [first] : [];
 
     let seenKeyword = isKwRes(first);
 
@@ -391,30 +570,21 @@ class AstBuilder extends BaseVisitor {
         } else if (isKwRes(res)) {
           seenKeyword = true;
           kwargs[res.key] = res.value;
+          kwargList.push(res);
         }
       }
     }
 
-    return { inputs, kwargs };
+    return { inputs, kwargs, kwargList };
   }
 
   public arg(ctx: ArgCtx): ArgVisitResult | undefined {
     if (ctx.keywordArg) {
       return this.visit(firstNode(ctx.keywordArg, 'keywordArg')) as KwPair;
     }
-    if (ctx.literal) {
-      const lit = this.visit(firstNode(ctx.literal, 'literal')) as LiteralResult;
-      if (isLiteralRaw(lit)) {
-        return {
-          kind: 'input',
-          value: { type: 'constant', value: lit.value }
-        };
-      }
-      return { kind: 'input', value: lit };
-    }
-    if (ctx.operationCall) {
-      const step = this.visit(firstNode(ctx.operationCall, 'operationCall')) as ExternalStepParams;
-      return { kind: 'input', value: { type: 'computed_step', step } };
+    if (ctx.pipeline) {
+      const value = this.visit(firstNode(ctx.pipeline, 'pipeline')) as PipelineValue;
+      return { kind: 'input', value: this.toInputDescriptor(value) };
     }
     return undefined;
   }
@@ -437,15 +607,17 @@ class AstBuilder extends BaseVisitor {
   }
 
   public keywordValue(ctx: KeywordValueCtx): unknown {
-    if (ctx.literal) {
-      const literalRes = this.visit(firstNode(ctx.literal, 'literal'));
+    const pipelineNode = firstNode(ctx.pipeline, 'pipeline');
+    const { pipeHead, operationCall } = pipelineNode.children as PipelineCtx;
+    const headCtx = firstNode(pipeHead, 'pipeHead').children as PipeHeadCtx;
+    // a lone literal is the value itself, e.g. prompt="..." rather than a constant input
+    if (headCtx.literal && (operationCall?.length ?? 0) === 0) {
+      const literalRes = this.visit(firstNode(headCtx.literal, 'literal'));
       if (isLiteralRaw(literalRes)) return (literalRes as LiteralRaw).value;
+      if (isLiteralNumber(literalRes)) return literalRes.value;
       return literalRes;
     }
-    if (ctx.operationCall) {
-      return this.visit(firstNode(ctx.operationCall, 'operationCall'));
-    }
-    return undefined;
+    return this.visit(pipelineNode);
   }
 
   public literal(ctx: LiteralCtx): LiteralResult | undefined {
@@ -460,18 +632,44 @@ class AstBuilder extends BaseVisitor {
       const hash = this.tokenToString(tok).slice(1);
       return { type: 'content', hash };
     }
+    if (ctx.NumberLiteral) {
+      const tok: IToken = firstToken(ctx.NumberLiteral, 'NumberLiteral');
+      const text = this.tokenToString(tok);
+      return { kind: 'literalNumber', value: Number(text), text };
+    }
     if (ctx.PathLiteral) {
       const tok: IToken = firstToken(ctx.PathLiteral, 'PathLiteral');
       const path = this.tokenToString(tok).slice(1, -1);
       return { type: 'pinned_path', path };
     }
-    if (ctx.DerivationRef) {
-      const tok: IToken = firstToken(ctx.DerivationRef, 'DerivationRef');
-      const id = this.tokenToString(tok).slice(1);
-      return { type: 'derivation', id };
+    if (ctx.derivationRef) {
+      return this.visit(firstNode(ctx.derivationRef, 'derivationRef')) as LiteralResult;
     }
     return undefined;
   }
+
+  public derivationRef(ctx: DerivationRefCtx): ExternalInputDescriptorItem {
+    const tok: IToken = firstToken(ctx.DerivationRef, 'DerivationRef');
+    const id = this.tokenToString(tok).slice(1);
+    if (!ctx.bindingList) {
+      return { type: 'derivation', id };
+    }
+    const params = this.visit(firstNode(ctx.bindingList, 'bindingList')) as Record<string, string>;
+    return { type: 'derivation', id, params };
+  }
+
+  public bindingList(ctx: BindingListCtx): Record<string, unknown> {
+    const params: Record<string, unknown> = {};
+    for (const node of ctx.keywordArg) {
+      const { key, value } = this.visit(node) as KwPair;
+      if (Object.hasOwn(params, key)) {
+        throw new Error(`Parameter "${key}" is bound more than once`);
+      }
+      // bound values are text
+      params[key] = typeof value === 'number' ? String(value) : value;
+    }
+    return params;
+  }
 }
 
 const astBuilder = new AstBuilder();
@@ -538,6 +736,32 @@ export function __parseDerivationExpressionAst(expression: string): ParseDerivat
   }
 }
 
+/**
+ * The model registry includes models from config, so the schema accepts any
+ * alias; only registered ones may be used in new expressions.
+ */
+function _findUnknownModels(
+  params: ExternalStepParams,
+  path: (string | number)[] = []
+): ParseError[] {
+  const errors: ParseError[] = [];
+  if (isLlmStep(params) && !findLlmModel(params.model)) {
+    errors.push({
+      code: 'INVALID_MODEL',
+      message: params.model.startsWith(localModelPrefix)
+        ? `Local model "${params.model}" is not declared in config (localLlm.models)`
+        : `Unknown model "${params.model}"; add it to models in config to use it`,
+      path: [...path, 'model']
+    });
+  }
+  params.inputs.forEach((input, index) => {
+    if (input.type === 'computed_step') {
+      errors.push(..._findUnknownModels(input.step, [...path, 'inputs', index, 'step']));
+    }
+  });
+  return errors;
+}
+
 export function parseDerivationExpression(expression: string): ParseDerivationResult {
   const parsed = __parseDerivationExpressionAst(expression);
   if (!parsed.success) {
@@ -548,6 +772,10 @@ export function parseDerivationExpression(expression: string): ParseDerivationRe
     const errors = validated.error.issues.map(mapZodIssue);
     return { success: false, kind: 'ast-validation', errors };
   }
+  const modelErrors = _findUnknownModels(validated.data);
+  if (modelErrors.length > 0) {
+    return { success: false, kind: 'ast-validation', errors: modelErrors };
+  }
   return { success: true, params: validated.data };
 }
 
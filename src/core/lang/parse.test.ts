@@ -1,5 +1,7 @@
-import { describe, it, expect, assert } from 'vitest';
+import { describe, it, expect, assert, afterEach } from 'vitest';
 import { parseDerivationExpression, __parseDerivationExpressionAst } from './index.js';
+import { findLlmModel, setConfigModels, setLocalModels } from '@lang-data/models.js';
+import { getLlmCost } from '@lang-data/pricing.js';
 
 describe('parseDerivationExpression', () => {
   it('parses llm with constant positional input and keyword args', () => {
@@ -156,6 +158,433 @@ describe('parseDerivationExpression', () => {
     });
   });
 
+  describe('parameters', () => {
+    it('parses param() as a parameter input, with an optional default', () => {
+      const result = parseDerivationExpression(
+        'concat(param("topic"), param("tone", default="playful"))'
+      );
+      assert(result.success);
+      expect(result.params).toEqual({
+        operation: 'concat',
+        inputs: [
+          { type: 'param', name: 'topic' },
+          { type: 'param', name: 'tone', default: 'playful' }
+        ]
+      });
+    });
+
+    it('parses param() as a pipeline head', () => {
+      const result = parseDerivationExpression(
+        'param("topic") |> llm(prompt="Write about {topic}", model="openai/gpt-o3")'
+      );
+      assert(result.success);
+      expect(result.params).toEqual({
+        operation: 'llm',
+        inputs: [{ type: 'param', name: 'topic' }],
+        prompt: 'Write about {topic}',
+        model: 'openai/gpt-o3'
+      });
+    });
+
+    it('parses derivation references with bindings', () => {
+      const result = parseDerivationExpression(
+        'concat($story(topic="hot air balloon", tone=\'dry\'), $story())'
+      );
+      assert(result.success);
+      expect(result.params).toEqual({
+        operation: 'concat',
+        inputs: [
+          { type: 'derivation', id: 'story', params: { topic: 'hot air balloon', tone: 'dry' } },
+          { type: 'derivation', id: 'story' }
+        ]
+      });
+    });
+
+    it('rejects malformed parameters and bindings', () => {
+      const invalid = [
+        'identity(param())',
+        'identity(param("not a name"))',
+        'identity(param("topic", fallback="x"))',
+        '"x" |> param("topic")',
+        'identity($story(topic="a", topic="b"))'
+      ];
+      for (const expression of invalid) {
+        const result = parseDerivationExpression(expression);
+        assert(!result.success, expression);
+        expect(result.kind).toBe('ast-transform');
+      }
+
+      const nonString = parseDerivationExpression('identity($story(topic=#deadbeefcafebaba))');
+      assert(!nonString.success);
+      expect(nonString.kind).toBe('ast-validation');
+    });
+  });
+
+  describe('lists', () => {
+    it('pipes each element into the head of the map body', () => {
+      const result = parseDerivationExpression(
+        'split($urls, "\\n") |> map(getUrlContent() |> llm(prompt="summarize", model="openai/gpt-5")) |> join(", ")'
+      );
+      assert(result.success);
+      expect(result.params).toEqual({
+        operation: 'join',
+        inputs: [
+          {
+            type: 'computed_step',
+            step: {
+              operation: 'map',
+              inputs: [
+                {
+                  type: 'computed_step',
+                  step: {
+                    operation: 'split',
+                    inputs: [
+                      { type: 'derivation', id: 'urls' },
+                      { type: 'constant', value: '\n' }
+                    ]
+                  }
+                },
+                {
+                  type: 'computed_step',
+                  step: {
+                    operation: 'llm',
+                    inputs: [
+                      {
+                        type: 'computed_step',
+                        step: { operation: 'getUrlContent', inputs: [{ type: 'map_item' }] }
+                      }
+                    ],
+                    prompt: 'summarize',
+                    model: 'openai/gpt-5'
+                  }
+                }
+              ]
+            }
+          },
+          { type: 'constant', value: ', ' }
+        ]
+      });
+    });
+
+    it('only pipes the element into piped steps of the body', () => {
+      const result = parseDerivationExpression('map($items, concat(identity("a"), "b"))');
+      assert(result.success);
+      expect(result.params).toMatchObject({
+        operation: 'map',
+        inputs: [
+          { type: 'derivation', id: 'items' },
+          {
+            type: 'computed_step',
+            step: {
+              operation: 'concat',
+              inputs: [
+                { type: 'map_item' },
+                { type: 'computed_step', step: { operation: 'identity' } },
+                { type: 'constant', value: 'b' }
+              ]
+            }
+          }
+        ]
+      });
+    });
+
+    it('requires an operation as the map body', () => {
+      const result = parseDerivationExpression('map($items, "text")');
+      assert(!result.success);
+      expect(result.kind).toBe('ast-transform');
+    });
+  });
+
+  describe('text operations', () => {
+    it('parses number keyword arguments', () => {
+      const result = parseDerivationExpression(
+        '$doc |> lines(from=2, to=-1) |> extract(regex="id: (\\d+)", group=1)'
+      );
+      assert(result.success);
+      expect(result.params).toEqual({
+        operation: 'extract',
+        inputs: [
+          {
+            type: 'computed_step',
+            step: {
+              operation: 'lines',
+              inputs: [{ type: 'derivation', id: 'doc' }],
+              from: 2,
+              to: -1
+            }
+          }
+        ],
+        regex: 'id: (\\d+)',
+        group: 1
+      });
+    });
+
+    it('keeps the backslash of escapes strings do not define, as in regexes', () => {
+      const result = parseDerivationExpression(
+        "replace('a.b', pattern='\\s*\\.', with=\"\\n\\\\\")"
+      );
+      assert(result.success);
+      expect(result.params).toMatchObject({ pattern: '\\s*\\.', with: '\n\\' });
+    });
+
+    it('treats positional numbers and bound numbers as text', () => {
+      const result = parseDerivationExpression('template("{0} of {1}", 3, $total(n=10))');
+      assert(result.success);
+      expect(result.params).toEqual({
+        operation: 'template',
+        inputs: [
+          { type: 'constant', value: '{0} of {1}' },
+          { type: 'constant', value: '3' },
+          { type: 'derivation', id: 'total', params: { n: '10' } }
+        ]
+      });
+    });
+
+    it('rejects invalid keyword values', () => {
+      for (const expression of [
+        'lines("a", from=0)',
+        'extract("a", regex="a", group=-1)',
+        'replace("a", pattern=1)'
+      ]) {
+        const result = parseDerivationExpression(expression);
+        assert(!result.success, expression);
+        expect(result.kind).toBe('ast-validation');
+      }
+    });
+  });
+
+  describe('json', () => {
+    it('moves the llmJson schema into the inputs', () => {
+      const result = parseDerivationExpression(
+        '$doc |> llmJson(prompt="p", model="openai/gpt-5", schema=$schema)'
+      );
+      assert(result.success);
+      expect(result.params).toEqual({
+        operation: 'llmJson',
+        inputs: [
+          { type: 'derivation', id: 'doc' },
+          { type: 'derivation', id: 'schema' }
+        ],
+        prompt: 'p',
+        model: 'openai/gpt-5'
+      });
+
+      const inline = parseDerivationExpression(
+        'llmJson("x", prompt="p", model="openai/gpt-5", schema=\'{"type": "object"}\')'
+      );
+      assert(inline.success);
+      expect(inline.params.inputs[1]).toEqual({ type: 'constant', value: '{"type": "object"}' });
+    });
+
+    it('requires an llmJson schema', () => {
+      const result = parseDerivationExpression('llmJson("x", prompt="p", model="openai/gpt-5")');
+      assert(!result.success);
+      expect(result.kind).toBe('ast-validation');
+    });
+  });
+
+  describe('branching', () => {
+    it('parses if with a piped condition', () => {
+      const result = parseDerivationExpression('$flag |> if("yes", $fallback)');
+      assert(result.success);
+      expect(result.params).toEqual({
+        operation: 'if',
+        inputs: [
+          { type: 'derivation', id: 'flag' },
+          { type: 'constant', value: 'yes' },
+          { type: 'derivation', id: 'fallback' }
+        ]
+      });
+    });
+
+    it('moves switch cases and the default into the inputs', () => {
+      const result = parseDerivationExpression(
+        'switch($kind, default="other", bug=$ticket |> upper(), question="ask")'
+      );
+      assert(result.success);
+      expect(result.params).toEqual({
+        operation: 'switch',
+        inputs: [
+          { type: 'derivation', id: 'kind' },
+          {
+            type: 'computed_step',
+            step: { operation: 'upper', inputs: [{ type: 'derivation', id: 'ticket' }] }
+          },
+          { type: 'constant', value: 'ask' },
+          { type: 'constant', value: 'other' }
+        ],
+        cases: ['bug', 'question']
+      });
+    });
+
+    it('requires at least one switch case', () => {
+      const result = parseDerivationExpression('switch($kind, default="other")');
+      assert(!result.success);
+      expect(result.kind).toBe('ast-validation');
+    });
+  });
+
+  describe('sampling parameters', () => {
+    it('parses sampling arguments, with repeated stop sequences', () => {
+      const result = parseDerivationExpression(
+        'llm("x", prompt="p", model="openai/gpt-5", temperature=0.7, maxTokens=200, topP=1, seed=42, stop="END", stop="\\n\\n")'
+      );
+      assert(result.success);
+      expect(result.params).toMatchObject({
+        temperature: 0.7,
+        maxTokens: 200,
+        topP: 1,
+        seed: 42,
+        stop: ['END', '\n\n']
+      });
+    });
+
+    it('reports invalid sampling arguments', () => {
+      for (const expression of [
+        'llm("x", prompt="p", model="openai/gpt-5", maxTokens=0.5)',
+        'llm("x", prompt="p", model="openai/gpt-5", stop="")'
+      ]) {
+        const result = parseDerivationExpression(expression);
+        assert(!result.success);
+        expect(result.errors[0]?.code).toBe('INVALID_SAMPLING_PARAM');
+      }
+    });
+  });
+
+  describe('local files', () => {
+    it('reads path literals from disk', () => {
+      const readFile = parseDerivationExpression('readFile(`notes/a.md`)');
+      assert(readFile.success);
+      expect(readFile.params).toEqual({
+        operation: 'readFile',
+        inputs: [{ type: 'file', path: 'notes/a.md' }]
+      });
+
+      const glob = parseDerivationExpression('glob(`notes/**/*.md`)');
+      assert(glob.success);
+      expect(glob.params).toEqual({
+        operation: 'glob',
+        inputs: [{ type: 'file_glob', pattern: 'notes/**/*.md' }]
+      });
+    });
+
+    it('requires a path literal', () => {
+      const result = parseDerivationExpression('readFile("notes/a.md")');
+      assert(!result.success);
+      expect(result.kind).toBe('ast-validation');
+    });
+  });
+
+  describe('overflow', () => {
+    it('parses an overflow strategy', () => {
+      const result = parseDerivationExpression(
+        'llm("x", prompt="p", model="openai/gpt-5", overflow="map-reduce")'
+      );
+      assert(result.success);
+      expect(result.params).toMatchObject({ overflow: 'map-reduce' });
+    });
+
+    it('rejects map-reduce for chat and unknown strategies', () => {
+      for (const expression of [
+        'chat(user="x", model="openai/gpt-5", overflow="map-reduce")',
+        'llm("x", prompt="p", model="openai/gpt-5", overflow="summarize")'
+      ]) {
+        const result = parseDerivationExpression(expression);
+        assert(!result.success);
+        expect(result.kind).toBe('ast-validation');
+      }
+    });
+  });
+
+  describe('chat', () => {
+    it('keeps repeated turns in the order they are written', () => {
+      const result = parseDerivationExpression(
+        '$question |> chat(system="be brief", assistant=$answer, user="why?", model="openai/gpt-5", user=$more)'
+      );
+      assert(result.success);
+      expect(result.params).toEqual({
+        operation: 'chat',
+        inputs: [
+          { type: 'derivation', id: 'question' },
+          { type: 'derivation', id: 'answer' },
+          { type: 'constant', value: 'why?' },
+          { type: 'derivation', id: 'more' }
+        ],
+        roles: ['user', 'assistant', 'user', 'user'],
+        system: 'be brief',
+        model: 'openai/gpt-5'
+      });
+    });
+
+    it('requires a message', () => {
+      const result = parseDerivationExpression('chat(system="be brief", model="openai/gpt-5")');
+      assert(!result.success);
+      expect(result.kind).toBe('ast-validation');
+    });
+  });
+
+  describe('local models', () => {
+    afterEach(() => {
+      setLocalModels({});
+    });
+
+    it('accepts local models declared in config', () => {
+      setLocalModels({ 'llama3.1-8b': 'llama3.1:8b' });
+      const result = parseDerivationExpression('llm("x", prompt="p", model="local/llama3.1-8b")');
+      assert(result.success);
+      expect(result.params).toMatchObject({ model: 'local/llama3.1-8b' });
+    });
+
+    it('reports undeclared local models, including in nested steps', () => {
+      const result = parseDerivationExpression(
+        'llm("x", prompt="p", model="local/llama3.1-8b") |> llm(prompt="p", model="openai/gpt-5")'
+      );
+      assert(!result.success);
+      expect(result.kind).toBe('ast-validation');
+      expect(result.errors).toEqual([
+        expect.objectContaining({ code: 'INVALID_MODEL', path: ['inputs', 0, 'step', 'model'] })
+      ]);
+    });
+  });
+
+  describe('config models', () => {
+    afterEach(() => {
+      setConfigModels([]);
+    });
+
+    it('accepts models declared in config and rejects unknown ones', () => {
+      const expression = 'llm("x", prompt="p", model="openrouter/mistralai/mistral-large")';
+      const unknown = parseDerivationExpression(expression);
+      assert(!unknown.success);
+      expect(unknown.errors).toEqual([expect.objectContaining({ code: 'INVALID_MODEL' })]);
+
+      setConfigModels([{ provider: 'openrouter', modelId: 'mistralai/mistral-large' }]);
+      expect(parseDerivationExpression(expression).success).toBe(true);
+    });
+
+    it('overrides only the fields a config entry sets on a built-in model', () => {
+      setConfigModels([
+        {
+          provider: 'openai',
+          modelId: 'gpt-5',
+          pricing: { inputPerMillion: 1, outputPerMillion: 2 }
+        },
+        { alias: 'openai/fast', provider: 'openai', modelId: 'gpt-5-mini', contextWindow: 1000 }
+      ]);
+      expect(findLlmModel('openai/gpt-5')).toMatchObject({
+        name: 'GPT-5',
+        contextWindow: 400_000,
+        pricing: { inputPerMillion: 1, outputPerMillion: 2 }
+      });
+      expect(findLlmModel('openai/fast')).toMatchObject({
+        modelId: 'gpt-5-mini',
+        name: 'gpt-5-mini',
+        contextWindow: 1000
+      });
+      expect(getLlmCost('openai/gpt-5', 1_000_000, 1_000_000)).toBe(3);
+    });
+  });
+
   describe('error cases', () => {
     it('reports lexer errors with kind=lexer and position', () => {
       const result = parseDerivationExpression('llm("unterminated)');
@@ -0,0 +1,30 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { setConfigModels } from '@lang-data/models.js';
+import { createRateLimiter } from './index.js';
+
+describe('createRateLimiter', () => {
+  const config = {
+    openaiApiKey: 'test',
+    openRouterApiKey: 'test',
+    databasePath: 'test',
+    watchedDirectory: 'test',
+    embeddingRpmLimit: 1000,
+    skipEmbedding: false,
+    debug: false,
+    theme: 'system' as const
+  };
+
+  afterEach(() => {
+    setConfigModels([]);
+  });
+
+  it('should give models declared after it was made a queue', async () => {
+    const limiter = await createRateLimiter(config);
+    expect(() => limiter.getQueue('openrouter/test/later')).toThrow('No processor configured');
+
+    setConfigModels([{ provider: 'openrouter', modelId: 'test/later' }]);
+
+    expect(limiter.getQueue('openrouter/test/later')).toBeDefined();
+    expect(limiter.getQueue('openai/gpt-5')).toBeDefined();
+  });
+});
@@ -1,15 +1,54 @@
+import { isNil } from 'lodash-es';
 import { createRateLimitManager } from './modelRateLimitManager.js';
 import { performEmbedding } from './embedding.js';
+import { performLlmCall } from './llm.js';
 import type { ConfigType } from '@config/types.js';
-import { EmbeddingInputData, Prettify } from '../types.js';
+import { findLlmModel } from '@lang-data/models.js';
+import type { LlmModel } from '../db/types.js';
+import {
+  EmbeddingInputData,
+  EmbeddingOutput,
+  LlmInputData,
+  LlmOutput,
+  Prettify
+} from '../types.js';
+import { RollingWindowLimits } from './rateLimitQueue.js';
+
+const DEFAULT_LLM_RPM_LIMIT = 500;
+
+type EmbeddingQueueConfig = {
+  processor: (data: EmbeddingInputData) => Promise<EmbeddingOutput>;
+  limits: RollingWindowLimits;
+};
+
+type LlmQueueConfig = {
+  processor: (data: LlmInputData) => Promise<LlmOutput>;
+  limits: RollingWindowLimits;
+};
 
 export const createRateLimiter = async (config: ConfigType) => {
-  return createRateLimitManager({
+  // one queue per model, so a busy model doesn't hold up calls to the others
+  const getLlmQueueConfig = (alias: string): LlmQueueConfig => {
+    const limits = config.llmRateLimits?.[alias];
+    return {
+      processor: (data) => performLlmCall(data, config),
+      limits: {
+        maxRequests: limits?.rpm ?? DEFAULT_LLM_RPM_LIMIT,
+        maxTokens: limits?.tpm ?? Infinity
+      }
+    };
+  };
+
+  // llm queues are made on first use, so models declared later get one too
+  const queues = {
     embedding: {
-      processor: (data: EmbeddingInputData) => performEmbedding(data, config),
+      processor: (data) => performEmbedding(data, config),
       limits: { maxRequests: config.embeddingRpmLimit }
     }
-  });
+  } as { embedding: EmbeddingQueueConfig } & Record<LlmModel, LlmQueueConfig>;
+  return createRateLimitManager(queues, (modelId) =>
+    isNil(findLlmModel(modelId)) ? undefined : getLlmQueueConfig(modelId)
+  );
 };
 
 export type RateLimiter = Prettify<Awaited<ReturnType<typeof createRateLimiter>>>;
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+import { APICallError, RetryError } from 'ai';
+import { withRateLimitRetry } from './llm.js';
+
+const apiError = (statusCode: number, responseHeaders?: Record<string, string>) =>
+  new APICallError({
+    message: `status ${statusCode}`,
+    url: 'https://example.com',
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders
+  });
+
+describe('withRateLimitRetry', () => {
+  it('retries rate-limit responses until the call succeeds', async () => {
+    const attempt = vi
+      .fn()
+      .mockRejectedValueOnce(apiError(429))
+      .mockRejectedValueOnce(
+        new RetryError({
+          message: 'retries',
+          reason: 'maxRetriesExceeded',
+          errors: [apiError(429)]
+        })
+      )
+      .mockResolvedValueOnce('done');
+
+    await expect(withRateLimitRetry('openai/gpt-5', attempt, { baseDelayMs: 1 })).resolves.toBe(
+      'done'
+    );
+    expect(attempt).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits as long as retry-after asks', async () => {
+    vi.useFakeTimers();
+    try {
+      const attempt = vi
+        .fn()
+        .mockRejectedValueOnce(apiError(429, { 'retry-after': '3' }))
+        .mockResolvedValueOnce('done');
+
+      const result = withRateLimitRetry('openai/gpt-5', attempt, { baseDelayMs: 1 });
+      await vi.advanceTimersByTimeAsync(2_999);
+      expect(attempt).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(result).resolves.toBe('done');
+      expect(attempt).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('gives up after the maximum number of retries', async () => {
+    const attempt = vi.fn().mockRejectedValue(apiError(429));
+
+    await expect(
+      withRateLimitRetry('openai/gpt-5', attempt, { maxRetries: 2, baseDelayMs: 1 })
+    ).rejects.toThrow('status 429');
+    expect(attempt).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry other errors, or when the caller refuses', async () => {
+    const failing = vi.fn().mockRejectedValue(apiError(500));
+    await expect(withRateLimitRetry('openai/gpt-5', failing, { baseDelayMs: 1 })).rejects.toThrow(
+      'status 500'
+    );
+    expect(failing).toHaveBeenCalledTimes(1);
+
+    const limited = vi.fn().mockRejectedValue(apiError(429));
+    await expect(
+      withRateLimitRetry('openai/gpt-5', limited, { baseDelayMs: 1, canRetry: () => false })
+    ).rejects.toThrow('status 429');
+    expect(limited).toHaveBeenCalledTimes(1);
+  });
+});
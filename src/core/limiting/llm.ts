@@ -0,0 +1,95 @@
+import { APICallError, RetryError } from 'ai';
+import { isNil, sumBy } from 'lodash-es';
+import { callLlm, callLlmObject, streamLlm } from '../derivationEngine/llms/index.js';
+import { LlmInputData, LlmOutput } from '../types.js';
+import {
+  logLlmProcessorStart,
+  logLlmProcessorSuccess,
+  logLlmProcessorError,
+  logLlmRateLimitRetry
+} from '../logger.js';
+import type { ConfigType } from '@config/types.js';
+
+const RATE_LIMIT_MAX_RETRIES = 5;
+const RATE_LIMIT_BASE_DELAY_MS = 2_000;
+const RATE_LIMIT_MAX_DELAY_MS = 60_000;
+
+const _getRetryAfterMs = (error: APICallError): number | undefined => {
+  const retryAfter = error.responseHeaders?.['retry-after'];
+  if (isNil(retryAfter)) return undefined;
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/** 429s, including ones that outlasted the SDK's own retries */
+const _getRateLimitError = (error: unknown): APICallError | undefined => {
+  if (RetryError.isInstance(error)) return _getRateLimitError(error.lastError);
+  return APICallError.isInstance(error) && error.statusCode === 429 ? error : undefined;
+};
+
+/**
+ * Runs `attempt`, retrying with exponential backoff while the provider answers
+ * with a rate-limit response. A `retry-after` header takes precedence over the
+ * backoff. `canRetry` lets the caller refuse, e.g. once output was streamed.
+ */
+export async function withRateLimitRetry<T>(
+  model: string,
+  attempt: () => Promise<T>,
+  opts?: { maxRetries?: number; baseDelayMs?: number; canRetry?: () => boolean }
+): Promise<T> {
+  const maxRetries = opts?.maxRetries ?? RATE_LIMIT_MAX_RETRIES;
+  const baseDelayMs = opts?.baseDelayMs ?? RATE_LIMIT_BASE_DELAY_MS;
+
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      const rateLimitError = _getRateLimitError(error);
+      if (isNil(rateLimitError) || retry >= maxRetries || opts?.canRetry?.() === false) {
+        throw error;
+      }
+      const delayMs = Math.min(
+        _getRetryAfterMs(rateLimitError) ?? baseDelayMs * 2 ** retry,
+        RATE_LIMIT_MAX_DELAY_MS
+      );
+      logLlmRateLimitRetry(model, retry + 1, maxRetries, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+export async function performLlmCall(data: LlmInputData, config: ConfigType): Promise<LlmOutput> {
+  const { model, systemPrompt, prompt, sampling, onChunk, schema } = data;
+  logLlmProcessorStart(
+    model,
+    typeof prompt === 'string' ? prompt.length : sumBy(prompt, (message) => message.content.length)
+  );
+  // a retry would repeat chunks the caller already received
+  let streamed = false;
+  try {
+    const response = await withRateLimitRetry(
+      model,
+      () =>
+        !isNil(schema)
+          ? callLlmObject({ model, systemPrompt, prompt, sampling, schema }, config)
+          : isNil(onChunk)
+            ? callLlm({ model, systemPrompt, prompt, sampling }, config)
+            : streamLlm({ model, systemPrompt, prompt, sampling }, config, (chunk) => {
+                streamed = true;
+                onChunk(chunk);
+              }),
+      { canRetry: () => !streamed }
+    );
+    const usage = {
+      promptTokens: response.usage.inputTokens ?? 0,
+      completionTokens: response.usage.outputTokens ?? 0
+    };
+    logLlmProcessorSuccess(model, usage.promptTokens + usage.completionTokens);
+    return { text: response.text, usage };
+  } catch (error) {
+    logLlmProcessorError(model, error);
+    throw error;
+  }
+}
@@ -28,13 +28,21 @@ type Configs<C extends ModelVariables> = {
   [K in keyof C]: ModelQueueConfig<ModelData<C, K & string>, ModelResult<C, K & string>>;
 };
 
+type ResolveConfig<C extends ModelVariables> = (modelId: string) => Configs<C>[keyof C] | undefined;
+
 export class ModelRateLimitManager<C extends ModelVariables> {
   private readonly configs: Configs<C>;
+  private readonly resolveConfig: ResolveConfig<C> | undefined;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private readonly queues = new Map<string, RateLimitQueue<any, any>>();
 
-  constructor(configs: Configs<C>) {
+  /**
+   * @param resolveConfig Looks up models without a config of their own when
+   * their queue is first used, e.g. ones declared after the manager was made
+   */
+  constructor(configs: Configs<C>, resolveConfig?: ResolveConfig<C>) {
     this.configs = configs;
+    this.resolveConfig = resolveConfig;
   }
 
   /** Returns an existing queue for the model or creates it on first use */
@@ -43,7 +51,7 @@ export class ModelRateLimitManager<C extends ModelVariables> {
       | RateLimitQueue<ModelData<C, M>, ModelResult<C, M>>
       | undefined;
     if (!queue) {
-      const cfg = this.configs[modelId];
+      const cfg = this.configs[modelId] ?? this.resolveConfig?.(modelId);
       if (!cfg) {
         throw new Error(`No processor configured for model '${modelId}'.`);
       }
@@ -82,7 +90,8 @@ export const createRateLimitManager = <
     [K in keyof Cfg]: ModelQueueConfig<any, any>;
   }
 >(
-  configs: Cfg
+  configs: Cfg,
+  resolveConfig?: (modelId: string) => Cfg[keyof Cfg] | undefined
 ) => {
   // Extract the processor data and result types from the configs explicitly
   // since the important types are part of function signatures (contravariant)
@@ -93,7 +102,10 @@ export const createRateLimitManager = <
     };
   };
 
-  return new ModelRateLimitManager<Inferred>(configs);
+  return new ModelRateLimitManager<Inferred>(
+    configs,
+    resolveConfig as ResolveConfig<Inferred> | undefined
+  );
 };
 
 export const createMockRateLimitManager = <
@@ -106,4 +106,27 @@ describe('RateLimitQueue (rolling window)', () => {
 
     expect(processed).toEqual(['x', 'y']);
   });
+
+  it('runs a task larger than the token budget once the window is empty', async () => {
+    const processed: string[] = [];
+    const q = new RateLimitQueue<string, string>(
+      async (data) => {
+        processed.push(data);
+        return data;
+      },
+      { windowMs: 60_000, maxRequests: 10, maxTokens: 10 }
+    );
+
+    const p1 = q.enqueue('small', 'small', { tokens: 5 });
+    const p2 = q.enqueue('huge', 'huge', { tokens: 50 });
+
+    await p1;
+    expect(processed).toEqual(['small']);
+
+    vi.advanceTimersByTime(60_000);
+    await vi.runOnlyPendingTimersAsync();
+    await p2;
+
+    expect(processed).toEqual(['small', 'huge']);
+  });
 });
@@ -132,7 +132,9 @@ export class RateLimitQueue<TData, TResult> {
     const { reqs, toks } = this._currentUsage(now);
     const willReqs = reqs + 1;
     const willToks = toks + task.tokens;
-    return willReqs <= this.limits.maxRequests && willToks <= this.limits.maxTokens;
+    // a task bigger than the whole token budget would never fit, so it runs alone
+    const fitsTokens = willToks <= this.limits.maxTokens || this.usageHistory.length === 0;
+    return willReqs <= this.limits.maxRequests && fitsTokens;
   }
 
   private _nextAvailableDelay(now: number): number {
@@ -229,13 +229,17 @@ export function logDerivationInputReadStaleError(filePath: string, docId: string
     `DB path ${filePath} for doc_id ${docId} does not exist on disk! Watcher potentially out of sync.`
   );
 }
+export function logDerivationParameterUnbound(derivationId: string, name: string): void {
+  logWarnInternal(` -> Parameter '${name}' of derivation ${derivationId} has no value.`);
+}
 export function logDerivationInputTooLarge(
   derivationId: string,
-  length: number,
-  limit: number
+  tokens: number,
+  limit: number,
+  strategy: string
 ): void {
   logWarnInternal(
-    ` -> Input content size (${length} chars) exceeds limit (${limit} chars) for derivation ${derivationId}.`
+    ` -> Input content size (${tokens} tokens) exceeds limit (${limit} tokens) for derivation ${derivationId}; applying ${strategy}.`
   );
 }
 export function logDerivationOperationStart(derivationId: string, operation: string): void {
@@ -267,6 +271,15 @@ export function logDerivationCacheStoreError(cacheKey: string, error: unknown):
 export function logDerivationComputeUnexpectedError(cacheKey: string, error: unknown): void {
   logErrorInternal(`Unexpected error computing derivation ${cacheKey}`, error);
 }
+export function logDerivationUsageRecordError(derivationId: string, error: unknown): void {
+  logErrorInternal(` -> Failed to record LLM usage for derivation ${derivationId}`, error);
+}
+export function logDerivationReadOverBudget(derivationId: string, summary: string): void {
+  logWarnInternal(` -> Read of derivation ${derivationId} refused: ${summary}`);
+}
+export function logDerivationFailureRecordError(derivationId: string, error: unknown): void {
+  logErrorInternal(` -> Failed to record step failure for derivation ${derivationId}`, error);
+}
 
 // -- Main Orchestration (main.ts) --
 export function logMainStarting(): void {
@@ -317,6 +330,23 @@ export function logMainWatcherEventError(type: string, filePath: string, error:
 export function logMainWatcherReady(): void {
   logInfoInternal('Watcher setup complete. Monitoring for changes...');
 }
+export function logWatcherStaleFormulas(derivationIds: string[], paths: string[]): void {
+  logInfoInternal(
+    `${derivationIds.length} formula(s) stale after changes to ${paths.length} file(s): ${derivationIds.join(', ')}`
+  );
+}
+export function logWatcherStaleFormulasError(error: unknown): void {
+  logErrorInternal('Error finding the formulas stale after file changes', error);
+}
+export function logWatcherRecomputeStart(derivationId: string): void {
+  logInfoInternal(`Recomputing stale formula ${derivationId}...`);
+}
+export function logWatcherRecomputeError(derivationId: string, error: unknown): void {
+  logErrorInternal(`Error recomputing stale formula ${derivationId}`, error);
+}
+export function logWatcherRecomputeOverBudget(derivationId: string, summary: string): void {
+  logWarnInternal(`Skipped recomputing stale formula ${derivationId}: ${summary}`);
+}
 export function logMainCleanupStart(): void {
   logInfoInternal('\nInitiating graceful shutdown...');
 }
@@ -377,6 +407,27 @@ export function logEmbeddingProcessorError(hash: string, error: unknown): void {
   );
 }
 
+// -- LLM Processor (limiting/llm.ts) --
+export function logLlmProcessorStart(model: string, bytes: number): void {
+  logInfoInternal(` -> [Processor] Calling ${model}... (${bytes} bytes)...`);
+}
+export function logLlmProcessorSuccess(model: string, tokens: number): void {
+  logInfoInternal(` -> [Processor] ${model} responded (tokens: ${tokens}).`);
+}
+export function logLlmProcessorError(model: string, error: unknown): void {
+  logErrorInternal(` -> [Processor] Error calling ${model}`, error);
+}
+export function logLlmRateLimitRetry(
+  model: string,
+  attempt: number,
+  maxRetries: number,
+  delayMs: number
+): void {
+  logWarnInternal(
+    ` -> [Processor] ${model} rate limited, retry ${attempt}/${maxRetries} in ${delayMs}ms.`
+  );
+}
+
 // -- Main Directory Check (main.ts) --
 export function logMainDirCheckFound(dirPath: string): void {
   logInfoInternal(`Watched directory found: ${dirPath}`);
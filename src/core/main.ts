@@ -19,10 +19,6 @@ import {
   logMainInitialScanFoundDeleted,
   logMainInitialScanWaiting,
   logMainInitialScanComplete,
-  logMainWatcherStarting,
-  logMainWatcherError,
-  logMainWatcherEventError,
-  logMainWatcherReady,
   logMainCleanupStart,
   logMainUnsubscribingWatcher,
   logMainUnsubscribeSuccess,
@@ -37,6 +33,7 @@ import {
 } from './logger.js';
 import { createRateLimiter, RateLimiter } from './limiting';
 import { getAllFilesRecursive, isDirectorySafe } from './utils.js';
+import { startFileWatcher } from './watcher.js';
 
 // --- Initialization Phase ---
 interface AppComponents {
@@ -117,38 +114,6 @@ async function performInitialScan(
   logMainInitialScanComplete();
 }
 
-// --- Watcher Phase ---
-async function startFileWatcher(
-  watchedDirectory: string,
-  appDal: AppDal,
-  rateLimiter: RateLimiter,
-  config: ConfigType
-): Promise<watcher.AsyncSubscription> {
-  logMainWatcherStarting(watchedDirectory);
-  const subscription = await watcher.subscribe(watchedDirectory, async (err, events) => {
-    if (err) {
-      logMainWatcherError(err);
-      return;
-    }
-
-    const eventPromises = events.map(async (event) => {
-      const absolutePath = event.path;
-      try {
-        if (event.type === 'create' || event.type === 'update') {
-          await processFileCreationOrUpdate(absolutePath, appDal, rateLimiter, config);
-        } else if (event.type === 'delete') {
-          await removePathAssociation(absolutePath, appDal);
-        }
-      } catch (processingError) {
-        logMainWatcherEventError(event.type, absolutePath, processingError);
-      }
-    });
-    await Promise.all(eventPromises);
-  });
-  logMainWatcherReady();
-  return subscription;
-}
-
 // --- Main Orchestration ---
 async function main() {
   logMainStarting();
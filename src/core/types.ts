@@ -1,3 +1,6 @@
+import type { JSONSchema7 } from 'ai';
+import type { ChatRole, LlmModel, LlmSamplingParams } from './db/types.js';
+
 // --- Type Definitions for Embedding ---
 export interface EmbeddingInputData {
   contentHash: string;
@@ -12,6 +15,32 @@ export interface EmbeddingOutput {
   modelName: string;
 }
 
+// --- Type Definitions for LLM calls ---
+export interface LlmMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface LlmInputData {
+  model: LlmModel;
+  systemPrompt: string;
+  // a single user turn, or a whole conversation
+  prompt: string | LlmMessage[];
+  sampling?: LlmSamplingParams;
+  // streams text deltas when set
+  onChunk?: (chunk: string) => void;
+  // asks for JSON matching this schema instead of text; not streamed
+  schema?: JSONSchema7;
+}
+
+export interface LlmOutput {
+  text: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
 export type Prettify<T> = {
   [K in keyof T]: T[K];
 } & {};
@@ -17,7 +17,9 @@ export const getDerivationCacheKey = (
   inputContentHashes: string[]
 ): string => {
   // FIXME cast
-  // inputs is omitted from operationSlice for cache key calculation
+  // inputs is omitted from operationSlice for cache key calculation; every other
+  // argument (e.g. llm sampling parameters) is part of the key, and unset
+  // optional arguments are left out so they don't change existing keys
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const { inputs, ...operationSlice } = stepParams as Record<string, unknown>;
   const operationSliceString = stableStringify(operationSlice);
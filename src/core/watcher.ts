@@ -0,0 +1,113 @@
+import watcher from '@parcel/watcher';
+import type { AppDal } from './db/app_dal.js';
+import type { ConfigType } from '@config/types.js';
+import { processFileCreationOrUpdate, removePathAssociation } from './files.js';
+import { RateLimiter } from './limiting';
+import { getOrComputeDerivedContent } from './derivationEngine/read.js';
+import {
+  buildDependentsIndex,
+  FileChange,
+  findStaleDerivations
+} from './derivationEngine/dependents.js';
+import {
+  logMainWatcherStarting,
+  logMainWatcherError,
+  logMainWatcherEventError,
+  logMainWatcherReady,
+  logWatcherStaleFormulas,
+  logWatcherStaleFormulasError,
+  logWatcherRecomputeStart,
+  logWatcherRecomputeError,
+  logWatcherRecomputeOverBudget
+} from './logger.js';
+
+/** The formulas a batch of file changes made stale, and the changed paths */
+export interface StaleFormulasEvent {
+  derivationIds: string[];
+  paths: string[];
+}
+
+const _findPreviousHash = (appDal: AppDal, filePath: string): string | undefined => {
+  const docId = appDal.core.findDocIdByPath(filePath);
+  return docId ? appDal.core.findHashByDocId(docId) : undefined;
+};
+
+/**
+ * Keeps `documents` in sync with the watched directory, and reports the
+ * formulas each batch of changes makes stale. With `autoRecompute` set, those
+ * formulas are also re-read in the background, one at a time. Nobody is there
+ * to confirm a read over a spending cap, so those are skipped.
+ */
+export async function startFileWatcher(
+  watchedDirectory: string,
+  appDal: AppDal,
+  rateLimiter: RateLimiter,
+  config: ConfigType,
+  onStaleFormulas?: (event: StaleFormulasEvent) => void
+): Promise<watcher.AsyncSubscription> {
+  // recomputes queue behind each other, so a burst of changes reads each formula in turn
+  let recomputing = Promise.resolve();
+  const recompute = (derivationIds: string[]) => {
+    recomputing = recomputing.then(async () => {
+      for (const derivationId of derivationIds) {
+        logWatcherRecomputeStart(derivationId);
+        try {
+          // reads are checked against the spending caps before anything runs
+          const result = await getOrComputeDerivedContent(
+            appDal,
+            derivationId,
+            rateLimiter,
+            config
+          );
+          if (!result.success && result.error.kind === 'over_budget') {
+            logWatcherRecomputeOverBudget(derivationId, result.error.message);
+          } else if (!result.success) {
+            logWatcherRecomputeError(derivationId, result.error.message);
+          }
+        } catch (error) {
+          logWatcherRecomputeError(derivationId, error);
+        }
+      }
+    });
+  };
+
+  logMainWatcherStarting(watchedDirectory);
+  const subscription = await watcher.subscribe(watchedDirectory, async (err, events) => {
+    if (err) {
+      logMainWatcherError(err);
+      return;
+    }
+
+    const changes: FileChange[] = [];
+    const eventPromises = events.map(async (event) => {
+      const absolutePath = event.path;
+      try {
+        changes.push({ path: absolutePath, previousHash: _findPreviousHash(appDal, absolutePath) });
+        if (event.type === 'create' || event.type === 'update') {
+          await processFileCreationOrUpdate(absolutePath, appDal, rateLimiter, config);
+        } else if (event.type === 'delete') {
+          await removePathAssociation(absolutePath, appDal);
+        }
+      } catch (processingError) {
+        logMainWatcherEventError(event.type, absolutePath, processingError);
+      }
+    });
+    await Promise.all(eventPromises);
+
+    let derivationIds: string[];
+    try {
+      const index = buildDependentsIndex(appDal, watchedDirectory);
+      derivationIds = findStaleDerivations(index, changes);
+    } catch (error) {
+      logWatcherStaleFormulasError(error);
+      return;
+    }
+    if (derivationIds.length === 0) return;
+    const paths = changes.map((change) => change.path);
+    logWatcherStaleFormulas(derivationIds, paths);
+    onStaleFormulas?.({ derivationIds, paths });
+    if (config.autoRecompute) recompute(derivationIds);
+  });
+  logMainWatcherReady();
+  return subscription;
+}
@@ -1,25 +1,51 @@
 import { app, shell, BrowserWindow } from 'electron';
-import { join } from 'path';
+import { join, resolve } from 'path';
+import type watcher from '@parcel/watcher';
 import { electronApp, optimizer, is } from '@electron-toolkit/utils';
 import icon from '../../resources/icon.png?asset';
 import { appRouter } from '../../../shared/server';
+import { serverEvents } from '../../../shared/server/events';
+import { createAppContext } from '../../../shared/server/context';
+import type { TRPCContext } from '../../../shared/server/trpc';
 import { registerTRPC } from './trpc-ipc';
+import { registerThemeListener } from './theme-listener';
+import { startFileWatcher } from '@core/watcher.js';
 import { getConfig } from '@core/config.js';
+import { createRateLimiter } from '@core/limiting';
 import type { ConfigType } from '@config/types.js';
-import { createAppDal, AppDal } from '@core/db/app_dal.js';
-import { createRateLimiter, RateLimiter } from '@core/limiting';
-import { registerThemeListener } from './theme-listener';
 
-// TODO move context creation to shared/server
-async function createAppContext(): Promise<{
-  appDal: AppDal;
-  rateLimiter: RateLimiter;
-  config: ConfigType;
-}> {
-  const config = await getConfig();
-  const appDal = await createAppDal(config.databasePath);
-  const rateLimiter = await createRateLimiter(config);
-  return { appDal, rateLimiter, config };
+let watcherSubscription: watcher.AsyncSubscription | null = null;
+
+// One database connection and rate limiter for the app's lifetime, shared by
+// requests and the watcher
+let appContext: Promise<TRPCContext> | null = null;
+const getAppContext = () => (appContext ??= createAppContext());
+
+// Requests see config updates, which getConfig picks up
+const createRequestContext = async (): Promise<TRPCContext> => ({
+  ...(await getAppContext()),
+  config: await getConfig()
+});
+
+// Watches for as long as the app runs, telling open windows which formulas went stale
+async function startWatcher(config: ConfigType): Promise<void> {
+  const { appDal, rateLimiter } = await getAppContext();
+  if (!config.watchedDirectory) return;
+  watcherSubscription = await startFileWatcher(
+    resolve(config.watchedDirectory),
+    appDal,
+    rateLimiter,
+    config,
+    (event) => serverEvents.emit('staleFormulas', event)
+  );
+}
+
+// The watcher keeps the config it started with, so it restarts with the new one
+async function restartWatcher(config: ConfigType): Promise<void> {
+  const previous = watcherSubscription;
+  watcherSubscription = null;
+  await previous?.unsubscribe();
+  await startWatcher(config);
 }
 
 function createWindow(): void {
@@ -54,7 +80,7 @@ function createWindow(): void {
     mainWindow.loadFile(join(__dirname, '../renderer/index.html'));
   }
 
-  registerTRPC(appRouter, async () => await createAppContext());
+  registerTRPC(appRouter, createRequestContext);
   registerThemeListener(mainWindow);
 }
 
@@ -73,6 +99,20 @@ app.whenReady().then(() => {
   });
 
   createWindow();
+  // restarts queue behind the start and each other, so only one watcher runs
+  let watcherStarting = getConfig()
+    .then(startWatcher)
+    .catch((error) => console.error('Failed to start the file watcher', error));
+  serverEvents.on('configUpdated', (config) => {
+    // the limiter's queues call models with the config it was made with
+    appContext = getAppContext().then(async (context) => ({
+      ...context,
+      rateLimiter: await createRateLimiter(config)
+    }));
+    watcherStarting = watcherStarting
+      .then(() => restartWatcher(config))
+      .catch((error) => console.error('Failed to restart the file watcher', error));
+  });
 
   app.on('activate', function () {
     // On macOS it's common to re-create a window in the app when the
@@ -84,6 +124,11 @@ app.whenReady().then(() => {
 // Quit when all windows are closed, except on macOS. There, it's common
 // for applications and their menu bar to stay active until the user quits
 // explicitly with Cmd + Q.
+app.on('will-quit', () => {
+  void watcherSubscription?.unsubscribe();
+  watcherSubscription = null;
+});
+
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
     app.quit();
@@ -1,11 +1,13 @@
-import { ipcMain, IpcMainInvokeEvent } from 'electron';
+import { ipcMain, IpcMainEvent, IpcMainInvokeEvent } from 'electron';
 import { TRPCError, type AnyRouter, type inferRouterContext } from '@trpc/server';
 import { get, isNil } from 'lodash-es';
 
+const SUBSCRIPTION_EVENT_IPC_CHANNEL = 'trpc-subscription:event';
+
 export function registerTRPC<TRouter extends AnyRouter>(
   router: TRouter,
   createContext?: (opts: {
-    event: IpcMainInvokeEvent;
+    event: IpcMainInvokeEvent | IpcMainEvent;
   }) => Promise<inferRouterContext<TRouter>> | inferRouterContext<TRouter>
 ) {
   ipcMain.handle('trpc', async (event: IpcMainInvokeEvent, path: string, input: unknown) => {
@@ -23,4 +25,58 @@ export function registerTRPC<TRouter extends AnyRouter>(
 
     return procedureFn(input);
   });
+
+  // subscriptions are keyed by a renderer-chosen id so they can be stopped early
+  const activeSubscriptions = new Map<string, AbortController>();
+
+  ipcMain.on(
+    'trpc-subscription:start',
+    async (event: IpcMainEvent, id: string, path: string, input: unknown) => {
+      const abortController = new AbortController();
+      activeSubscriptions.set(id, abortController);
+
+      const send = (
+        payload:
+          | { type: 'data'; data: unknown }
+          | { type: 'error'; message: string }
+          | { type: 'complete' }
+      ) => {
+        if (!event.sender.isDestroyed()) {
+          event.sender.send(SUBSCRIPTION_EVENT_IPC_CHANNEL, id, payload);
+        }
+      };
+
+      try {
+        const ctx = await createContext?.({ event });
+
+        const caller = router.createCaller(ctx, { signal: abortController.signal });
+
+        const procedureFn = get(caller, path.split('.'));
+
+        if (isNil(procedureFn)) {
+          throw new TRPCError({ code: 'NOT_FOUND' });
+        }
+
+        const iterable: AsyncIterable<unknown> = await procedureFn(input);
+        for await (const data of iterable) {
+          if (abortController.signal.aborted) {
+            break;
+          }
+          send({ type: 'data', data });
+        }
+        send({ type: 'complete' });
+      } catch (err) {
+        if (!abortController.signal.aborted) {
+          send({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+        }
+      } finally {
+        activeSubscriptions.delete(id);
+      }
+    }
+  );
+
+  ipcMain.on('trpc-subscription:stop', (_event: IpcMainEvent, id: string) => {
+    activeSubscriptions.get(id)?.abort();
+    activeSubscriptions.delete(id);
+  });
 }
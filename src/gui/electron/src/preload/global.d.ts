@@ -2,6 +2,15 @@ declare global {
   interface Window {
     api: {
       invokeTrpc: (path: string, input: unknown) => Promise<unknown>;
+      subscribeTrpc: (
+        path: string,
+        input: unknown,
+        handlers: {
+          onData: (data: unknown) => void;
+          onError: (message: string) => void;
+          onComplete: () => void;
+        }
+      ) => () => void;
       system: {
         onThemeChange: (callback: (isDark: boolean) => void) => () => void;
       };
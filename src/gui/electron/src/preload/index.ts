@@ -1,6 +1,12 @@
 import { contextBridge, ipcRenderer } from 'electron';
 
 const THEME_CHANGED_IPC_EVENT = 'theme-changed';
+const TRPC_SUBSCRIPTION_EVENT_IPC_EVENT = 'trpc-subscription:event';
+
+type SubscriptionEvent =
+  | { type: 'data'; data: unknown }
+  | { type: 'error'; message: string }
+  | { type: 'complete' };
 
 if (!process.contextIsolated) {
   throw new Error(
@@ -8,9 +14,45 @@ if (!process.contextIsolated) {
   );
 }
 
+let nextSubscriptionId = 0;
+
 try {
   contextBridge.exposeInMainWorld('api', {
     invokeTrpc: (path: string, input: unknown) => ipcRenderer.invoke('trpc', path, input),
+    subscribeTrpc: (
+      path: string,
+      input: unknown,
+      handlers: {
+        onData: (data: unknown) => void;
+        onError: (message: string) => void;
+        onComplete: () => void;
+      }
+    ) => {
+      const id = String(nextSubscriptionId++);
+      const listener = (
+        _event: Electron.IpcRendererEvent,
+        eventId: string,
+        payload: SubscriptionEvent
+      ) => {
+        if (eventId !== id) return;
+        if (payload.type === 'data') {
+          handlers.onData(payload.data);
+          return;
+        }
+        ipcRenderer.removeListener(TRPC_SUBSCRIPTION_EVENT_IPC_EVENT, listener);
+        if (payload.type === 'error') {
+          handlers.onError(payload.message);
+        } else {
+          handlers.onComplete();
+        }
+      };
+      ipcRenderer.on(TRPC_SUBSCRIPTION_EVENT_IPC_EVENT, listener);
+      ipcRenderer.send('trpc-subscription:start', id, path, input);
+      return () => {
+        ipcRenderer.removeListener(TRPC_SUBSCRIPTION_EVENT_IPC_EVENT, listener);
+        ipcRenderer.send('trpc-subscription:stop', id);
+      };
+    },
     system: {
       onThemeChange: (callback: (isDark: boolean) => void) => {
         const listener = (_event: Electron.IpcRendererEvent, isDark: boolean) => callback(isDark);
@@ -7,6 +7,15 @@ export const createIpcLink = (): TRPCLink<AppRouter> => {
   return () => {
     return ({ op }) =>
       observable((observer) => {
+        if (op.type === 'subscription') {
+          observer.next({ result: { type: 'started' } });
+          return window.api.subscribeTrpc(op.path, op.input, {
+            onData: (data) => observer.next({ result: { type: 'data', data } }),
+            onError: (message) => observer.error(new TRPCClientError<AppRouter>(message)),
+            onComplete: () => observer.complete()
+          });
+        }
+
         window.api
           .invokeTrpc(op.path, op.input)
           .then((data: unknown) => {
@@ -13,6 +13,7 @@ import { formatDocument } from '../lib/codemirror/derivation-format';
 import { trpc } from '../utils';
 import { UserDerivation } from '@core/db/derivationsService';
 import { useTheme } from '../hooks/use-theme';
+import { setConfigModels, setLocalModels, type ConfigModelEntry } from '@lang-data/models.js';
 
 const formatKeymap = keymap.of([
   { key: 'Shift-Alt-f', run: formatDocument },
@@ -83,7 +84,10 @@ const basicSetupConfig = {
   lintKeymap: true
 };
 
-const useManageExtensions = (derivations: UserDerivation[]) => {
+const useManageExtensions = (
+  derivations: UserDerivation[],
+  configuredModels: { models: ConfigModelEntry[]; localModels: Record<string, string> } | undefined
+) => {
   const editorViewRef = useRef<EditorView | null>(null);
 
   const derivationsData = useMemo<DerivationForAutocomplete[]>(() => {
@@ -94,11 +98,13 @@ const useManageExtensions = (derivations: UserDerivation[]) => {
     }));
   }, [derivations]);
 
-  // Create both linter and autocomplete extensions together
-  const derivationsExtensions = useMemo(
-    () => [createDerivationLinter(derivationsData), createDerivationAutocomplete(derivationsData)],
-    [derivationsData]
-  );
+  // Create both linter and autocomplete extensions together, once the config
+  // models they validate and suggest are known
+  const derivationsExtensions = useMemo(() => {
+    setConfigModels(configuredModels?.models ?? []);
+    setLocalModels(configuredModels?.localModels ?? {});
+    return [createDerivationLinter(derivationsData), createDerivationAutocomplete(derivationsData)];
+  }, [derivationsData, configuredModels]);
 
   // Combine base extensions with update listener
   const extensions = useMemo<Extension[]>(
@@ -140,10 +146,11 @@ export const DerivationCodeMirror = ({
   autoFocus
 }: DerivationCodeMirrorProps) => {
   const derivationsQuery = trpc.getAllDerivations.useQuery();
+  const configuredModelsQuery = trpc.config.models.get.useQuery();
   const { resolvedTheme } = useTheme();
   const focusLatchRef = useRef<EditorView | null>(null);
 
-  const extensions = useManageExtensions(derivationsQuery.data ?? []);
+  const extensions = useManageExtensions(derivationsQuery.data ?? [], configuredModelsQuery.data);
 
   // Capture editor view for focusing
   const extensionsWithFocus = useMemo<Extension[]>(
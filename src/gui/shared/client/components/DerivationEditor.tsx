@@ -4,6 +4,7 @@ import { isNil } from 'lodash-es';
 import { DerivationCodeMirror } from './DerivationCodeMirror';
 import { trpc } from '../utils';
 import { Streamdown } from 'streamdown';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
 
 interface DerivationEditorProps {
   selectedDerivationId: string | null;
@@ -22,24 +23,101 @@ export const DerivationEditor = ({
 
   const createMutation = trpc.createDerivation.useMutation();
   const updateMutation = trpc.updateDerivation.useMutation();
-  const readQuery = trpc.readDerivation.useQuery(
+  const utils = trpc.useUtils();
+  const [output, setOutput] = useState<string | null>(null);
+
+  // reads over a spending cap wait until the user confirms them
+  const estimateQuery = trpc.estimateRead.useQuery(
     { derivationId: selectedDerivationId ?? '' },
+    { enabled: !isNil(selectedDerivationId) }
+  );
+  const [overBudgetConfirmed, setOverBudgetConfirmed] = useState(false);
+  const isBlockedByBudget =
+    estimateQuery.data?.budget.withinBudget === false && !overBudgetConfirmed;
+
+  const readSubscription = trpc.streamDerivation.useSubscription(
+    { derivationId: selectedDerivationId ?? '', confirmOverBudget: overBudgetConfirmed },
     {
-      enabled: !isNil(selectedDerivationId),
-      // disable caching/retries for immediate error responses since relying on
-      // sqlite anyways
-      //
-      // TODO return error type instead
-      retry: false,
-      gcTime: 0,
-      staleTime: 0
+      enabled:
+        !isNil(selectedDerivationId) &&
+        // a failed estimate should not block the read, which reports its own error
+        (estimateQuery.isSuccess || estimateQuery.isError) &&
+        !isBlockedByBudget,
+      onStarted: () => setOutput(null),
+      onData: (event) => {
+        if (event.type === 'chunk') {
+          setOutput((previous) => (previous ?? '') + event.text);
+        } else {
+          setOutput(event.output);
+        }
+      },
+      // reads record and resolve failures, so keep the sidebar badges current
+      onComplete: () => {
+        utils.getFailedDerivations.invalidate();
+        utils.getDerivationStatuses.invalidate();
+        utils.getVariants.invalidate({ derivationId: selectedDerivationId ?? '' });
+        utils.estimateRead.invalidate({ derivationId: selectedDerivationId ?? '' });
+      },
+      onError: () => {
+        utils.getFailedDerivations.invalidate();
+        utils.getDerivationStatuses.invalidate();
+      }
     }
   );
 
+  const variantsQuery = trpc.getVariants.useQuery(
+    { derivationId: selectedDerivationId ?? '' },
+    { enabled: !isNil(selectedDerivationId) }
+  );
+  const pinVariantMutation = trpc.pinVariant.useMutation();
+  // null shows the variant currently served for the formula
+  const [viewedVariantNumber, setViewedVariantNumber] = useState<number | null>(null);
+
+  const variants = variantsQuery.data ?? [];
+  const viewedVariant = variants.find((v) => v.variantNumber === viewedVariantNumber);
+  const viewedIndex = variants.findIndex((v) =>
+    isNil(viewedVariant) ? v.isSelected : v === viewedVariant
+  );
+  const displayedOutput = viewedVariant?.output ?? output;
+
+  // re-read the formula when a file it depends on changes
+  trpc.onStaleFormulas.useSubscription(undefined, {
+    onData: async (event) => {
+      if (isNil(selectedDerivationId) || !event.derivationIds.includes(selectedDerivationId)) {
+        return;
+      }
+      setViewedVariantNumber(null);
+      await utils.getVariants.invalidate({ derivationId: selectedDerivationId });
+      await utils.estimateRead.invalidate({ derivationId: selectedDerivationId });
+      readSubscription.reset();
+    }
+  });
+
+  const handlePinVariant = async () => {
+    if (isNil(selectedDerivationId) || isNil(viewedVariant)) {
+      return;
+    }
+
+    try {
+      await pinVariantMutation.mutateAsync({
+        derivationId: selectedDerivationId,
+        variantNumber: viewedVariant.variantNumber
+      });
+      await utils.getVariants.invalidate({ derivationId: selectedDerivationId });
+      setViewedVariantNumber(null);
+      readSubscription.reset();
+    } catch {
+      // TODO error handling
+    }
+  };
+
   const mode = !isNil(selectedDerivationId) ? 'update' : 'create';
   const dispatchMutation = mode === 'create' ? createMutation : updateMutation;
 
-  const isCalculating = dispatchMutation.isPending || readQuery.isFetching;
+  const isCalculating =
+    dispatchMutation.isPending ||
+    readSubscription.status === 'connecting' ||
+    readSubscription.status === 'pending';
 
   const isInexecutable = !expression.trim() || isCalculating;
 
@@ -55,7 +133,11 @@ export const DerivationEditor = ({
           expression
         });
         await onDerivationUpdated(selectedDerivationId, expression);
-        await readQuery.refetch();
+        setViewedVariantNumber(null);
+        setOverBudgetConfirmed(false);
+        // estimate the updated formula before it is read again
+        await utils.estimateRead.invalidate({ derivationId: selectedDerivationId });
+        readSubscription.reset();
       } else {
         const derivationId = await createMutation.mutateAsync({ expression });
         await onDerivationCreated(derivationId);
@@ -96,20 +178,85 @@ export const DerivationEditor = ({
 
       {mode === 'update' && (
         <div className="space-y-2">
-          {isCalculating && <div className="text-sm text-gray-500">Loading output...</div>}
+          {estimateQuery.data && estimateQuery.data.estimate.llmCalls.length > 0 && (
+            <div className="text-muted-foreground text-sm">
+              Estimate: {estimateQuery.data.estimate.llmCalls.length} LLM calls, ~
+              {estimateQuery.data.estimate.promptTokens} input tokens, $
+              {estimateQuery.data.estimate.cost.toFixed(4)}
+              {estimateQuery.data.estimate.unpricedCalls > 0 &&
+                ` (+${estimateQuery.data.estimate.unpricedCalls} unpriced)`}
+            </div>
+          )}
 
-          {readQuery.error && (
+          {isBlockedByBudget && estimateQuery.data?.budget.withinBudget === false && (
+            <div className="rounded border border-amber-200 bg-amber-50 p-3">
+              <div className="text-sm font-medium text-amber-800">Spending cap exceeded:</div>
+              {estimateQuery.data.budget.exceeded.map(({ cap, message }) => (
+                <div key={cap} className="text-sm text-amber-700">
+                  {message}
+                </div>
+              ))}
+              <Button
+                className="mt-2"
+                variant="outline"
+                size="sm"
+                onClick={() => setOverBudgetConfirmed(true)}
+              >
+                Run anyway
+              </Button>
+            </div>
+          )}
+
+          {isCalculating && isNil(output) && <div className="text-sm text-gray-500">Loading output...</div>}
+
+          {readSubscription.error && (
             <div className="rounded border border-red-200 bg-red-50 p-3">
               <div className="text-sm font-medium text-red-800">Read Error:</div>
               <div className="text-sm whitespace-pre-wrap text-red-700">
-                {readQuery.error.message}
+                {readSubscription.error.message}
               </div>
             </div>
           )}
 
-          {readQuery.data && (
+          {variants.length > 1 && viewedIndex >= 0 && (
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Previous variant"
+                disabled={viewedIndex === 0}
+                onClick={() => setViewedVariantNumber(variants[viewedIndex - 1]!.variantNumber)}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-muted-foreground text-sm">
+                Variant {variants[viewedIndex]!.variantNumber} of {variants.length}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Next variant"
+                disabled={viewedIndex === variants.length - 1}
+                onClick={() => setViewedVariantNumber(variants[viewedIndex + 1]!.variantNumber)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              {viewedVariant && !viewedVariant.isSelected && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handlePinVariant}
+                  disabled={pinVariantMutation.isPending}
+                >
+                  Use this variant
+                </Button>
+              )}
+            </div>
+          )}
+
+          {displayedOutput && (
             <div className="rounded border p-3">
-              <Streamdown>{readQuery.data}</Streamdown>
+              <Streamdown>{displayedOutput}</Streamdown>
             </div>
           )}
         </div>
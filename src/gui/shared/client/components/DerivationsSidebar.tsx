@@ -5,13 +5,15 @@ import {
   SidebarMenu,
   SidebarMenuItem,
   SidebarMenuButton,
+  SidebarMenuBadge,
   SidebarMenuSkeleton,
   SidebarGroup,
   SidebarGroupContent
 } from './ui/sidebar';
 import { Button } from './ui/button';
-import { Plus, FileText } from 'lucide-react';
+import { Plus, FileText, CircleAlert, CircleDashed, RefreshCw } from 'lucide-react';
 import type { UserDerivation } from '@core/db/derivationsService';
+import type { DerivationStatus } from '@core/derivationEngine/index.js';
 import { trpc } from '../utils';
 
 interface DerivationsSidebarProps {
@@ -24,6 +26,18 @@ export const DerivationsSidebar = ({
   onDerivationSelect
 }: DerivationsSidebarProps) => {
   const derivationsQuery = trpc.getAllDerivations.useQuery();
+  const failedDerivationsQuery = trpc.getFailedDerivations.useQuery();
+  const statusesQuery = trpc.getDerivationStatuses.useQuery();
+  const utils = trpc.useUtils();
+
+  // edits in the watched directory make formulas stale
+  trpc.onStaleFormulas.useSubscription(undefined, {
+    onData: () => utils.getDerivationStatuses.invalidate()
+  });
+
+  const failureMessages = new Map(
+    failedDerivationsQuery.data?.map((failure) => [failure.derivationId, failure.message])
+  );
 
   const formatDerivationName = (derivation: UserDerivation) => {
     if (derivation.label) {
@@ -104,6 +118,18 @@ export const DerivationsSidebar = ({
                         </span>
                       </div>
                     </SidebarMenuButton>
+                    {failureMessages.has(derivation.derivation_id) ? (
+                      <SidebarMenuBadge
+                        className="pointer-events-auto text-red-600"
+                        title={failureMessages.get(derivation.derivation_id)}
+                      >
+                        <CircleAlert className="h-4 w-4" />
+                      </SidebarMenuBadge>
+                    ) : (
+                      <DerivationStatusBadge
+                        status={statusesQuery.data?.[derivation.derivation_id]}
+                      />
+                    )}
                   </SidebarMenuItem>
                 ))}
             </SidebarMenu>
@@ -113,3 +139,42 @@ export const DerivationsSidebar = ({
     </Sidebar>
   );
 };
+
+const formatStaleTitle = (status: Extract<DerivationStatus, { status: 'stale' }>) => {
+  const changed = status.changed.map((upstream) =>
+    upstream.type === 'formula' ? `$${upstream.derivationId}` : upstream.path
+  );
+  return changed.length === 0 ? 'Stale' : `Stale, changed: ${changed.join(', ')}`;
+};
+
+// whether the formula's cached output is current; failures show the failure badge instead
+const DerivationStatusBadge = ({ status }: { status: DerivationStatus | undefined }) => {
+  switch (status?.status) {
+    case 'stale':
+      return (
+        <SidebarMenuBadge
+          className="pointer-events-auto text-amber-600"
+          title={formatStaleTitle(status)}
+        >
+          <RefreshCw className="h-4 w-4" />
+        </SidebarMenuBadge>
+      );
+    case 'never-computed':
+      return (
+        <SidebarMenuBadge
+          className="text-muted-foreground pointer-events-auto"
+          title="Not read yet"
+        >
+          <CircleDashed className="h-4 w-4" />
+        </SidebarMenuBadge>
+      );
+    case 'error':
+      return (
+        <SidebarMenuBadge className="pointer-events-auto text-red-600" title={status.message}>
+          <CircleAlert className="h-4 w-4" />
+        </SidebarMenuBadge>
+      );
+    default:
+      return null;
+  }
+};
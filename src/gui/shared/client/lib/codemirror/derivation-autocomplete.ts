@@ -5,7 +5,7 @@ import {
   Completion,
   snippet
 } from '@codemirror/autocomplete';
-import { llmModels, getAlias } from '@lang-data/models.js';
+import { getLlmModels } from '@lang-data/models.js';
 import { operations as operationConfigs, type OperationName } from '@lang-data/operations.js';
 import { derivationIdCharClass, derivationPrefix } from '@lang-data/tokens';
 import { map } from 'lodash-es';
@@ -27,41 +27,210 @@ const operations: (Completion & { label: OperationName })[] = map([...operationC
   apply: snippet(op.snippet)
 }));
 
-const operationsAfterPipe: (Completion & { label: OperationName })[] = map(
-  [...operationConfigs],
-  (op) => ({
-    label: op.name,
-    type: 'function',
-    detail: op.detail,
-    info: op.info,
-    apply: snippet(op.snippetAfterPipe)
-  })
+const operationsAfterPipe: (Completion & { label: OperationName })[] = operationConfigs.flatMap(
+  (op) =>
+    'snippetAfterPipe' in op
+      ? [
+          {
+            label: op.name,
+            type: 'function',
+            detail: op.detail,
+            info: op.info,
+            apply: snippet(op.snippetAfterPipe)
+          }
+        ]
+      : []
 );
 
-const llmModelCompletions: Completion[] = llmModels.map((model) => ({
-  label: getAlias(model),
-  detail: model.name,
-  type: 'constant' as const,
-  apply: getAlias(model)
-}));
+// built per request, since local models are declared at runtime
+const getLlmModelCompletions = (): Completion[] =>
+  getLlmModels().map((model) => ({
+    label: model.alias,
+    detail: model.name,
+    type: 'constant' as const,
+    apply: model.alias
+  }));
+
+const modelKeywordArg: Completion = {
+  label: 'model',
+  type: 'property',
+  detail: 'LlmModel',
+  info: 'The LLM model to use',
+  // FIXME pick first alias dynamically
+  apply: 'model="openai/gpt-5"'
+};
+
+const overflowKeywordArg: Completion = {
+  label: 'overflow',
+  type: 'property',
+  detail: 'string',
+  info: 'What to do with input beyond the context window: truncate-head (default) drops its start, truncate-tail its end, error fails the read and map-reduce summarizes it in chunks',
+  apply: 'overflow="truncate-head"'
+};
+
+const samplingKeywordArgs: Completion[] = [
+  {
+    label: 'temperature',
+    type: 'property',
+    detail: 'number',
+    info: 'Sampling temperature; lower is more deterministic',
+    apply: 'temperature=0'
+  },
+  {
+    label: 'maxTokens',
+    type: 'property',
+    detail: 'number',
+    info: 'The most tokens the model may generate',
+    apply: 'maxTokens=1000'
+  },
+  {
+    label: 'topP',
+    type: 'property',
+    detail: 'number',
+    info: 'Nucleus sampling: only sample from the most likely tokens making up this probability',
+    apply: 'topP=1'
+  },
+  {
+    label: 'seed',
+    type: 'property',
+    detail: 'number',
+    info: 'Seed for models that support reproducible sampling',
+    apply: 'seed=1'
+  },
+  {
+    label: 'stop',
+    type: 'property',
+    detail: 'string',
+    info: 'Text that ends generation; repeat for more stop sequences',
+    apply: 'stop=""'
+  }
+];
+
+const llmKeywordArgs: Completion[] = [
+  {
+    label: 'prompt',
+    type: 'property',
+    detail: 'string',
+    info: 'The prompt to use for the LLM transformation',
+    // Don't use snippet fields inside quotes - just insert template
+    apply: 'prompt=""'
+  },
+  modelKeywordArg,
+  overflowKeywordArg,
+  ...samplingKeywordArgs
+];
 
 const keywordArgs: Record<string, Completion[]> = {
-  llm: [
+  param: [
+    {
+      label: 'default',
+      type: 'property',
+      detail: 'string',
+      info: 'The value used when no reference binds the parameter',
+      apply: 'default=""'
+    }
+  ],
+  replace: [
     {
-      label: 'prompt',
+      label: 'pattern',
       type: 'property',
       detail: 'string',
-      info: 'The prompt to use for the LLM transformation',
-      // Don't use snippet fields inside quotes - just insert template
-      apply: 'prompt=""'
+      info: 'The regular expression to replace every match of',
+      apply: 'pattern=""'
     },
     {
-      label: 'model',
+      label: 'with',
+      type: 'property',
+      detail: 'string',
+      info: 'The replacement; $1, $2, ... refer to groups',
+      apply: 'with=""'
+    }
+  ],
+  extract: [
+    {
+      label: 'regex',
+      type: 'property',
+      detail: 'string',
+      info: 'The regular expression to match',
+      apply: 'regex=""'
+    },
+    {
+      label: 'group',
+      type: 'property',
+      detail: 'number',
+      info: 'The capture group to return (0, the default, is the whole match)',
+      apply: 'group=1'
+    }
+  ],
+  lines: [
+    {
+      label: 'from',
+      type: 'property',
+      detail: 'number',
+      info: 'The first line, counting from 1 (negative counts back from the end)',
+      apply: 'from=1'
+    },
+    {
+      label: 'to',
+      type: 'property',
+      detail: 'number',
+      info: 'The last line, included (negative counts back from the end)',
+      apply: 'to=-1'
+    }
+  ],
+  llm: llmKeywordArgs,
+  llmJson: [
+    ...llmKeywordArgs,
+    {
+      label: 'schema',
+      type: 'property',
+      detail: 'string | formula',
+      info: 'The JSON Schema the output must match',
+      apply: 'schema='
+    }
+  ],
+  chat: [
+    {
+      label: 'system',
+      type: 'property',
+      detail: 'string',
+      info: 'The system prompt',
+      apply: 'system=""'
+    },
+    {
+      label: 'user',
+      type: 'property',
+      detail: 'string | formula',
+      info: 'A user message; repeat for each turn',
+      apply: 'user='
+    },
+    {
+      label: 'assistant',
+      type: 'property',
+      detail: 'string | formula',
+      info: 'A reply from the model; repeat for each turn',
+      apply: 'assistant='
+    },
+    modelKeywordArg,
+    overflowKeywordArg,
+    ...samplingKeywordArgs
+  ],
+  json: [
+    {
+      label: 'path',
+      type: 'property',
+      detail: 'string',
+      info: 'The JSONPath of the value to return, e.g. $.items[0].title',
+      apply: 'path="$"'
+    }
+  ],
+  switch: [
+    {
+      label: 'default',
       type: 'property',
-      detail: 'LlmModel',
-      info: 'The LLM model to use',
-      // FIXME pick first alias dynamically
-      apply: 'model="openai/gpt-5"'
+      detail: 'string | formula',
+      info: 'The input read when no case matches the value',
+      apply: 'default='
     }
   ]
 };
@@ -112,7 +281,7 @@ function createDerivationCompletions(derivations: DerivationForAutocomplete[]) {
     if (afterModelParam) {
       return {
         from: word.from,
-        options: llmModelCompletions,
+        options: getLlmModelCompletions(),
         validFor: /^[\w".-]*/
       };
     }
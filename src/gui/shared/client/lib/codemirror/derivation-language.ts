@@ -53,6 +53,10 @@ const derivationLanguage = StreamLanguage.define({
       return 'literal';
     }
 
+    if (stream.match(tokenPatterns.numberLiteral)) {
+      return 'number';
+    }
+
     if (stream.match(tokenPatterns.pathLiteral)) {
       return 'literal';
     }
@@ -85,6 +89,7 @@ const derivationLanguage = StreamLanguage.define({
 const derivationHighlightStyle = HighlightStyle.define([
   { tag: tags.string, color: '#22863a', fontStyle: 'italic' }, // Green for strings
   { tag: tags.literal, color: '#005cc5' }, // Blue for hash/path literals
+  { tag: tags.number, color: '#005cc5' }, // Blue for numbers
   { tag: tags.atom, color: '#d97706' }, // Orange for cell references
   { tag: tags.operator, color: '#0891b2', fontWeight: 'bold' }, // Teal/cyan for pipe operator (suggests flow)
   { tag: tags.punctuation, color: '#6f42c1' }, // Purple for parens, commas, equals
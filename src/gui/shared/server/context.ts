@@ -0,0 +1,11 @@
+import { getConfig } from '@core/config.js';
+import { createAppDal } from '@core/db/app_dal.js';
+import { createRateLimiter } from '@core/limiting';
+import type { TRPCContext } from './trpc';
+
+export async function createAppContext(): Promise<TRPCContext> {
+  const config = await getConfig();
+  const appDal = await createAppDal(config.databasePath);
+  const rateLimiter = await createRateLimiter(config);
+  return { appDal, rateLimiter, config };
+}
@@ -0,0 +1,11 @@
+import { EventEmitter } from 'events';
+import type { StaleFormulasEvent } from '@core/watcher.js';
+import type { ConfigType } from '@config/types.js';
+
+/**
+ * Events raised outside of any request, e.g. by the file watcher, for
+ * subscriptions to relay to clients, and by requests for the host app to act on.
+ */
+type ServerEvents = { staleFormulas: [StaleFormulasEvent]; configUpdated: [ConfigType] };
+
+export const serverEvents = new EventEmitter<ServerEvents>();
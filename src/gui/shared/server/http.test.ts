@@ -0,0 +1,94 @@
+import { describe, it, beforeEach, afterEach, expect } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { createMockAppDal } from '@core/db/app_dal.js';
+import { createMockQueue } from '@core/limiting/rateLimitQueue.js';
+import { createMockRateLimitManager } from '@core/limiting/modelRateLimitManager.js';
+import type { EmbeddingInputData, EmbeddingOutput } from '@core/types.js';
+import { createHttpServer } from './http';
+
+describe('HTTP server', () => {
+  const token = 'secret';
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    const appDal = await createMockAppDal();
+    const rateLimiter = createMockRateLimitManager(
+      createMockQueue<EmbeddingInputData, EmbeddingOutput>(async () => ({
+        embedding: 'test',
+        usage: { promptTokens: 1 },
+        modelName: 'test'
+      }))
+    );
+    server = createHttpServer({
+      context: {
+        appDal,
+        rateLimiter,
+        config: {
+          openaiApiKey: 'test',
+          openRouterApiKey: 'test',
+          databasePath: 'test',
+          embeddingRpmLimit: 1000,
+          skipEmbedding: false,
+          debug: false,
+          theme: 'system' as const
+        }
+      },
+      token,
+      allowedOrigins: ['http://localhost:5173']
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const authorized = { Authorization: `Bearer ${token}` };
+
+  it('should refuse requests without the token', async () => {
+    expect((await fetch(`${baseUrl}/formulas`)).status).toBe(401);
+    expect(
+      (await fetch(`${baseUrl}/formulas`, { headers: { Authorization: 'Bearer wrong' } })).status
+    ).toBe(401);
+    expect((await fetch(`${baseUrl}/trpc/getAllDerivations`)).status).toBe(401);
+
+    const response = await fetch(`${baseUrl}/formulas`, { headers: authorized });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual([]);
+  });
+
+  it('should only take the token as a query param for subscriptions', async () => {
+    expect((await fetch(`${baseUrl}/formulas?access_token=${token}`)).status).toBe(401);
+    expect((await fetch(`${baseUrl}/trpc/getAllDerivations?access_token=${token}`)).status).toBe(
+      401
+    );
+
+    // the event stream stays open, so stop once it has answered
+    const abortController = new AbortController();
+    const response = await fetch(`${baseUrl}/trpc/onStaleFormulas?access_token=${token}`, {
+      signal: abortController.signal
+    });
+    expect(response.status).toBe(200);
+    abortController.abort();
+  });
+
+  it('should refuse requests from other origins', async () => {
+    const fromOrigin = (origin: string, init?: RequestInit) =>
+      fetch(`${baseUrl}/formulas`, { ...init, headers: { ...authorized, Origin: origin } });
+
+    const refused = await fromOrigin('http://evil.example');
+    expect(refused.status).toBe(403);
+    expect(refused.headers.get('access-control-allow-origin')).toBeNull();
+    expect((await fromOrigin('http://evil.example', { method: 'OPTIONS' })).status).toBe(403);
+
+    for (const origin of [baseUrl, 'http://localhost:5173']) {
+      const allowed = await fromOrigin(origin);
+      expect(allowed.status).toBe(200);
+      expect(allowed.headers.get('access-control-allow-origin')).toBe(origin);
+    }
+  });
+});
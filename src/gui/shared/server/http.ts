@@ -0,0 +1,293 @@
+import http from 'http';
+import path from 'path';
+import { readFile } from 'fs/promises';
+import { timingSafeEqual } from 'crypto';
+import { isNil } from 'lodash-es';
+import { z } from 'zod/v4';
+import type { AnyProcedure } from '@trpc/server';
+import { createHTTPHandler } from '@trpc/server/adapters/standalone';
+import { createDerivation, getOrComputeDerivedContent } from '@core/derivationEngine/index.js';
+import { parseDerivationExpression, formatParseError } from '@core/lang/index.js';
+import { appRouter } from './index';
+import type { TRPCContext } from './trpc';
+
+/**
+ * Serves the app router over HTTP under /trpc/ (subscriptions as server-sent
+ * events), alongside a small REST API for scripts:
+ *
+ *   GET  /formulas             every formula
+ *   GET  /formulas/:id/output  reads a formula; ?reroll=true skips the cache and
+ *                              ?confirm=true reads past the spending caps
+ *   POST /formulas             creates a formula from { expression, label? }
+ *
+ * Other GET requests are served from `staticDirectory` when given (the web
+ * client), falling back to its index.html. Static files need no token.
+ *
+ * Browsers may only call in from the server's own origin or `allowedOrigins`;
+ * requests from any other origin are refused.
+ *
+ * Every request shares one context, so the whole server uses one database
+ * connection and rate limiter.
+ */
+
+export type HttpServerOptions = {
+  context: TRPCContext;
+  // requests must send `Authorization: Bearer <token>`
+  token: string;
+  // origins besides the server's own that browsers may call from
+  allowedOrigins?: string[];
+  staticDirectory?: string;
+};
+
+const trpcBasePath = '/trpc/';
+const maxBodyBytes = 1_000_000;
+
+const contentTypes: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.json': 'application/json',
+  '.woff2': 'font/woff2'
+};
+
+const CreateFormulaBodySchema = z.object({
+  expression: z.string().min(1),
+  label: z.string().nullable().optional()
+});
+
+const _sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const _matches = (received: string, expected: string) => {
+  const receivedBytes = Buffer.from(received);
+  const expectedBytes = Buffer.from(expected);
+  return (
+    receivedBytes.length === expectedBytes.length && timingSafeEqual(receivedBytes, expectedBytes)
+  );
+};
+
+// procedures are flattened by path at runtime, though typed as nested routers
+const subscriptionPaths = new Set(
+  Object.entries(appRouter._def.procedures as unknown as Record<string, AnyProcedure>)
+    .filter(([, procedure]) => procedure._def.type === 'subscription')
+    .map(([procedurePath]) => `${trpcBasePath}${procedurePath}`)
+);
+
+// EventSource can't set headers, so subscriptions may pass ?access_token= instead
+const _isAuthorized = (req: http.IncomingMessage, url: URL, token: string) => {
+  const queryToken = subscriptionPaths.has(url.pathname)
+    ? url.searchParams.get('access_token')
+    : null;
+  return (
+    _matches(req.headers.authorization ?? '', `Bearer ${token}`) ||
+    (!isNil(queryToken) && _matches(queryToken, token))
+  );
+};
+
+const _isAllowedOrigin = (req: http.IncomingMessage, origin: string, allowedOrigins: string[]) => {
+  if (allowedOrigins.includes(origin)) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+};
+
+const _readJsonBody = async (
+  req: http.IncomingMessage
+): Promise<{ success: true; body: unknown } | { success: false; error: string }> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBodyBytes) return { success: false, error: 'Request body is too large' };
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return { success: true, body: JSON.parse(Buffer.concat(chunks).toString('utf8')) };
+  } catch {
+    return { success: false, error: 'Request body must be JSON' };
+  }
+};
+
+const _listFormulas = (ctx: TRPCContext, res: http.ServerResponse) => {
+  const formulas = ctx.appDal.derivations.getAllDerivations().map((derivation) => ({
+    id: derivation.derivation_id,
+    label: derivation.label,
+    expression: derivation.dsl_expression,
+    createdAt: derivation.created_at
+  }));
+  _sendJson(res, 200, formulas);
+};
+
+const _readFormulaOutput = async (
+  ctx: TRPCContext,
+  res: http.ServerResponse,
+  derivationId: string,
+  searchParams: URLSearchParams
+) => {
+  if (isNil(ctx.appDal.derivations.findDerivationById(derivationId))) {
+    _sendJson(res, 404, { error: `Formula ${derivationId} not found` });
+    return;
+  }
+  const result = await getOrComputeDerivedContent(
+    ctx.appDal,
+    derivationId,
+    ctx.rateLimiter,
+    ctx.config,
+    {
+      skipCache: searchParams.get('reroll') === 'true',
+      confirmOverBudget: searchParams.get('confirm') === 'true'
+    }
+  );
+  if (!result.success && result.error.kind === 'over_budget') {
+    _sendJson(res, 402, {
+      error: `${result.error.message} Retry with ?confirm=true to read anyway.`,
+      kind: result.error.kind
+    });
+    return;
+  }
+  if (!result.success) {
+    _sendJson(res, 422, { error: result.error.message, kind: result.error.kind });
+    return;
+  }
+  _sendJson(res, 200, { id: derivationId, output: result.output });
+};
+
+const _createFormula = async (
+  ctx: TRPCContext,
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+) => {
+  const bodyResult = await _readJsonBody(req);
+  if (!bodyResult.success) {
+    _sendJson(res, 400, { error: bodyResult.error });
+    return;
+  }
+  const body = CreateFormulaBodySchema.safeParse(bodyResult.body);
+  if (!body.success) {
+    _sendJson(res, 400, { error: 'Expected { expression: string, label?: string }' });
+    return;
+  }
+
+  const parsed = parseDerivationExpression(body.data.expression);
+  if (!parsed.success) {
+    _sendJson(res, 400, { error: parsed.errors.map(formatParseError).join('\n') });
+    return;
+  }
+  const derivationId = createDerivation(
+    ctx.appDal,
+    { recipeParams: parsed.params, label: body.data.label ?? null },
+    body.data.expression
+  );
+  _sendJson(res, 201, { id: derivationId });
+};
+
+const _readStaticFile = async (directory: string, pathname: string) => {
+  const filePath = path.resolve(directory, `.${decodeURIComponent(pathname)}`);
+  if (path.relative(directory, filePath).startsWith('..')) return undefined;
+  try {
+    return { filePath, content: await readFile(filePath) };
+  } catch {
+    return undefined;
+  }
+};
+
+const _serveStatic = async (directory: string, res: http.ServerResponse, url: URL) => {
+  // paths without a file of their own are the client's, so get its index.html
+  const file =
+    (url.pathname === '/' ? undefined : await _readStaticFile(directory, url.pathname)) ??
+    (await _readStaticFile(directory, '/index.html'));
+  if (isNil(file)) {
+    _sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+  res.writeHead(200, {
+    'Content-Type': contentTypes[path.extname(file.filePath)] ?? 'application/octet-stream'
+  });
+  res.end(file.content);
+};
+
+/** Handles a REST request, returning false when no route matches */
+const _handleRest = async (
+  ctx: TRPCContext,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  url: URL
+): Promise<boolean> => {
+  const segments = url.pathname.split('/').filter((segment) => segment !== '');
+  if (segments[0] !== 'formulas') return false;
+
+  if (segments.length === 1 && req.method === 'GET') {
+    _listFormulas(ctx, res);
+  } else if (segments.length === 1 && req.method === 'POST') {
+    await _createFormula(ctx, req, res);
+  } else if (segments.length === 3 && segments[2] === 'output' && req.method === 'GET') {
+    await _readFormulaOutput(ctx, res, decodeURIComponent(segments[1]!), url.searchParams);
+  } else {
+    return false;
+  }
+  return true;
+};
+
+export function createHttpServer(opts: HttpServerOptions): http.Server {
+  const trpcHandler = createHTTPHandler({
+    router: appRouter,
+    createContext: () => opts.context,
+    basePath: trpcBasePath
+  });
+
+  return http.createServer((req, res) => {
+    // browsers send Origin on requests from other origins (and some from their own)
+    const origin = req.headers.origin;
+    if (!isNil(origin)) {
+      if (!_isAllowedOrigin(req, origin, opts.allowedOrigins ?? [])) {
+        _sendJson(res, 403, { error: `Requests from ${origin} are not allowed` });
+        return;
+      }
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      res.setHeader('Vary', 'Origin');
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const isApi = url.pathname.startsWith(trpcBasePath) || url.pathname.startsWith('/formulas');
+    if (!isApi && req.method === 'GET' && !isNil(opts.staticDirectory)) {
+      _serveStatic(path.resolve(opts.staticDirectory), res, url).catch(() => {
+        if (!res.headersSent) _sendJson(res, 500, { error: 'Failed to read the web client' });
+      });
+      return;
+    }
+
+    if (!_isAuthorized(req, url, opts.token)) {
+      _sendJson(res, 401, { error: 'Missing or invalid bearer token' });
+      return;
+    }
+
+    if (url.pathname.startsWith(trpcBasePath)) {
+      trpcHandler(req, res);
+      return;
+    }
+
+    _handleRest(opts.context, req, res, url)
+      .then((handled) => {
+        if (!handled) _sendJson(res, 404, { error: 'Not found' });
+      })
+      .catch((error: unknown) => {
+        if (!res.headersSent) {
+          _sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) });
+        }
+      });
+  });
+}
@@ -1,15 +1,24 @@
+import { on } from 'events';
 import { publicProcedure, router } from './trpc';
+import { serverEvents } from './events';
 import { z } from 'zod/v4';
 import {
   createDerivation as coreCreateDerivation,
   updateDerivation as coreUpdateDerivation,
-  getOrComputeDerivedContent
+  getOrComputeDerivedContent,
+  getDerivationVariants,
+  pinDerivationVariant,
+  estimateReadCost,
+  checkReadBudget,
+  getDerivationStatuses
 } from '@core/derivationEngine/index.js';
 import { parseDerivationExpression, formatParseError } from '@core/lang/index.js';
 import type { ExternalDerivationParams } from '@core/db/types.js';
+import type { StaleFormulasEvent } from '@core/watcher.js';
 import { TRPCError } from '@trpc/server';
 import { updateConfig } from '@core/config.js';
-import { themeSchema } from '@config/types.js';
+import { themeSchema, type ConfigType } from '@config/types.js';
+import type { ConfigModelEntry } from '@lang-data/models.js';
 
 export const appRouter = router({
   createDerivation: publicProcedure
@@ -62,13 +71,14 @@ export const appRouter = router({
       return derivationId;
     }),
   readDerivation: publicProcedure
-    .input(z.object({ derivationId: z.string() }))
+    .input(z.object({ derivationId: z.string(), confirmOverBudget: z.boolean().optional() }))
     .query(async ({ ctx, input }) => {
       const result = await getOrComputeDerivedContent(
         ctx.appDal,
         input.derivationId,
         ctx.rateLimiter,
-        ctx.config
+        ctx.config,
+        { confirmOverBudget: input.confirmOverBudget }
       );
 
       if (!result.success) {
@@ -80,24 +90,135 @@ export const appRouter = router({
 
       return result.output;
     }),
+  estimateRead: publicProcedure
+    .input(z.object({ derivationId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const result = await estimateReadCost(ctx.appDal, input.derivationId, {
+        watchedDirectory: ctx.config.watchedDirectory
+      });
+      if (!result.success) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: result.error.message });
+      }
+      return {
+        estimate: result.estimate,
+        budget: checkReadBudget(ctx.appDal, ctx.config, result.estimate)
+      };
+    }),
+  streamDerivation: publicProcedure
+    .input(z.object({ derivationId: z.string(), confirmOverBudget: z.boolean().optional() }))
+    .subscription(async function* ({ ctx, input }) {
+      const chunks: string[] = [];
+      let notify: (() => void) | undefined;
+      const wake = () => {
+        notify?.();
+        notify = undefined;
+      };
+
+      let settled = false;
+      const resultPromise = getOrComputeDerivedContent(
+        ctx.appDal,
+        input.derivationId,
+        ctx.rateLimiter,
+        ctx.config,
+        {
+          confirmOverBudget: input.confirmOverBudget,
+          onChunk: (chunk) => {
+            chunks.push(chunk);
+            wake();
+          }
+        }
+      ).finally(() => {
+        settled = true;
+        wake();
+      });
+
+      while (!settled || chunks.length > 0) {
+        const chunk = chunks.shift();
+        if (chunk !== undefined) {
+          yield { type: 'chunk' as const, text: chunk };
+          continue;
+        }
+        await new Promise<void>((resolve) => {
+          notify = resolve;
+        });
+      }
+
+      const result = await resultPromise;
+      if (!result.success) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Failed to read cell: ${result.error.message}`
+        });
+      }
+
+      yield { type: 'done' as const, output: result.output };
+    }),
+  // formulas made stale by changes in the watched directory, as they happen
+  onStaleFormulas: publicProcedure.subscription(async function* ({ signal }) {
+    for await (const [event] of on(serverEvents, 'staleFormulas', { signal })) {
+      yield event as StaleFormulasEvent;
+    }
+  }),
+  getVariants: publicProcedure
+    .input(z.object({ derivationId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const result = getDerivationVariants(ctx.appDal, input.derivationId);
+      if (!result.success) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: result.error.message });
+      }
+      return result.variants;
+    }),
+  pinVariant: publicProcedure
+    .input(z.object({ derivationId: z.string(), variantNumber: z.number().int().positive() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = pinDerivationVariant(ctx.appDal, input.derivationId, input.variantNumber);
+      if (!result.success) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: result.error.message });
+      }
+      return { success: true };
+    }),
   getAllDerivations: publicProcedure.query(async ({ ctx }) => {
     const derivations = ctx.appDal.derivations.getAllDerivations();
     return derivations;
   }),
+  getFailedDerivations: publicProcedure.query(async ({ ctx }) => {
+    const derivationIds = ctx.appDal.derivations.getDerivationIdsWithUnresolvedFailures();
+    return derivationIds.flatMap((derivationId) => {
+      const [latest] = ctx.appDal.derivations.getRecentStepFailures({ derivationId, limit: 1 });
+      return latest ? [{ derivationId, message: latest.error_message }] : [];
+    });
+  }),
+  // keyed by formula; computed without reading any of them
+  getDerivationStatuses: publicProcedure.query(async ({ ctx }) => {
+    return getDerivationStatuses(ctx.appDal, undefined, {
+      watchedDirectory: ctx.config.watchedDirectory
+    });
+  }),
   config: router({
+    models: router({
+      // declared in config, to add to the built-in models
+      get: publicProcedure.query(async ({ ctx }) => {
+        return {
+          models: (ctx.config.models ?? []) as ConfigModelEntry[],
+          localModels: ctx.config.localLlm?.models ?? {}
+        };
+      })
+    }),
     theme: router({
       get: publicProcedure.query(async ({ ctx }) => {
         return ctx.config.theme;
       }),
       set: publicProcedure.input(themeSchema).mutation(async ({ input }) => {
+        let config: ConfigType;
         try {
-          await updateConfig({ theme: input });
+          config = await updateConfig({ theme: input });
         } catch {
           throw new TRPCError({
             code: 'INTERNAL_SERVER_ERROR',
             message: 'Failed to update config'
           });
         }
+        serverEvents.emit('configUpdated', config);
         return { success: true };
       })
     })
@@ -0,0 +1,11 @@
+import { client } from './trpc';
+import SharedApp from '@shared/client/App';
+import { BrowserThemeDetector } from './lib/browser-detector';
+
+const themeDetector = new BrowserThemeDetector();
+
+function App(): React.JSX.Element {
+  return <SharedApp trpcClient={client} themeDetector={themeDetector} />;
+}
+
+export default App;
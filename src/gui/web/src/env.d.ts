@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // where `slantwise serve` runs; the page's own origin when unset
+  readonly VITE_SLANTWISE_SERVER_URL?: string;
+}
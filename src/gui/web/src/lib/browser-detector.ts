@@ -0,0 +1,14 @@
+import type { SystemThemeDetector } from '@shared/client/lib/theme/types';
+
+/**
+ * Browser implementation of SystemThemeDetector.
+ * Follows the prefers-color-scheme media query, which tracks the OS theme.
+ */
+export class BrowserThemeDetector implements SystemThemeDetector {
+  subscribe(callback: (isDark: boolean) => void): () => void {
+    const query = window.matchMedia('(prefers-color-scheme: dark)');
+    const onChange = (event: MediaQueryListEvent) => callback(event.matches);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }
+}
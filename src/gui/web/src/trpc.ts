@@ -0,0 +1,44 @@
+import {
+  createTRPCProxyClient,
+  httpBatchLink,
+  httpSubscriptionLink,
+  splitLink
+} from '@trpc/client';
+import type { AppRouter } from '@shared/server';
+
+const TOKEN_STORAGE_KEY = 'slantwise-server-token';
+
+// opening the UI with ?token=... remembers the token, and drops it from the address bar
+const getServerToken = (): string | null => {
+  const url = new URL(window.location.href);
+  const token = url.searchParams.get('token');
+  if (token !== null) {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+    url.searchParams.delete('token');
+    window.history.replaceState(null, '', url);
+  }
+  return localStorage.getItem(TOKEN_STORAGE_KEY);
+};
+
+const token = getServerToken();
+const serverUrl = (import.meta.env.VITE_SLANTWISE_SERVER_URL ?? window.location.origin).replace(
+  /\/$/,
+  ''
+);
+const trpcUrl = `${serverUrl}/trpc`;
+
+export const client = createTRPCProxyClient<AppRouter>({
+  links: [
+    splitLink({
+      condition: (op) => op.type === 'subscription',
+      // EventSource can't send headers, so the server also takes the token as a query param
+      true: httpSubscriptionLink({
+        url: token === null ? trpcUrl : `${trpcUrl}?access_token=${encodeURIComponent(token)}`
+      }),
+      false: httpBatchLink({
+        url: trpcUrl,
+        headers: () => (token === null ? {} : { Authorization: `Bearer ${token}` })
+      })
+    })
+  ]
+});
@@ -0,0 +1,27 @@
+import { resolve } from 'path';
+import { fileURLToPath } from 'url';
+import tailwindcss from '@tailwindcss/vite';
+import react from '@vitejs/plugin-react';
+import { defineConfig } from 'vite';
+
+const __dirname = fileURLToPath(new URL('.', import.meta.url));
+const rootDir = resolve(__dirname, '../../..');
+
+// The shared client served from a browser, talking to `slantwise serve` over HTTP
+export default defineConfig({
+  root: __dirname,
+  build: {
+    // served by `slantwise serve` from next to the CLI bundle
+    outDir: resolve(rootDir, 'out/web'),
+    emptyOutDir: true
+  },
+  resolve: {
+    alias: {
+      '@shared': resolve(__dirname, '../shared'),
+      '@': resolve(__dirname, '../shared/client'),
+      '@lang-data': resolve(__dirname, '../../lang-data'),
+      '@config': resolve(__dirname, '../../config')
+    }
+  },
+  plugins: [react(), tailwindcss()]
+});
@@ -1,22 +1,132 @@
-export const llmModels = [
-  { provider: 'openai', modelId: 'gpt-5', name: 'GPT-5' },
-  { provider: 'openai', modelId: 'gpt-o3', name: 'GPT-o3' },
-  { provider: 'openrouter', modelId: 'anthropic/claude-opus-4.5', name: 'Claude Opus 4.5' },
-  { provider: 'openrouter', modelId: 'anthropic/claude-sonnet-4.5', name: 'Claude Sonnet 4.5' },
-  { provider: 'openrouter', modelId: 'anthropic/claude-4.5-haiku-20251001', name: 'Claude Haiku 4.5' },
-  { provider: 'openrouter', modelId: 'anthropic/claude-opus-4.1', name: 'Claude Opus 4.1' },
-  { provider: 'openrouter', modelId: 'google/gemini-3-pro-preview', name: 'Gemini 3 Pro' },
-  { provider: 'openrouter', modelId: 'google/gemini-2.5-flash', name: 'Gemini 2.5 Flash' },
-  { provider: 'openrouter', modelId: 'google/gemini-2.5-pro-preview', name: 'Gemini 2.5 Pro' }
-] as const;
-
-export type LlmModelDef = (typeof llmModels)[number];
-export type ModelProvider = LlmModelDef['provider'];
-
-type AliasOf<T> = T extends { provider: infer P extends string; modelId: infer M extends string }
-  ? `${P}/${M}`
-  : never;
-export type LlmModelAlias = AliasOf<LlmModelDef>;
-
-export const getAlias = <T extends LlmModelDef>(m: T): AliasOf<T> =>
-  `${m.provider}/${m.modelId}` as AliasOf<T>;
+// USD per million tokens
+export type ModelPrice = { inputPerMillion: number; outputPerMillion: number };
+
+export type ModelProvider = 'openai' | 'openrouter' | 'local';
+
+export type ModelAlias = `${string}/${string}`;
+
+export type LlmModelDef = {
+  // how formulas refer to the model, e.g. "openai/gpt-5"
+  alias: ModelAlias;
+  provider: ModelProvider;
+  // the ID the provider knows the model by
+  modelId: string;
+  name: string;
+  // in tokens; inputs are truncated to fit when set
+  contextWindow?: number;
+  pricing?: ModelPrice;
+};
+
+/** A model declared under `models` in config.json */
+export type ConfigModelEntry = {
+  // defaults to "<provider>/<modelId>"
+  alias?: ModelAlias;
+  provider: Exclude<ModelProvider, 'local'>;
+  modelId: string;
+  name?: string;
+  contextWindow?: number;
+  pricing?: ModelPrice;
+};
+
+const builtInModel = (
+  provider: Exclude<ModelProvider, 'local'>,
+  modelId: string,
+  name: string,
+  contextWindow: number,
+  pricing: ModelPrice
+): LlmModelDef => ({
+  alias: `${provider}/${modelId}`,
+  provider,
+  modelId,
+  name,
+  contextWindow,
+  pricing
+});
+
+export const builtInLlmModels: LlmModelDef[] = [
+  builtInModel('openai', 'gpt-5', 'GPT-5', 400_000, {
+    inputPerMillion: 1.25,
+    outputPerMillion: 10
+  }),
+  builtInModel('openai', 'gpt-o3', 'GPT-o3', 200_000, { inputPerMillion: 2, outputPerMillion: 8 }),
+  builtInModel('openrouter', 'anthropic/claude-opus-4.5', 'Claude Opus 4.5', 200_000, {
+    inputPerMillion: 5,
+    outputPerMillion: 25
+  }),
+  builtInModel('openrouter', 'anthropic/claude-sonnet-4.5', 'Claude Sonnet 4.5', 200_000, {
+    inputPerMillion: 3,
+    outputPerMillion: 15
+  }),
+  builtInModel('openrouter', 'anthropic/claude-4.5-haiku-20251001', 'Claude Haiku 4.5', 200_000, {
+    inputPerMillion: 1,
+    outputPerMillion: 5
+  }),
+  builtInModel('openrouter', 'anthropic/claude-opus-4.1', 'Claude Opus 4.1', 200_000, {
+    inputPerMillion: 15,
+    outputPerMillion: 75
+  }),
+  builtInModel('openrouter', 'google/gemini-3-pro-preview', 'Gemini 3 Pro', 1_048_576, {
+    inputPerMillion: 2,
+    outputPerMillion: 12
+  }),
+  builtInModel('openrouter', 'google/gemini-2.5-flash', 'Gemini 2.5 Flash', 1_048_576, {
+    inputPerMillion: 0.3,
+    outputPerMillion: 2.5
+  }),
+  builtInModel('openrouter', 'google/gemini-2.5-pro-preview', 'Gemini 2.5 Pro', 1_048_576, {
+    inputPerMillion: 1.25,
+    outputPerMillion: 10
+  })
+];
+
+export const localModelPrefix = 'local/';
+
+type ConfigModelDef = Partial<LlmModelDef> & Pick<LlmModelDef, 'alias' | 'provider' | 'modelId'>;
+
+let configModels: ConfigModelDef[] = [];
+let localModels: LlmModelDef[] = [];
+
+/**
+ * Declares the models from config.json. An entry with the alias of a built-in
+ * model overrides only the fields it sets, e.g. to correct its pricing.
+ * Replaces any previously declared ones.
+ */
+export const setConfigModels = (entries: ConfigModelEntry[]) => {
+  configModels = entries.map((entry) => ({
+    ...entry,
+    alias: entry.alias ?? `${entry.provider}/${entry.modelId}`
+  }));
+};
+
+/**
+ * Declares the local models, as alias names mapped to the model IDs the
+ * endpoint serves. Replaces any previously declared ones.
+ */
+export const setLocalModels = (models: Record<string, string>) => {
+  localModels = Object.entries(models).map(([name, servedModelId]) => ({
+    alias: `${localModelPrefix}${name}`,
+    provider: 'local',
+    modelId: servedModelId,
+    name: servedModelId,
+    // local models run on the user's own hardware
+    pricing: { inputPerMillion: 0, outputPerMillion: 0 }
+  }));
+};
+
+/** Built-in models (with any config overrides), then the other declared ones */
+export const getLlmModels = (): LlmModelDef[] => {
+  const models = [...builtInLlmModels];
+  for (const model of [...configModels, ...localModels]) {
+    const index = models.findIndex((m) => m.alias === model.alias);
+    if (index === -1) {
+      models.push({ name: model.modelId, ...model });
+    } else if (builtInLlmModels.includes(models[index]!)) {
+      models[index] = { ...models[index]!, ...model };
+    }
+    // otherwise an earlier declaration has the alias
+  }
+  return models;
+};
+
+export const findLlmModel = (alias: string): LlmModelDef | undefined =>
+  getLlmModels().find((m) => m.alias === alias);
@@ -2,7 +2,7 @@ export const operations = [
   {
     name: 'llm',
     detail: 'Apply LLM transformation',
-    info: 'llm(input, prompt="...", model="openai/gpt-5")\n\nApplies a large language model to transform the input using the specified prompt.',
+    info: 'llm(input, prompt="...", model="openai/gpt-5")\n\nApplies a large language model to transform the input using the specified prompt.\n\nOptional sampling arguments: temperature=0.7, maxTokens=500, topP=0.9, seed=1 and stop="..." (repeat for more stop sequences). Each setting is cached separately.\n\nInput beyond the model\'s context window is handled by overflow=: "truncate-head" (the default) drops its start, "truncate-tail" its end, "error" fails the read and "map-reduce" summarizes it chunk by chunk before applying the prompt.',
     snippet: 'llm(${1:input}, prompt="${2:your prompt}", model="${3:openai/gpt-5}")${4}',
     snippetAfterPipe: 'llm(prompt="${1:your prompt}", model="${2:openai/gpt-5}")${3}'
   },
@@ -33,6 +33,133 @@ export const operations = [
     info: 'getUrlContent(url)\n\nFetches the content from the specified URL.',
     snippet: 'getUrlContent(${1:url})${2}',
     snippetAfterPipe: 'getUrlContent()'
+  },
+  {
+    name: 'split',
+    detail: 'Split text into a list',
+    info: 'split(input, separator)\n\nSplits the input into a list at each separator. Surrounding whitespace and blank items are dropped.',
+    snippet: 'split(${1:input}, "${2:\\n}")${3}',
+    snippetAfterPipe: 'split("${1:\\n}")${2}'
+  },
+  {
+    name: 'map',
+    detail: 'Apply an operation to each list item',
+    info: 'map(list, operation)\n\nPipes each item of the list into the operation, e.g. map(getUrlContent() |> llm(...)), and returns the results as a list. Each item is cached separately.',
+    snippet: 'map(${1:list}, ${2:operation})${3}',
+    snippetAfterPipe: 'map(${1:operation})${2}'
+  },
+  {
+    name: 'join',
+    detail: 'Join a list into text',
+    info: 'join(list, separator)\n\nJoins the items of a list with the separator (a newline by default). concat also accepts lists.',
+    snippet: 'join(${1:list})${2}',
+    snippetAfterPipe: 'join()'
+  },
+  {
+    name: 'replace',
+    detail: 'Replace pattern matches',
+    info: 'replace(input, pattern="...", with="...")\n\nReplaces every match of the regular expression with the replacement, which may refer to groups as $1, $2, ... Matches are removed when with is omitted.',
+    snippet: 'replace(${1:input}, pattern="${2}", with="${3}")${4}',
+    snippetAfterPipe: 'replace(pattern="${1}", with="${2}")${3}'
+  },
+  {
+    name: 'extract',
+    detail: 'Extract a regex match',
+    info: 'extract(input, regex="...", group=1)\n\nReturns the first match of the regular expression, or the given capture group of it. Returns empty text when nothing matches.',
+    snippet: 'extract(${1:input}, regex="${2}")${3}',
+    snippetAfterPipe: 'extract(regex="${1}")${2}'
+  },
+  {
+    name: 'lines',
+    detail: 'Select a range of lines',
+    info: 'lines(input, from=1, to=-1)\n\nReturns lines from-to, counting from 1 and including both ends. Negative numbers count back from the last line.',
+    snippet: 'lines(${1:input}, from=${2:1}, to=${3:-1})${4}',
+    snippetAfterPipe: 'lines(from=${1:1}, to=${2:-1})${3}'
+  },
+  {
+    name: 'trim',
+    detail: 'Trim whitespace',
+    info: 'trim(input)\n\nRemoves leading and trailing whitespace.',
+    snippet: 'trim(${1:input})${2}',
+    snippetAfterPipe: 'trim()'
+  },
+  {
+    name: 'upper',
+    detail: 'Convert to uppercase',
+    info: 'upper(input)\n\nConverts the input to uppercase.',
+    snippet: 'upper(${1:input})${2}',
+    snippetAfterPipe: 'upper()'
+  },
+  {
+    name: 'lower',
+    detail: 'Convert to lowercase',
+    info: 'lower(input)\n\nConverts the input to lowercase.',
+    snippet: 'lower(${1:input})${2}',
+    snippetAfterPipe: 'lower()'
+  },
+  {
+    name: 'template',
+    detail: 'Fill in a template',
+    info: 'template("Hello {0}", value0, value1, ...)\n\nReplaces {0}, {1}, ... in the template with the values that follow it.',
+    snippet: 'template("${1:template}", ${2:value})${3}',
+    snippetAfterPipe: 'template(${1:value})${2}'
+  },
+  {
+    name: 'json',
+    detail: 'Extract from JSON',
+    info: 'json(input, path="$.items[0].title")\n\nParses the input as JSON and returns the value at the path (keys and indexes; negative indexes count from the end). Text values are returned as-is, anything else as JSON.',
+    snippet: 'json(${1:input}, path="${2:$}")${3}',
+    snippetAfterPipe: 'json(path="${1:$}")${2}'
+  },
+  {
+    name: 'llmJson',
+    detail: 'Generate JSON with an LLM',
+    info: 'llmJson(input, prompt="...", model="openai/gpt-5", schema=$schema)\n\nLike llm, but the model answers with JSON matching the JSON Schema, given as a string or a formula. Output that does not match fails the read. Takes the same sampling and overflow arguments as llm.',
+    snippet:
+      'llmJson(${1:input}, prompt="${2:your prompt}", model="${3:openai/gpt-5}", schema=${4:schema})${5}',
+    snippetAfterPipe:
+      'llmJson(prompt="${1:your prompt}", model="${2:openai/gpt-5}", schema=${3:schema})${4}'
+  },
+  {
+    name: 'chat',
+    detail: 'Continue a conversation with an LLM',
+    info: 'chat(system="...", user=$question, assistant=$answer, user="...", model="openai/gpt-5")\n\nSends the messages, in the order written, and returns the reply. user= and assistant= may repeat; positional and piped inputs are user messages that come first. Each reply can be passed back as an assistant message to continue, or branch, the conversation. Takes the same sampling arguments as llm; overflow= drops the earliest messages ("truncate-head", the default), the latest ("truncate-tail") or fails the read ("error").',
+    snippet: 'chat(system="${1:your prompt}", user=${2:message}, model="${3:openai/gpt-5}")${4}',
+    snippetAfterPipe: 'chat(system="${1:your prompt}", model="${2:openai/gpt-5}")${3}'
+  },
+  {
+    name: 'if',
+    detail: 'Choose between two inputs',
+    info: 'if(condition, then, else)\n\nReads then when the condition is true and else otherwise; only the chosen input is computed. Empty text, "false", "no" and "0" count as false. Without else, a false condition gives empty text.',
+    snippet: 'if(${1:condition}, ${2:then}, ${3:else})${4}',
+    snippetAfterPipe: 'if(${1:then}, ${2:else})${3}'
+  },
+  {
+    name: 'switch',
+    detail: 'Choose an input by value',
+    info: 'switch(value, case1=..., case2=..., default=...)\n\nReads the input named by the value (ignoring case and surrounding whitespace), or default; only the chosen input is computed. Fails when nothing matches and there is no default.',
+    snippet: 'switch(${1:value}, ${2:case}=${3:input}, default=${4:input})${5}',
+    snippetAfterPipe: 'switch(${1:case}=${2:input}, default=${3:input})${4}'
+  },
+  {
+    // reads a path literal rather than an input, so nothing pipes into it
+    name: 'readFile',
+    detail: 'Read a file',
+    info: 'readFile(`path`)\n\nReads a file in the watched directory, relative to it. The file is read and hashed on every read, so editing it recomputes the formulas using it, whether or not the watcher is running.',
+    snippet: 'readFile(`${1:path}`)${2}'
+  },
+  {
+    name: 'glob',
+    detail: 'Read matching files',
+    info: 'glob(`pattern`)\n\nReads the files in the watched directory matching the glob pattern, e.g. `notes/**/*.md`, and returns their contents as a list, in path order. Adding, removing or editing a matching file recomputes the formulas using it.',
+    snippet: 'glob(`${1:pattern}`)${2}'
+  },
+  {
+    // declares an input rather than performing an operation, so nothing pipes into it
+    name: 'param',
+    detail: 'Formula parameter',
+    info: 'param("name", default="...")\n\nAn input whose value is bound by the formulas referencing this one, as in $story(name="value"). {name} placeholders in strings are filled in too.',
+    snippet: 'param("${1:name}")${2}'
   }
 ] as const;
 
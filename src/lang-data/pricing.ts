@@ -0,0 +1,19 @@
+import { findLlmModel } from './models.js';
+
+/**
+ * Returns the cost in USD of a call, or undefined if the model has no known
+ * price. Local models are free.
+ */
+export const getLlmCost = (
+  modelAlias: string,
+  promptTokens: number,
+  completionTokens: number
+): number | undefined => {
+  const price = findLlmModel(modelAlias)?.pricing;
+  if (price === undefined) {
+    return undefined;
+  }
+  return (
+    (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000
+  );
+};
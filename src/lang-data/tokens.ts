@@ -25,6 +25,9 @@ export const tokenPatterns = {
   /** Hash literals for content hashes (8-64 hex characters) */
   hashLiteral: /#[0-9a-fA-F]{8,64}/,
 
+  /** Number literals, e.g. line numbers or a temperature */
+  numberLiteral: /-?\d+(?:\.\d+)?/,
+
   /** Path literals enclosed in backticks */
   pathLiteral: /`[^`]+`/,
 
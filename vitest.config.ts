@@ -5,7 +5,8 @@ export default defineConfig({
   resolve: {
     alias: {
       '@lang-data': resolve(__dirname, './src/lang-data'),
-      '@config': resolve(__dirname, './src/config')
+      '@config': resolve(__dirname, './src/config'),
+      '@core': resolve(__dirname, './src/core')
     }
   },
   test: {